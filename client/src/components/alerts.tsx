@@ -1,19 +1,23 @@
 import { Card, CardContent } from "@/components/ui/card";
-import { Info } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Check, Info } from "lucide-react";
+import type { AnalysisJobEvent, AnalysisStage } from "@shared/schema";
+import { useI18n } from "@/hooks/use-i18n";
+import type { MessageKey } from "@/lib/i18n";
 
 export function EducationalDisclaimer() {
+  const { t } = useI18n();
+
   return (
     <Card className="bg-blue-50 border-blue-200">
       <CardContent className="pt-6">
         <div className="flex items-start space-x-3">
           <Info className="w-6 h-6 text-blue-600 mt-0.5 flex-shrink-0" />
           <div>
-            <h3 className="font-semibold text-blue-900 mb-2">Educational Purpose Only</h3>
+            <h3 className="font-semibold text-blue-900 mb-2">{t("alerts.disclaimer.title")}</h3>
             <p className="text-blue-800 text-sm leading-relaxed">
-              This nutritional analysis is for educational and informational purposes only. 
-              Results are estimates based on visual analysis and may not be completely accurate. 
-              Always consult healthcare professionals for personalized dietary advice, especially 
-              for children with specific nutritional needs or medical conditions.
+              {t("alerts.disclaimer.body")}
             </p>
           </div>
         </div>
@@ -24,20 +28,71 @@ export function EducationalDisclaimer() {
 
 interface LoadingOverlayProps {
   isVisible: boolean;
+  progress?: AnalysisJobEvent | null;
+  onCancel?: () => void;
 }
 
-export function LoadingOverlay({ isVisible }: LoadingOverlayProps) {
+const PROGRESS_STEPS: { stage: AnalysisStage; label: MessageKey }[] = [
+  { stage: 'uploading', label: 'alerts.step.uploading' },
+  { stage: 'queued', label: 'alerts.step.queued' },
+  { stage: 'model_call', label: 'alerts.step.modelCall' },
+  { stage: 'validating', label: 'alerts.step.validating' },
+];
+
+export function LoadingOverlay({ isVisible, progress, onCancel }: LoadingOverlayProps) {
+  const { t } = useI18n();
   if (!isVisible) return null;
 
+  const currentStep = progress ? PROGRESS_STEPS.findIndex(step => step.stage === progress.stage) : -1;
+  const percent = progress?.stage === 'done' ? 100 : ((currentStep + 1) / (PROGRESS_STEPS.length + 1)) * 100;
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 backdrop-blur-sm z-50 flex items-center justify-center">
-      <Card className="max-w-md mx-4">
+      <Card className="max-w-md w-full mx-4">
         <CardContent className="pt-6 text-center">
           <div className="animate-spin w-12 h-12 border-4 border-primary border-t-transparent rounded-full mx-auto mb-4" />
-          <h3 className="text-lg font-semibold mb-2">Analyzing Food Items...</h3>
-          <p className="text-muted-foreground text-sm">
-            Please wait while we identify and analyze the nutritional content of your food.
-          </p>
+          <h3 className="text-lg font-semibold mb-2">{t("alerts.analyzing")}</h3>
+          {progress ? (
+            <>
+              <p className="text-muted-foreground text-sm mb-4" data-testid="text-analysis-progress">
+                {progress.message}
+              </p>
+              <Progress value={percent} className="h-2 mb-4" />
+              <ul className="space-y-1 text-sm text-left">
+                {PROGRESS_STEPS.map((step, index) => (
+                  <li
+                    key={step.stage}
+                    className={`flex items-center space-x-2 ${index <= currentStep ? 'text-foreground' : 'text-muted-foreground'}`}
+                  >
+                    {index < currentStep ? (
+                      <Check className="w-4 h-4 text-green-600" />
+                    ) : (
+                      <span className={`w-2 h-2 mx-1 rounded-full ${index === currentStep ? 'bg-primary' : 'bg-muted-foreground/40'}`} />
+                    )}
+                    <span>
+                      {t(step.label)}
+                      {step.stage === 'model_call' && index <= currentStep && progress.model && (
+                        <span className="text-muted-foreground">
+                          {' '}· {progress.model}
+                          {progress.attempt && progress.attempt > 1 ? ` (${t("alerts.attempt", { attempt: progress.attempt })})` : ''}
+                          {progress.fallback ? ` (${t("alerts.fallback")})` : ''}
+                        </span>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : (
+            <p className="text-muted-foreground text-sm">
+              {t("alerts.wait")}
+            </p>
+          )}
+          {onCancel && (
+            <Button variant="outline" className="mt-4" onClick={onCancel} data-testid="button-cancel-analysis">
+              {t("common.cancel")}
+            </Button>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,82 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ShieldAlert } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { AllergenCode, AllergySeverity, ChildAllergy } from "@shared/schema";
+import { ALLERGENS, allergenName } from "@shared/allergens";
+import { getAllergies, setAllergies } from "@/lib/localStore";
+import { useI18n } from "@/hooks/use-i18n";
+
+const SEVERITIES: AllergySeverity[] = ["mild", "moderate", "severe"];
+
+// The child's known allergies, saved on every change. Analyzed meals containing one of
+// them show an alert above the nutrition tables.
+export function AllergySettings() {
+  const queryClient = useQueryClient();
+  const { t, language } = useI18n();
+  const { data: allergies = [] } = useQuery({ queryKey: ['allergies'], queryFn: async () => getAllergies() });
+
+  const saveMutation = useMutation({
+    mutationFn: async (next: ChildAllergy[]) => setAllergies(next),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['allergies'] }),
+  });
+
+  const toggle = (code: AllergenCode, checked: boolean) => {
+    saveMutation.mutate(checked
+      ? [...allergies, { code, severity: "moderate" }]
+      : allergies.filter(allergy => allergy.code !== code));
+  };
+
+  const changeSeverity = (code: AllergenCode, severity: AllergySeverity) => {
+    saveMutation.mutate(allergies.map(allergy => allergy.code === code ? { ...allergy, severity } : allergy));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ShieldAlert className="h-5 w-5 text-red-600" />
+          <span>{t("allergies.title")}</span>
+        </CardTitle>
+        <CardDescription>
+          {t("allergies.description")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {ALLERGENS.filter(entry => entry.code !== "other").map(entry => {
+          const allergy = allergies.find(candidate => candidate.code === entry.code);
+          return (
+            <div key={entry.code} className="flex items-center justify-between gap-3">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id={`allergy-${entry.code}`}
+                  checked={Boolean(allergy)}
+                  onCheckedChange={checked => toggle(entry.code, checked === true)}
+                  data-testid={`checkbox-allergy-${entry.code}`}
+                />
+                <Label htmlFor={`allergy-${entry.code}`} className="text-sm">{allergenName(entry.code, language)}</Label>
+              </div>
+              {allergy && (
+                <Select
+                  value={allergy.severity}
+                  onValueChange={value => changeSeverity(entry.code, value as AllergySeverity)}
+                >
+                  <SelectTrigger className="h-8 w-32" data-testid={`select-severity-${entry.code}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SEVERITIES.map(severity => (
+                      <SelectItem key={severity} value={severity}>{t(`severity.${severity}`)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
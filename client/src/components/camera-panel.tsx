@@ -4,6 +4,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Camera, RotateCcw, Play, Square } from "lucide-react";
 import { resizeImageIfNeeded } from "@/lib/image";
+import { useI18n } from "@/hooks/use-i18n";
+import type { MessageKey } from "@/lib/i18n";
 
 interface CameraPanelProps {
   onCapture: (dataURL: string) => void;
@@ -11,10 +13,12 @@ interface CameraPanelProps {
 }
 
 export function CameraPanel({ onCapture, isAnalyzing }: CameraPanelProps) {
+  const { t } = useI18n();
   const [isStreaming, setIsStreaming] = useState(false);
   const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
   const [selectedDeviceId, setSelectedDeviceId] = useState<string>("");
-  const [error, setError] = useState<string>("");
+  // A catalog key, so the message follows a language change
+  const [error, setError] = useState<MessageKey | null>(null);
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -38,7 +42,7 @@ export function CameraPanel({ onCapture, isAnalyzing }: CameraPanelProps) {
       })
       .catch(err => {
         console.error('Error enumerating devices:', err);
-        setError('Unable to access camera devices');
+        setError("camera.error.devices");
       });
 
     return () => {
@@ -48,7 +52,7 @@ export function CameraPanel({ onCapture, isAnalyzing }: CameraPanelProps) {
 
   const startStream = async () => {
     try {
-      setError("");
+      setError(null);
       
       const constraints: MediaStreamConstraints = {
         video: {
@@ -68,7 +72,7 @@ export function CameraPanel({ onCapture, isAnalyzing }: CameraPanelProps) {
       }
     } catch (err) {
       console.error('Error starting camera:', err);
-      setError('Unable to start camera. Please check permissions.');
+      setError("camera.error.start");
     }
   };
 
@@ -99,7 +103,7 @@ export function CameraPanel({ onCapture, isAnalyzing }: CameraPanelProps) {
     
     // Check compressed size - same as upload path
     if (dataURL.length > 512 * 1024) {
-      setError('Captured image is too large. Please try with better lighting or a different angle.');
+      setError("camera.error.tooLarge");
       return;
     }
     
@@ -128,10 +132,10 @@ export function CameraPanel({ onCapture, isAnalyzing }: CameraPanelProps) {
         <CardHeader>
           <CardTitle className="flex items-center space-x-2">
             <Camera className="w-5 h-5" />
-            <span>Camera Analysis</span>
+            <span>{t("camera.title")}</span>
           </CardTitle>
           <p className="text-sm text-muted-foreground">
-            Position food items clearly in the camera view
+            {t("camera.subtitle")}
           </p>
         </CardHeader>
         
@@ -142,21 +146,21 @@ export function CameraPanel({ onCapture, isAnalyzing }: CameraPanelProps) {
               <div className="absolute inset-0 flex items-center justify-center bg-destructive/10">
                 <div className="text-center p-4">
                   <Camera className="w-12 h-12 text-destructive mx-auto mb-2" />
-                  <p className="text-destructive text-sm">{error}</p>
+                  <p className="text-destructive text-sm">{t(error)}</p>
                 </div>
               </div>
             ) : !isStreaming ? (
               <div className="absolute inset-0 flex items-center justify-center">
                 <div className="text-center">
                   <Camera className="w-12 h-12 text-muted-foreground mx-auto mb-2" />
-                  <p className="text-muted-foreground text-sm">Camera Preview</p>
+                  <p className="text-muted-foreground text-sm">{t("camera.preview")}</p>
                   <Button 
                     onClick={startStream} 
                     className="mt-2"
                     data-testid="button-start-camera"
                   >
                     <Play className="w-4 h-4 mr-2" />
-                    Start Camera
+                    {t("camera.start")}
                   </Button>
                 </div>
               </div>
@@ -220,17 +224,17 @@ export function CameraPanel({ onCapture, isAnalyzing }: CameraPanelProps) {
           <div className="space-y-3">
             {devices.length > 0 && (
               <div className="flex items-center justify-between">
-                <label className="text-sm font-medium">Camera Device:</label>
+                <label className="text-sm font-medium">{t("camera.device")}</label>
                 <Select value={selectedDeviceId} onValueChange={setSelectedDeviceId}>
                   <SelectTrigger className="w-48" data-testid="select-camera-device">
-                    <SelectValue placeholder="Select camera" />
+                    <SelectValue placeholder={t("camera.device.placeholder")} />
                   </SelectTrigger>
                   <SelectContent>
                     {devices
                       .filter(device => device.deviceId && device.deviceId.trim() !== '')
                       .map((device, index) => (
                         <SelectItem key={device.deviceId} value={device.deviceId}>
-                          {device.label || `Camera ${index + 1}`}
+                          {device.label || t("camera.device.unnamed", { number: index + 1 })}
                         </SelectItem>
                       ))}
                   </SelectContent>
@@ -244,7 +248,7 @@ export function CameraPanel({ onCapture, isAnalyzing }: CameraPanelProps) {
               className="w-full bg-secondary hover:bg-secondary/90 text-secondary-foreground"
               data-testid="button-analyze-camera"
             >
-              {isAnalyzing ? "Analyzing..." : "Analyze Food with Camera"}
+              {isAnalyzing ? t("common.analyzing") : t("camera.analyze")}
             </Button>
           </div>
         </CardContent>
@@ -256,12 +260,12 @@ export function CameraPanel({ onCapture, isAnalyzing }: CameraPanelProps) {
       {/* Camera Tips */}
       <Card className="bg-blue-50 border-blue-200">
         <CardContent className="pt-6">
-          <h4 className="font-medium text-blue-900 mb-2">Camera Tips</h4>
+          <h4 className="font-medium text-blue-900 mb-2">{t("camera.tips.title")}</h4>
           <ul className="text-sm text-blue-800 space-y-1">
-            <li>• Ensure good lighting on food items</li>
-            <li>• Hold camera steady for clear capture</li>
-            <li>• Position food items within the grid</li>
-            <li>• Avoid shadows and reflections</li>
+            <li>• {t("camera.tips.1")}</li>
+            <li>• {t("camera.tips.2")}</li>
+            <li>• {t("camera.tips.3")}</li>
+            <li>• {t("camera.tips.4")}</li>
           </ul>
         </CardContent>
       </Card>
@@ -0,0 +1,210 @@
+import { useEffect, useRef } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/hooks/use-i18n";
+import { addChildProfile, updateChildProfile, type ChildProfileDetails } from "@/lib/localStore";
+import { ChildProfileSchema, SexSchema, type ChildProfile } from "@shared/schema";
+import type { MessageKey } from "@/lib/i18n";
+
+// Empty inputs leave the optional measurements unset
+const optionalMeasure = (max: number) => z.preprocess(
+  value => (value === "" || value === null ? undefined : value),
+  z.coerce.number().positive().max(max).optional(),
+);
+
+const childProfileFormSchema = (t: (key: MessageKey) => string) => z.object({
+  name: ChildProfileSchema.shape.name,
+  birthDate: ChildProfileSchema.shape.birthDate
+    .refine(date => date <= format(new Date(), "yyyy-MM-dd"), t("children.birthDate.future")),
+  sex: SexSchema,
+  weightKg: optionalMeasure(200),
+  heightCm: optionalMeasure(250),
+});
+
+type ChildProfileFormData = z.infer<ReturnType<typeof childProfileFormSchema>>;
+
+const EMPTY_PROFILE: Partial<ChildProfileFormData> = {
+  name: "",
+  birthDate: "",
+  sex: undefined,
+  weightKg: undefined,
+  heightCm: undefined,
+};
+
+interface ChildProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  child?: ChildProfile; // edited profile; a new one is added when omitted
+}
+
+export function ChildProfileDialog({ open, onOpenChange, child }: ChildProfileDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { t } = useI18n();
+  // The resolver is created once; the ref keeps its messages in the current language
+  const tRef = useRef(t);
+  tRef.current = t;
+
+  const form = useForm<ChildProfileFormData>({
+    resolver: (values, context, options) =>
+      zodResolver(childProfileFormSchema(tRef.current))(values, context, options),
+    defaultValues: EMPTY_PROFILE,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset(child ? {
+      name: child.name,
+      birthDate: child.birthDate,
+      sex: child.sex,
+      weightKg: child.weightKg,
+      heightCm: child.heightCm,
+    } : EMPTY_PROFILE);
+  }, [open, child, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (details: ChildProfileDetails) =>
+      child ? updateChildProfile(child.id, details) : addChildProfile(details),
+    onSuccess: () => {
+      // A new profile becomes the selected child, which scopes every query
+      queryClient.invalidateQueries();
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: t("common.saveFailed"),
+        description: error.message || t("children.toast.saveFailed"),
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {child ? t("children.dialog.editTitle", { name: child.name }) : t("children.dialog.addTitle")}
+          </DialogTitle>
+          <DialogDescription>{t("children.dialog.description")}</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(data => saveMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("children.name")}</FormLabel>
+                  <FormControl>
+                    <Input {...field} data-testid="input-child-name" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="birthDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("children.birthDate")}</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} data-testid="input-child-birth-date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="sex"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("children.sex")}</FormLabel>
+                    <Select value={field.value ?? ""} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-child-sex">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {SexSchema.options.map(sex => (
+                          <SelectItem key={sex} value={sex}>{t(`children.sex.${sex}`)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="weightKg"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("children.weight")}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.1"
+                        placeholder={t("children.optional")}
+                        {...field}
+                        value={field.value ?? ""}
+                        data-testid="input-child-weight"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="heightCm"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("children.height")}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.1"
+                        placeholder={t("children.optional")}
+                        {...field}
+                        value={field.value ?? ""}
+                        data-testid="input-child-height"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                {t("common.cancel")}
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-child">
+                {t("children.save")}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,63 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Baby, Pencil, UserPlus } from "lucide-react";
+import { ChildProfileDialog } from "@/components/child-profile-dialog";
+import { useChildProfiles } from "@/hooks/use-child-profiles";
+import { useI18n } from "@/hooks/use-i18n";
+
+const ADD_CHILD = "__add";
+
+// Selects the child whose meals, goals and allergies are shown; also adds and edits profiles.
+export function ChildSwitcher() {
+  const { t } = useI18n();
+  const { profiles, activeProfile, selectProfile } = useChildProfiles();
+  const [dialog, setDialog] = useState<"add" | "edit" | null>(null);
+
+  return (
+    <>
+      {activeProfile ? (
+        <div className="flex items-center space-x-1">
+          <Select
+            value={activeProfile.id}
+            onValueChange={(value) => (value === ADD_CHILD ? setDialog("add") : selectProfile(value))}
+          >
+            <SelectTrigger className="w-44" aria-label={t("children.label")} data-testid="select-child">
+              <Baby className="h-4 w-4 mr-2" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map(profile => (
+                <SelectItem key={profile.id} value={profile.id}>
+                  {profile.name}
+                </SelectItem>
+              ))}
+              <SelectSeparator />
+              <SelectItem value={ADD_CHILD}>{t("children.add")}</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setDialog("edit")}
+            aria-label={t("children.edit")}
+            data-testid="button-edit-child"
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        <Button variant="outline" onClick={() => setDialog("add")} className="flex items-center space-x-2" data-testid="button-add-child">
+          <UserPlus className="h-4 w-4" />
+          <span>{t("children.add")}</span>
+        </Button>
+      )}
+
+      <ChildProfileDialog
+        open={dialog !== null}
+        onOpenChange={(open) => !open && setDialog(null)}
+        child={dialog === "edit" ? activeProfile ?? undefined : undefined}
+      />
+    </>
+  );
+}
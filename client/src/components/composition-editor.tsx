@@ -0,0 +1,142 @@
+import { useState, type KeyboardEvent } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, Trash2 } from "lucide-react";
+import type { NutritionAnalysis } from "@shared/schema";
+import { FOOD_LABELS } from "@shared/food-labels";
+import { getFoodComposition } from "@shared/food-composition";
+import { addItem, createItem, removeItem, updateItem } from "@shared/composition-edits";
+import { roundTo } from "@shared/nutrition";
+import { fromMassUnit, toMassUnit } from "@shared/units";
+import { useUnits } from "@/hooks/use-units";
+import { useI18n } from "@/hooks/use-i18n";
+
+interface CompositionEditorProps {
+  analysis: NutritionAnalysis;
+  onChange: (analysis: NutritionAnalysis) => void;
+}
+
+// Suggestions for the label inputs: foods whose nutrition can be looked up
+const FOOD_SUGGESTIONS = FOOD_LABELS
+  .filter(entry => getFoodComposition(entry.id))
+  .map(entry => entry.names.id);
+
+// Corrects the model's items before saving: relabel, change the weight, delete or add.
+// Edits are applied on blur (or Enter) and the totals are re-summed each time.
+export function CompositionEditor({ analysis, onChange }: CompositionEditorProps) {
+  const [newLabel, setNewLabel] = useState("");
+  const [newWeight, setNewWeight] = useState("");
+  const [addError, setAddError] = useState(false);
+  const { units, massLabel } = useUnits();
+  const { t } = useI18n();
+
+  // Weights are typed in the display unit; items keep grams
+  const displayWeight = (grams: number) => roundTo(toMassUnit(grams, units.mass), Math.max(units.decimals, units.mass === 'oz' ? 1 : 0));
+
+  const handleAdd = () => {
+    const item = createItem(newLabel, fromMassUnit(Number(newWeight), units.mass));
+    if (!item) {
+      setAddError(true);
+      return;
+    }
+    onChange(addItem(analysis, item));
+    setNewLabel("");
+    setNewWeight("");
+    setAddError(false);
+  };
+
+  const commitOnEnter = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") e.currentTarget.blur();
+  };
+
+  return (
+    <Card className="bg-muted">
+      <CardContent className="pt-4 space-y-3">
+        <h3 className="font-semibold">{t("results.editor.title")}</h3>
+        <datalist id="composition-food-suggestions">
+          {FOOD_SUGGESTIONS.map(name => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+
+        {analysis.composition.map((item, index) => (
+          // Keyed by content so the uncontrolled inputs reset after each applied edit
+          <div key={`${index}-${item.label}-${item.serving_est_g}-${units.mass}`} className="flex items-center space-x-2">
+            <Input
+              defaultValue={item.label}
+              list="composition-food-suggestions"
+              onBlur={(e) => onChange(updateItem(analysis, index, { label: e.target.value }))}
+              onKeyDown={commitOnEnter}
+              className="flex-1 h-8 bg-background"
+              data-testid={`input-edit-label-${index}`}
+            />
+            <div className="relative w-24">
+              <Input
+                type="number"
+                min={0}
+                defaultValue={displayWeight(item.serving_est_g)}
+                onBlur={(e) => {
+                  const weight = Number(e.target.value);
+                  // Unchanged values are skipped so the rounded display value is not written back
+                  if (e.target.value !== "" && e.target.value !== e.target.defaultValue && Number.isFinite(weight)) {
+                    onChange(updateItem(analysis, index, { serving_est_g: fromMassUnit(weight, units.mass) }));
+                  }
+                }}
+                onKeyDown={commitOnEnter}
+                className="h-8 bg-background pr-6"
+                data-testid={`input-edit-grams-${index}`}
+              />
+              <span className="absolute right-2 top-1.5 text-xs text-muted-foreground">{massLabel}</span>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(removeItem(analysis, index))}
+              data-testid={`button-delete-item-${index}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        <div className="flex items-center space-x-2 pt-2 border-t">
+          <Input
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            list="composition-food-suggestions"
+            placeholder={t("results.editor.addPlaceholder")}
+            className="flex-1 h-8 bg-background"
+            data-testid="input-add-item-label"
+          />
+          <div className="relative w-24">
+            <Input
+              type="number"
+              min={1}
+              value={newWeight}
+              onChange={(e) => setNewWeight(e.target.value)}
+              placeholder={String(displayWeight(50))}
+              className="h-8 bg-background pr-6"
+              data-testid="input-add-item-grams"
+            />
+            <span className="absolute right-2 top-1.5 text-xs text-muted-foreground">{massLabel}</span>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleAdd}
+            disabled={!newLabel.trim() || !newWeight}
+            data-testid="button-add-item"
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+        {addError && (
+          <p className="text-xs text-destructive" data-testid="text-add-item-error">
+            {t("results.editor.addError", { unit: t(`results.editor.unit.${units.mass}`) })}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
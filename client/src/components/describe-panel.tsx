@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { PencilLine } from "lucide-react";
+import { MAX_DESCRIPTION_LENGTH } from "@shared/schema";
+import { useI18n } from "@/hooks/use-i18n";
+
+interface DescribePanelProps {
+  onDescribe: (description: string) => void;
+  isAnalyzing: boolean;
+}
+
+// Sample descriptions in both languages the analysis accepts; not translated
+const EXAMPLES = [
+  "1 piring nasi putih, sepotong ayam goreng, sayur bayam",
+  "Semangkuk bubur ayam dengan kerupuk",
+  "2 slices of bread with peanut butter and a glass of milk",
+];
+
+// Logs a meal from a typed description when there is no photo (e.g. a school lunch).
+export function DescribePanel({ onDescribe, isAnalyzing }: DescribePanelProps) {
+  const { t } = useI18n();
+  const [description, setDescription] = useState("");
+  const trimmed = description.trim();
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <PencilLine className="w-5 h-5" />
+            <span>{t("describe.title")}</span>
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {t("describe.subtitle")}
+          </p>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          <Textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder={t("describe.placeholder")}
+            maxLength={MAX_DESCRIPTION_LENGTH}
+            rows={5}
+            disabled={isAnalyzing}
+            data-testid="textarea-meal-description"
+          />
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>{t("describe.portions")}</span>
+            <span>{description.length}/{MAX_DESCRIPTION_LENGTH}</span>
+          </div>
+
+          <Button
+            onClick={() => onDescribe(trimmed)}
+            disabled={!trimmed || isAnalyzing}
+            className="w-full bg-secondary hover:bg-secondary/90 text-secondary-foreground"
+            data-testid="button-analyze-description"
+          >
+            {isAnalyzing ? t("common.analyzing") : t("describe.analyze")}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          <h3 className="text-lg font-semibold mb-3">{t("describe.examples")}</h3>
+          <div className="space-y-2">
+            {EXAMPLES.map(example => (
+              <button
+                key={example}
+                type="button"
+                onClick={() => setDescription(example)}
+                disabled={isAnalyzing}
+                className="w-full text-left text-sm p-2 rounded-md bg-muted hover:bg-muted/70 transition-colors"
+                data-testid="button-description-example"
+              >
+                {example}
+              </button>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Leaf } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { DietaryPreferences } from "@shared/schema";
+import { DEFAULT_DIETARY_PREFERENCES, getDietaryPreferences, setDietaryPreferences } from "@/lib/localStore";
+import { useI18n } from "@/hooks/use-i18n";
+
+const RULES = ["halal", "vegetarian", "vegan"] as const;
+
+// Dietary rules, saved on every change (the avoid list on blur). Conflicting items in an
+// analyzed meal show an alert above the nutrition tables.
+export function DietarySettings() {
+  const queryClient = useQueryClient();
+  const { t } = useI18n();
+  const { data: preferences = DEFAULT_DIETARY_PREFERENCES } = useQuery({
+    queryKey: ['dietary'],
+    queryFn: async () => getDietaryPreferences(),
+  });
+  const [avoidText, setAvoidText] = useState("");
+
+  useEffect(() => {
+    setAvoidText(preferences.avoid.join(", "));
+  }, [preferences.avoid]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (next: DietaryPreferences) => setDietaryPreferences(next),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['dietary'] }),
+  });
+
+  const saveAvoid = () => {
+    const avoid = avoidText.split(",").map(term => term.trim()).filter(Boolean);
+    if (avoid.join(",") !== preferences.avoid.join(",")) {
+      saveMutation.mutate({ ...preferences, avoid });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Leaf className="h-5 w-5 text-green-600" />
+          <span>{t("dietary.title")}</span>
+        </CardTitle>
+        <CardDescription>
+          {t("dietary.description")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {RULES.map(rule => (
+          <div key={rule} className="flex items-center justify-between gap-3">
+            <div>
+              <Label htmlFor={`dietary-${rule}`}>{t(`dietary.${rule}`)}</Label>
+              <p className="text-xs text-muted-foreground">{t(`dietary.${rule}.hint`)}</p>
+            </div>
+            <Switch
+              id={`dietary-${rule}`}
+              checked={preferences[rule]}
+              onCheckedChange={checked => saveMutation.mutate({ ...preferences, [rule]: checked })}
+              data-testid={`switch-dietary-${rule}`}
+            />
+          </div>
+        ))}
+        <div className="space-y-1">
+          <Label htmlFor="dietary-avoid">{t("dietary.avoid")}</Label>
+          <Input
+            id="dietary-avoid"
+            value={avoidText}
+            onChange={e => setAvoidText(e.target.value)}
+            onBlur={saveAvoid}
+            onKeyDown={e => { if (e.key === "Enter") saveAvoid(); }}
+            placeholder={t("dietary.avoid.placeholder")}
+            data-testid="input-dietary-avoid"
+          />
+          <p className="text-xs text-muted-foreground">{t("dietary.avoid.hint")}</p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,6 +3,8 @@ import { Download } from "lucide-react";
 import type { NutritionAnalysis } from "@shared/schema";
 import { downloadJSON, downloadCSV } from "@/lib/csv";
 import { useToast } from "@/hooks/use-toast";
+import { useUnits } from "@/hooks/use-units";
+import { useI18n } from "@/hooks/use-i18n";
 
 interface DownloadsProps {
   analysis: NutritionAnalysis;
@@ -10,19 +12,21 @@ interface DownloadsProps {
 
 export function Downloads({ analysis }: DownloadsProps) {
   const { toast } = useToast();
+  const { units } = useUnits();
+  const { t } = useI18n();
 
   const handleExportJSON = () => {
     try {
       const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
       downloadJSON(analysis, `nutrition-analysis-${timestamp}.json`);
       toast({
-        title: "Export Successful",
-        description: "JSON file has been downloaded",
+        title: t("results.export.success.title"),
+        description: t("results.export.json.success"),
       });
     } catch (error) {
       toast({
-        title: "Export Failed",
-        description: "Unable to export JSON file",
+        title: t("results.export.failed.title"),
+        description: t("results.export.json.failed"),
         variant: "destructive",
       });
     }
@@ -31,15 +35,15 @@ export function Downloads({ analysis }: DownloadsProps) {
   const handleExportCSV = () => {
     try {
       const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
-      downloadCSV(analysis, `nutrition-analysis-${timestamp}.csv`);
+      downloadCSV(analysis, `nutrition-analysis-${timestamp}.csv`, units);
       toast({
-        title: "Export Successful",
-        description: "CSV file has been downloaded",
+        title: t("results.export.success.title"),
+        description: t("results.export.csv.success"),
       });
     } catch (error) {
       toast({
-        title: "Export Failed",
-        description: "Unable to export CSV file",
+        title: t("results.export.failed.title"),
+        description: t("results.export.csv.failed"),
         variant: "destructive",
       });
     }
@@ -54,7 +58,7 @@ export function Downloads({ analysis }: DownloadsProps) {
         data-testid="button-export-json"
       >
         <Download className="w-4 h-4 mr-2" />
-        Export JSON
+        {t("results.export.json")}
       </Button>
       <Button
         onClick={handleExportCSV}
@@ -63,7 +67,7 @@ export function Downloads({ analysis }: DownloadsProps) {
         data-testid="button-export-csv"
       >
         <Download className="w-4 h-4 mr-2" />
-        Export CSV
+        {t("results.export.csv")}
       </Button>
     </div>
   );
@@ -0,0 +1,26 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Languages } from "lucide-react";
+import { LANGUAGES } from "@/lib/i18n";
+import { useI18n } from "@/hooks/use-i18n";
+import type { Language } from "@shared/schema";
+
+// UI language; the choice is remembered in localStorage.
+export function LanguageSwitcher() {
+  const { language, setLanguage, t } = useI18n();
+
+  return (
+    <Select value={language} onValueChange={(next) => setLanguage(next as Language)}>
+      <SelectTrigger className="w-40" aria-label={t("language.label")} data-testid="select-language">
+        <Languages className="h-4 w-4 mr-2" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {LANGUAGES.map(option => (
+          <SelectItem key={option.code} value={option.code}>
+            {option.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,64 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Lightbulb } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { analyzeMealHistory, generateRecommendations } from "@shared/recommendations";
+import { getGoals, type LocalMeal } from "@/lib/localStore";
+import { useChildProfiles } from "@/hooks/use-child-profiles";
+import { useI18n } from "@/hooks/use-i18n";
+
+const PRIORITY_STYLES = {
+  high: 'bg-red-100 text-red-800 border-red-200',
+  medium: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  low: 'bg-gray-100 text-gray-800 border-gray-200',
+} as const;
+
+interface MealRecommendationsProps {
+  meals: LocalMeal[]; // the selected child's meals in the chosen period
+}
+
+// Recommendations for the selected child, against their goals or, when unset, the defaults for
+// their age, sex and weight (shared/child-goals.ts).
+export function MealRecommendations({ meals }: MealRecommendationsProps) {
+  const { t, language } = useI18n();
+  const { activeProfile } = useChildProfiles();
+  const { data: goals } = useQuery({ queryKey: ['goals'], queryFn: async () => getGoals() });
+
+  if (!activeProfile || meals.length === 0) return null;
+
+  const recommendations = generateRecommendations(analyzeMealHistory(meals, language), goals, language, activeProfile);
+
+  return (
+    <Card data-testid="card-recommendations">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Lightbulb className="h-5 w-5 text-amber-500" />
+          <span>{t("recommendations.title")}</span>
+        </CardTitle>
+        <CardDescription>
+          {t("recommendations.description", { name: activeProfile.name })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {recommendations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("recommendations.none")}</p>
+        ) : recommendations.map(recommendation => (
+          <div key={recommendation.id} className="space-y-1" data-testid={`recommendation-${recommendation.id}`}>
+            <div className="flex items-center space-x-2">
+              <span className="font-medium">{recommendation.title}</span>
+              <Badge variant="outline" className={PRIORITY_STYLES[recommendation.priority]}>
+                {t(`recommendations.priority.${recommendation.priority}`)}
+              </Badge>
+            </div>
+            <p className="text-sm text-muted-foreground">{recommendation.description}</p>
+            <ul className="text-sm text-muted-foreground list-disc pl-5">
+              {recommendation.suggestions.map(suggestion => (
+                <li key={suggestion}>{suggestion}</li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,21 +1,109 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { AlertTriangle } from "lucide-react";
-import type { NutritionAnalysis } from "@shared/schema";
+import type {
+  AllergenDetection,
+  ChildAllergy,
+  DietaryPreferences,
+  NutritionAnalysis,
+  NutritionTotals,
+  QualityIssue,
+  Recipe,
+} from "@shared/schema";
 import { getConfidenceClass } from "@/lib/image";
+import { foodDisplayName } from "@shared/food-labels";
+import { allergenDetails, allergenName, matchAllergies } from "@shared/allergens";
+import { DIETARY_FLAGS, dietaryConflicts } from "@shared/dietary";
+import { useUnits } from "@/hooks/use-units";
+import { useI18n } from "@/hooks/use-i18n";
+import type { MessageKey } from "@/lib/i18n";
 
 interface NutritionTablesProps {
   analysis: NutritionAnalysis;
+  // Called when the servings eaten of a scanned label item change; read-only without it.
+  onServingsChange?: (index: number, servings: number) => void;
+  // Saved home recipes that can replace an item's nutrition; hidden when absent or empty.
+  recipes?: Recipe[];
+  onAttachRecipe?: (index: number, recipe: Recipe) => void;
+  // The child's known allergies; matching allergens in the meal raise an alert.
+  allergies?: ChildAllergy[];
+  // The user's dietary rules; conflicting items raise an alert.
+  dietaryPreferences?: DietaryPreferences;
 }
 
-export function NutritionTables({ analysis }: NutritionTablesProps) {
+// Extended panel: older results and foods the model could not estimate have no value ("unknown")
+const EXTENDED_NUTRIENTS: { label: MessageKey; unit: string; testId: string; value: (totals: NutritionTotals) => number | undefined }[] = [
+  { label: "nutrient.saturatedFat", unit: "g", testId: "saturated-fat", value: t => t.macros.saturated_fat_g },
+  { label: "nutrient.addedSugar", unit: "g", testId: "added-sugar", value: t => t.macros.added_sugar_g },
+  { label: "nutrient.zinc", unit: "mg", testId: "zinc", value: t => t.micros.zinc_mg },
+  { label: "nutrient.vitaminD", unit: "mcg", testId: "vitamin-d", value: t => t.micros.vitamin_d_mcg },
+  { label: "nutrient.vitaminB12", unit: "mcg", testId: "vitamin-b12", value: t => t.micros.vitamin_b12_mcg },
+  { label: "nutrient.folate", unit: "mcg", testId: "folate", value: t => t.micros.folate_mcg },
+  { label: "nutrient.iodine", unit: "mcg", testId: "iodine", value: t => t.micros.iodine_mcg },
+];
+
+// The meal-level micronutrient grid; all are known for every item
+const MICRONUTRIENTS: { label: MessageKey; unit: string; testId: string; value: (totals: NutritionTotals) => number }[] = [
+  { label: "nutrient.sodium", unit: "mg", testId: "sodium", value: t => t.micros.sodium_mg },
+  { label: "nutrient.potassium", unit: "mg", testId: "potassium", value: t => t.micros.potassium_mg },
+  { label: "nutrient.calcium", unit: "mg", testId: "calcium", value: t => t.micros.calcium_mg },
+  { label: "nutrient.iron", unit: "mg", testId: "iron", value: t => t.micros.iron_mg },
+  { label: "nutrient.vitaminA", unit: "mcg", testId: "vitamin-a", value: t => t.micros.vitamin_a_mcg },
+  { label: "nutrient.vitaminC", unit: "mg", testId: "vitamin-c", value: t => t.micros.vitamin_c_mg },
+  { label: "nutrient.cholesterol", unit: "mg", testId: "cholesterol", value: t => t.micros.cholesterol_mg },
+  { label: "nutrient.fiber", unit: "g", testId: "fiber", value: t => t.macros.fiber_g },
+];
+
+function AllergenBadge({ detection, className }: { detection: AllergenDetection; className: string }) {
+  const { t, language } = useI18n();
+  const name = allergenName(detection.code, language);
+  return (
+    <Badge
+      variant="outline"
+      className={detection.may_contain ? "text-xs bg-amber-50 text-amber-800 border-amber-300 border-dashed" : className}
+      title={`${t(`results.allergen.confidence.${detection.confidence}`)} · ${detection.terms.join(", ")}`}
+      data-testid={`allergen-${detection.code}`}
+    >
+      {detection.may_contain ? t("results.allergen.mayContain", { name: name.toLowerCase() }) : name}
+    </Badge>
+  );
+}
+
+export function NutritionTables({
+  analysis,
+  onServingsChange,
+  recipes = [],
+  onAttachRecipe,
+  allergies = [],
+  dietaryPreferences,
+}: NutritionTablesProps) {
   const { composition, totals } = analysis;
+  const { t, language, formatNumber } = useI18n();
+  const { energyLabel, massLabel, formatAmount, formatEnergy, formatMass } = useUnits();
+  const mealAllergens = allergenDetails(totals.allergens, analysis.allergen_details);
+  const allergyMatches = matchAllergies(analysis, allergies, language);
+  const conflicts = dietaryPreferences ? dietaryConflicts(analysis, dietaryPreferences, language) : [];
+  // The item's name in the other language, shown next to it
+  const otherLanguage = language === 'id' ? 'en' : 'id';
+
+  // Translated from the issue's code, naming the item in the active language; results saved
+  // before issues had codes show the server's English message
+  const issueText = (issue: QualityIssue) => {
+    if (!issue.code) return issue.message;
+    const item = issue.item_index !== undefined ? composition[issue.item_index] : undefined;
+    return t(`results.quality.issue.${issue.code}`, {
+      ...issue.params,
+      ...(item ? { item: foodDisplayName(item, language) } : {}),
+    });
+  };
 
   const getConfidenceBadge = (confidence: number) => {
-    if (confidence >= 0.8) return { label: "High", variant: "default" as const };
-    if (confidence >= 0.6) return { label: "Medium", variant: "secondary" as const };
-    return { label: "Low", variant: "destructive" as const };
+    if (confidence >= 0.8) return { label: t("results.confidence.high"), variant: "default" as const };
+    if (confidence >= 0.6) return { label: t("results.confidence.medium"), variant: "secondary" as const };
+    return { label: t("results.confidence.low"), variant: "destructive" as const };
   };
 
   const calculateMacroPercentage = (macro: number, totalCalories: number) => {
@@ -26,65 +114,128 @@ export function NutritionTables({ analysis }: NutritionTablesProps) {
 
   return (
     <div className="space-y-4">
+      {/* Child Allergy Alert */}
+      {allergyMatches.length > 0 && (
+        <Card className="bg-red-100 border-red-400" data-testid="allergy-alert">
+          <CardContent className="pt-6">
+            <div className="flex items-center space-x-2 mb-2">
+              <AlertTriangle className="w-5 h-5 text-red-700" />
+              <h4 className="font-semibold text-red-900">{t("results.allergyAlert.title")}</h4>
+            </div>
+            <ul className="text-sm text-red-900 space-y-1">
+              {allergyMatches.map(match => (
+                <li key={match.code}>
+                  • <span className="font-medium">{allergenName(match.code, language)}</span> ({t(`severity.${match.severity}`)})
+                  {match.may_contain ? ` — ${t("results.allergyAlert.mayContain")}` : ""}
+                  {match.items.length > 0 ? ` ${t("results.allergyAlert.items", { items: match.items.join(", ") })}` : ""}
+                  {match.confidence === 'low' ? ` — ${t("results.allergyAlert.uncertain")}` : ""}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Dietary Conflict Alert */}
+      {conflicts.length > 0 && (
+        <Card className="bg-orange-50 border-orange-300" data-testid="dietary-alert">
+          <CardContent className="pt-6">
+            <div className="flex items-center space-x-2 mb-2">
+              <AlertTriangle className="w-5 h-5 text-orange-600" />
+              <h4 className="font-medium text-orange-900">{t("results.dietaryAlert.title")}</h4>
+            </div>
+            <ul className="text-sm text-orange-900 space-y-1">
+              {conflicts.map((conflict, index) => (
+                <li key={index}>
+                  • <span className="font-medium">{conflict.item}</span>: {t(`results.conflict.${conflict.reason}`)}
+                  {conflict.term ? ` (${conflict.term})` : ""}
+                  {conflict.source ? ` — ${t(`results.flagSource.${conflict.source}`)}` : ""}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Consistency Warning */}
+      {analysis.quality?.status === 'warning' && (
+        <Card className="bg-yellow-50 border-yellow-200" data-testid="quality-warning">
+          <CardContent className="pt-6">
+            <div className="flex items-center space-x-2 mb-2">
+              <AlertTriangle className="w-5 h-5 text-yellow-600" />
+              <h4 className="font-medium text-yellow-900">{t("results.quality.title")}</h4>
+            </div>
+            <p className="text-sm text-yellow-800 mb-2">
+              {t("results.quality.description")}
+            </p>
+            <ul className="text-xs text-yellow-800 space-y-1">
+              {analysis.quality.issues.map((issue, index) => (
+                <li key={index}>• {issueText(issue)}</li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Total Nutrition Card */}
       <Card className="nutrition-card">
         <CardHeader>
-          <CardTitle>Total Nutrition</CardTitle>
+          <CardTitle>{t("results.total.title")}</CardTitle>
         </CardHeader>
         <CardContent className="space-y-6">
           {/* Calories and Weight Summary */}
           <div className="grid grid-cols-2 gap-4">
             <div className="text-center">
               <div className="text-3xl font-bold text-primary" data-testid="text-total-calories">
-                {totals.calories_kcal}
+                {formatEnergy(totals.calories_kcal)}
               </div>
-              <div className="text-sm text-muted-foreground">Total Calories</div>
+              <div className="text-sm text-muted-foreground">{t("results.total.energy", { unit: energyLabel })}</div>
             </div>
             <div className="text-center">
               <div className="text-3xl font-bold text-secondary" data-testid="text-total-weight">
-                {totals.serving_total_g}
+                {formatMass(totals.serving_total_g)}
               </div>
-              <div className="text-sm text-muted-foreground">Total Weight (g)</div>
+              <div className="text-sm text-muted-foreground">{t("results.total.weight", { unit: massLabel })}</div>
             </div>
           </div>
           
           {/* Macronutrients with Progress Bars */}
           <div className="space-y-3">
-            <h4 className="font-semibold">Macronutrients</h4>
+            <h4 className="font-semibold">{t("results.macros")}</h4>
             <div className="space-y-3">
               <div className="flex items-center justify-between">
-                <span className="text-sm">Protein</span>
+                <span className="text-sm">{t("nutrient.protein")}</span>
                 <div className="flex items-center space-x-3">
                   <Progress 
                     value={calculateMacroPercentage(totals.macros.protein_g, totals.calories_kcal)} 
                     className="w-20 h-2" 
                   />
                   <span className="text-sm font-medium w-12 text-right" data-testid="text-total-protein">
-                    {totals.macros.protein_g}g
+                    {formatAmount(totals.macros.protein_g)}g
                   </span>
                 </div>
               </div>
               <div className="flex items-center justify-between">
-                <span className="text-sm">Carbs</span>
+                <span className="text-sm">{t("nutrient.carbs")}</span>
                 <div className="flex items-center space-x-3">
                   <Progress 
                     value={calculateMacroPercentage(totals.macros.carbs_g, totals.calories_kcal)} 
                     className="w-20 h-2" 
                   />
                   <span className="text-sm font-medium w-12 text-right" data-testid="text-total-carbs">
-                    {totals.macros.carbs_g}g
+                    {formatAmount(totals.macros.carbs_g)}g
                   </span>
                 </div>
               </div>
               <div className="flex items-center justify-between">
-                <span className="text-sm">Fat</span>
+                <span className="text-sm">{t("nutrient.fat")}</span>
                 <div className="flex items-center space-x-3">
                   <Progress 
                     value={calculateMacroPercentage(totals.macros.fat_g, totals.calories_kcal)} 
                     className="w-20 h-2" 
                   />
                   <span className="text-sm font-medium w-12 text-right" data-testid="text-total-fat">
-                    {totals.macros.fat_g}g
+                    {formatAmount(totals.macros.fat_g)}g
                   </span>
                 </div>
               </div>
@@ -95,17 +246,15 @@ export function NutritionTables({ analysis }: NutritionTablesProps) {
 
       {/* Individual Items */}
       <div className="space-y-3">
-        <h3 className="font-semibold">Individual Items</h3>
+        <h3 className="font-semibold">{t("results.items.title")}</h3>
         
         {composition.length === 0 ? (
           <Card className="border-dashed border-muted-foreground/30">
             <CardContent className="pt-6 pb-6 text-center">
               <div className="text-muted-foreground space-y-2">
                 <div className="text-lg">🍽️</div>
-                <div className="font-medium">No food items detected</div>
-                <div className="text-sm">
-                  Try uploading a clearer image with visible food items, or ensure the image contains recognizable foods.
-                </div>
+                <div className="font-medium">{t("results.items.none.title")}</div>
+                <div className="text-sm">{t("results.items.none.description")}</div>
               </div>
             </CardContent>
           </Card>
@@ -123,58 +272,197 @@ export function NutritionTables({ analysis }: NutritionTablesProps) {
                       style={{ backgroundColor: `hsl(${120 + index * 40}, 50%, 50%)` }}
                     />
                     <span className="font-medium" data-testid={`text-item-label-${index}`}>
-                      {item.label}
+                      {foodDisplayName(item, language)}
                     </span>
+                    {item.display_names && (
+                      <span className="text-xs text-muted-foreground" data-testid={`text-item-label-other-${index}`}>
+                        {foodDisplayName(item, otherLanguage)}
+                      </span>
+                    )}
                     <Badge variant={confidenceBadge.variant} className="text-xs">
                       {confidenceBadge.label} ({(item.confidence * 100).toFixed(0)}%)
                     </Badge>
                     {item.confidence < 0.4 && (
                       <AlertTriangle className="w-4 h-4 text-destructive" />
                     )}
+                    {item.agreement?.low && (
+                      <Badge
+                        variant="outline"
+                        className="text-xs border-yellow-300 text-yellow-800"
+                        title={t("results.lowAgreement.title", { models: item.agreement.models.join(', ') })}
+                        data-testid={`badge-item-low-agreement-${index}`}
+                      >
+                        {t("results.lowAgreement")}
+                      </Badge>
+                    )}
+                    {item.serving_calibration && (
+                      <Badge
+                        variant="outline"
+                        className="text-xs"
+                        title={t("results.calibrated.title", {
+                          mass: formatMass(item.serving_calibration.model_serving_g),
+                          unit: massLabel,
+                          factor: formatNumber(item.serving_calibration.factor, { maximumFractionDigits: 2 }),
+                          area: item.serving_calibration.footprint_cm2,
+                        })}
+                        data-testid={`badge-item-calibrated-${index}`}
+                      >
+                        {t("results.calibrated")}
+                      </Badge>
+                    )}
+                    {item.nutrition_source?.type === 'reference' && (
+                      <Badge
+                        variant="outline"
+                        className="text-xs"
+                        title={t("results.source.reference.title", { database: item.nutrition_source.database ?? "" })}
+                        data-testid={`badge-item-source-${index}`}
+                      >
+                        {item.nutrition_source.database}
+                      </Badge>
+                    )}
+                    {item.nutrition_source?.type === 'label' && (
+                      <Badge
+                        variant="outline"
+                        className="text-xs"
+                        title={t("results.source.label.title")}
+                        data-testid={`badge-item-source-${index}`}
+                      >
+                        {t("results.source.label")}
+                      </Badge>
+                    )}
+                    {item.nutrition_source?.type === 'recipe' && (
+                      <Badge
+                        variant="outline"
+                        className="text-xs"
+                        title={t("results.source.recipe.title")}
+                        data-testid={`badge-item-source-${index}`}
+                      >
+                        {item.nutrition_source.recipe_name ?? t("results.source.recipe")}
+                      </Badge>
+                    )}
                   </div>
                   <div className="text-right">
                     <div className="text-sm font-medium" data-testid={`text-item-calories-${index}`}>
-                      {item.nutrition.calories_kcal} kcal
+                      {formatEnergy(item.nutrition.calories_kcal)} {energyLabel}
                     </div>
                     <div className="text-xs text-muted-foreground" data-testid={`text-item-weight-${index}`}>
-                      {item.serving_est_g}g
+                      {formatMass(item.serving_est_g)} {massLabel}
                     </div>
                   </div>
                 </div>
-                
+
+                {/* Home recipe: nutrition density from the recipe, amount from the photo */}
+                {onAttachRecipe && recipes.length > 0 && !item.label_panel && (
+                  <div className="flex items-center justify-end space-x-2 mb-3 text-xs">
+                    <span className="text-muted-foreground">{t("results.recipe.label")}</span>
+                    <Select
+                      value={item.nutrition_source?.type === 'recipe' ? item.nutrition_source.recipe_id : undefined}
+                      onValueChange={(recipeId) => {
+                        const recipe = recipes.find(candidate => candidate.id === recipeId);
+                        if (recipe) onAttachRecipe(index, recipe);
+                      }}
+                    >
+                      <SelectTrigger className="w-44 h-8 text-xs" data-testid={`select-item-recipe-${index}`}>
+                        <SelectValue placeholder={t("results.recipe.placeholder")} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {recipes.map(recipe => (
+                          <SelectItem key={recipe.id} value={recipe.id}>
+                            {recipe.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {/* Scanned label: printed values are per serving */}
+                {item.label_panel && (
+                  <div className="flex items-center justify-between gap-2 mb-3 text-xs" data-testid={`label-servings-${index}`}>
+                    <span className="text-muted-foreground">
+                      {t("results.serving.size", {
+                        mass: formatMass(item.label_panel.serving_size_g),
+                        massUnit: massLabel,
+                        energy: formatEnergy(item.label_panel.per_serving.calories_kcal),
+                        energyUnit: energyLabel,
+                      })}
+                      {item.label_panel.servings_per_package
+                        ? ` ${t("results.serving.perPackage", { count: item.label_panel.servings_per_package })}`
+                        : ''}
+                    </span>
+                    {onServingsChange ? (
+                      <label className="flex items-center space-x-2 whitespace-nowrap">
+                        <span>{t("results.serving.eatenLabel")}</span>
+                        <Input
+                          type="number"
+                          min={0.25}
+                          step={0.25}
+                          defaultValue={item.label_panel.servings_eaten}
+                          onChange={(e) => {
+                            const servings = Number(e.target.value);
+                            if (Number.isFinite(servings) && servings > 0) onServingsChange(index, servings);
+                          }}
+                          className="w-20 h-8"
+                          data-testid={`input-servings-eaten-${index}`}
+                        />
+                      </label>
+                    ) : (
+                      <span className="whitespace-nowrap">{t("results.serving.eaten", { count: item.label_panel.servings_eaten })}</span>
+                    )}
+                  </div>
+                )}
+
                 <div className="grid grid-cols-3 gap-2 text-xs">
                   <div className="text-center">
                     <div className="font-medium" data-testid={`text-item-protein-${index}`}>
-                      {item.nutrition.macros.protein_g}g
+                      {formatAmount(item.nutrition.macros.protein_g)}g
                     </div>
-                    <div className="text-muted-foreground">Protein</div>
+                    <div className="text-muted-foreground">{t("nutrient.protein")}</div>
                   </div>
                   <div className="text-center">
                     <div className="font-medium" data-testid={`text-item-carbs-${index}`}>
-                      {item.nutrition.macros.carbs_g}g
+                      {formatAmount(item.nutrition.macros.carbs_g)}g
                     </div>
-                    <div className="text-muted-foreground">Carbs</div>
+                    <div className="text-muted-foreground">{t("nutrient.carbs")}</div>
                   </div>
                   <div className="text-center">
                     <div className="font-medium" data-testid={`text-item-fat-${index}`}>
-                      {item.nutrition.macros.fat_g}g
+                      {formatAmount(item.nutrition.macros.fat_g)}g
                     </div>
-                    <div className="text-muted-foreground">Fat</div>
+                    <div className="text-muted-foreground">{t("nutrient.fat")}</div>
                   </div>
                 </div>
 
+                {/* Dietary flags for this item (vegan implies vegetarian) */}
+                {item.dietary && DIETARY_FLAGS.some(flag => item.dietary?.[flag]?.value) && (
+                  <div className="mt-3 flex flex-wrap gap-1" data-testid={`dietary-flags-${index}`}>
+                    {DIETARY_FLAGS
+                      .filter(flag => item.dietary?.[flag]?.value && !(flag === 'vegetarian' && item.dietary?.vegan?.value))
+                      .map(flag => (
+                        <Badge
+                          key={flag}
+                          variant="outline"
+                          className={flag === 'vegetarian' || flag === 'vegan'
+                            ? "text-xs bg-green-50 text-green-700 border-green-200"
+                            : "text-xs bg-orange-50 text-orange-700 border-orange-200"}
+                          title={t("results.flagSource.title", { source: t(`results.flagSource.${item.dietary![flag]!.source}`) })}
+                        >
+                          {t(`dietaryFlag.${flag}`)}
+                        </Badge>
+                      ))}
+                  </div>
+                )}
+
                 {/* Allergens for this item */}
                 {item.nutrition.allergens.length > 0 && (
                   <div className="mt-3 pt-3 border-t">
                     <div className="flex flex-wrap gap-1">
-                      {item.nutrition.allergens.map((allergen, allergenIndex) => (
-                        <Badge 
-                          key={allergenIndex} 
-                          variant="outline" 
+                      {allergenDetails(item.nutrition.allergens, item.allergen_details).map(detection => (
+                        <AllergenBadge
+                          key={detection.code}
+                          detection={detection}
                           className="text-xs bg-red-50 text-red-700 border-red-200"
-                        >
-                          {allergen}
-                        </Badge>
+                        />
                       ))}
                     </div>
                   </div>
@@ -186,21 +474,20 @@ export function NutritionTables({ analysis }: NutritionTablesProps) {
       </div>
 
       {/* Allergens Warning */}
-      {totals.allergens.length > 0 && (
+      {mealAllergens.length > 0 && (
         <Card className="bg-red-50 border-red-200">
           <CardContent className="pt-6">
             <div className="flex items-center space-x-2 mb-2">
               <AlertTriangle className="w-5 h-5 text-red-600" />
-              <h4 className="font-medium text-red-900">Allergen Information</h4>
+              <h4 className="font-medium text-red-900">{t("results.allergens.title")}</h4>
             </div>
             <div className="flex flex-wrap gap-2" data-testid="allergens-list">
-              {totals.allergens.map((allergen, index) => (
-                <Badge 
-                  key={index} 
+              {mealAllergens.map(detection => (
+                <AllergenBadge
+                  key={detection.code}
+                  detection={detection}
                   className="bg-red-100 text-red-800 border-red-300"
-                >
-                  {allergen}
-                </Badge>
+                />
               ))}
             </div>
           </CardContent>
@@ -210,58 +497,37 @@ export function NutritionTables({ analysis }: NutritionTablesProps) {
       {/* Detailed Micronutrients */}
       <Card>
         <CardHeader>
-          <CardTitle>Detailed Micronutrients</CardTitle>
+          <CardTitle>{t("results.micros.title")}</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-            <div className="text-center p-3 bg-muted rounded-lg">
-              <div className="text-lg font-bold" data-testid="text-sodium">
-                {totals.micros.sodium_mg}
-              </div>
-              <div className="text-sm text-muted-foreground">Sodium (mg)</div>
-            </div>
-            <div className="text-center p-3 bg-muted rounded-lg">
-              <div className="text-lg font-bold" data-testid="text-potassium">
-                {totals.micros.potassium_mg}
-              </div>
-              <div className="text-sm text-muted-foreground">Potassium (mg)</div>
-            </div>
-            <div className="text-center p-3 bg-muted rounded-lg">
-              <div className="text-lg font-bold" data-testid="text-calcium">
-                {totals.micros.calcium_mg}
-              </div>
-              <div className="text-sm text-muted-foreground">Calcium (mg)</div>
-            </div>
-            <div className="text-center p-3 bg-muted rounded-lg">
-              <div className="text-lg font-bold" data-testid="text-iron">
-                {totals.micros.iron_mg}
-              </div>
-              <div className="text-sm text-muted-foreground">Iron (mg)</div>
-            </div>
-            <div className="text-center p-3 bg-muted rounded-lg">
-              <div className="text-lg font-bold" data-testid="text-vitamin-a">
-                {totals.micros.vitamin_a_mcg}
-              </div>
-              <div className="text-sm text-muted-foreground">Vitamin A (mcg)</div>
-            </div>
-            <div className="text-center p-3 bg-muted rounded-lg">
-              <div className="text-lg font-bold" data-testid="text-vitamin-c">
-                {totals.micros.vitamin_c_mg}
-              </div>
-              <div className="text-sm text-muted-foreground">Vitamin C (mg)</div>
-            </div>
-            <div className="text-center p-3 bg-muted rounded-lg">
-              <div className="text-lg font-bold" data-testid="text-cholesterol">
-                {totals.micros.cholesterol_mg}
-              </div>
-              <div className="text-sm text-muted-foreground">Cholesterol (mg)</div>
-            </div>
-            <div className="text-center p-3 bg-muted rounded-lg">
-              <div className="text-lg font-bold" data-testid="text-fiber">
-                {totals.macros.fiber_g}
+            {MICRONUTRIENTS.map(nutrient => (
+              <div key={nutrient.testId} className="text-center p-3 bg-muted rounded-lg">
+                <div className="text-lg font-bold" data-testid={`text-${nutrient.testId}`}>
+                  {formatAmount(nutrient.value(totals))}
+                </div>
+                <div className="text-sm text-muted-foreground">{t(nutrient.label)} ({nutrient.unit})</div>
               </div>
-              <div className="text-sm text-muted-foreground">Fiber (g)</div>
-            </div>
+            ))}
+          </div>
+
+          <h4 className="font-semibold mt-6 mb-3">{t("results.extended.title")}</h4>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {EXTENDED_NUTRIENTS.map(nutrient => {
+              const value = nutrient.value(totals);
+              return (
+                <div key={nutrient.testId} className="text-center p-3 bg-muted rounded-lg">
+                  <div
+                    className={value === undefined ? "text-lg font-medium text-muted-foreground" : "text-lg font-bold"}
+                    title={value === undefined ? t("results.extended.unknown.title") : undefined}
+                    data-testid={`text-${nutrient.testId}`}
+                  >
+                    {value === undefined ? t("results.extended.unknown") : formatAmount(value)}
+                  </div>
+                  <div className="text-sm text-muted-foreground">{t(nutrient.label)} ({nutrient.unit})</div>
+                </div>
+              );
+            })}
           </div>
         </CardContent>
       </Card>
@@ -270,7 +536,7 @@ export function NutritionTables({ analysis }: NutritionTablesProps) {
       {analysis.notes && (
         <Card className="bg-blue-50 border-blue-200">
           <CardContent className="pt-6">
-            <h4 className="font-medium text-blue-900 mb-2">Analysis Notes</h4>
+            <h4 className="font-medium text-blue-900 mb-2">{t("results.notes")}</h4>
             <p className="text-blue-800 text-sm">{analysis.notes}</p>
           </CardContent>
         </Card>
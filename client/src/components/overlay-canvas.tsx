@@ -1,6 +1,8 @@
 import { useEffect, useRef } from "react";
 import type { FoodItem, ImageMeta } from "@shared/schema";
 import { calculateDrawInfo, bboxToPixels, getConfidenceColor } from "@/lib/image";
+import { foodDisplayName } from "@shared/food-labels";
+import { useI18n } from "@/hooks/use-i18n";
 
 interface OverlayCanvasProps {
   imageUrl: string;
@@ -10,6 +12,7 @@ interface OverlayCanvasProps {
 }
 
 export function OverlayCanvas({ imageUrl, foodItems, imageMeta, className }: OverlayCanvasProps) {
+  const { t, language } = useI18n();
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
 
@@ -61,7 +64,7 @@ export function OverlayCanvas({ imageUrl, foodItems, imageMeta, className }: Ove
         ctx.fillRect(bbox.x, bbox.y, bbox.w, bbox.h);
 
         // Draw label background
-        const labelText = `${item.label} (${(item.confidence * 100).toFixed(0)}%)`;
+        const labelText = `${foodDisplayName(item, language)} (${(item.confidence * 100).toFixed(0)}%)`;
         const labelPadding = 8;
         const labelHeight = 24;
         
@@ -107,14 +110,14 @@ export function OverlayCanvas({ imageUrl, foodItems, imageMeta, className }: Ove
     return () => {
       resizeObserver.disconnect();
     };
-  }, [imageUrl, foodItems, imageMeta]);
+  }, [imageUrl, foodItems, imageMeta, language]);
 
   return (
     <div className={`relative ${className}`}>
       <img
         ref={imageRef}
         src={imageUrl}
-        alt="Food analysis"
+        alt={t("results.overlayAlt")}
         className="hidden"
         crossOrigin="anonymous"
       />
@@ -0,0 +1,95 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, Download, Trash2 } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { clearQuarantine, getQuarantine, type QuarantinedRecord } from "@/lib/localStore";
+import { useI18n } from "@/hooks/use-i18n";
+import type { MessageKey, TranslateParams } from "@/lib/i18n";
+
+function downloadRecords(records: QuarantinedRecord[], filename: string = 'quarantined-records.json') {
+  const jsonContent = JSON.stringify(records, null, 2);
+  const blob = new Blob([jsonContent], { type: 'application/json;charset=utf-8;' });
+  const link = document.createElement('a');
+
+  if (link.download !== undefined) {
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', filename);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  }
+}
+
+function recordLabel(
+  record: QuarantinedRecord,
+  t: (key: MessageKey, params?: TranslateParams) => string,
+  formatDate: (date: string) => string,
+): string {
+  const stored = record.record as { name?: unknown; consumedAt?: unknown } | null;
+  if (record.key === 'nutrition:goals') return t("quarantine.goals");
+  if (stored && typeof stored === 'object') {
+    if (typeof stored.name === 'string' && stored.name) return stored.name;
+    if (typeof stored.consumedAt === 'string' && !isNaN(Date.parse(stored.consumedAt))) {
+      return t("quarantine.mealOf", { date: formatDate(stored.consumedAt) });
+    }
+  }
+  return record.key === 'nutrition:meals' && typeof record.record === 'string' ? t("quarantine.mealHistory") : t("quarantine.meal");
+}
+
+// Saved records the startup migration could not upgrade. They are kept out of the history so
+// it still loads; the user can download them before discarding.
+export function QuarantinedRecords() {
+  const queryClient = useQueryClient();
+  const { t, formatDate } = useI18n();
+  const { data: records = [] } = useQuery({ queryKey: ['quarantine'], queryFn: async () => getQuarantine() });
+
+  const discardMutation = useMutation({
+    mutationFn: async () => clearQuarantine(),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['quarantine'] }),
+  });
+
+  if (records.length === 0) return null;
+
+  return (
+    <Card className="border-amber-300 bg-amber-50" data-testid="card-quarantined-records">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-amber-900">
+          <AlertTriangle className="h-5 w-5 text-amber-600" />
+          <span>{t("quarantine.title", { count: records.length })}</span>
+        </CardTitle>
+        <CardDescription className="text-amber-800">
+          {t("quarantine.description")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <ul className="space-y-1 text-sm">
+          {records.map((record, index) => (
+            <li key={index} className="text-amber-900">
+              <span className="font-medium">{recordLabel(record, t, formatDate)}</span>
+              <span className="text-amber-700"> — {record.error}</span>
+            </li>
+          ))}
+        </ul>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => downloadRecords(records)} data-testid="button-download-quarantine">
+            <Download className="h-4 w-4 mr-2" />
+            {t("common.download")}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => discardMutation.mutate()}
+            disabled={discardMutation.isPending}
+            className="text-destructive hover:text-destructive hover:bg-destructive/10"
+            data-testid="button-discard-quarantine"
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            {t("common.discard")}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
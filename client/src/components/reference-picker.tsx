@@ -0,0 +1,39 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { REFERENCE_OBJECTS } from "@shared/reference-objects";
+import type { ReferenceObjectId } from "@shared/schema";
+import { useI18n } from "@/hooks/use-i18n";
+
+interface ReferencePickerProps {
+  value: ReferenceObjectId | null;
+  onChange: (value: ReferenceObjectId | null) => void;
+  disabled?: boolean;
+}
+
+const NO_REFERENCE = "none";
+
+// Declares a known-size object in the photo so portions can be calibrated.
+export function ReferencePicker({ value, onChange, disabled }: ReferencePickerProps) {
+  const { t, language } = useI18n();
+  return (
+    <div className="flex items-center space-x-2">
+      <label className="text-sm text-muted-foreground whitespace-nowrap">{t("reference.label")}</label>
+      <Select
+        value={value ?? NO_REFERENCE}
+        onValueChange={(next) => onChange(next === NO_REFERENCE ? null : (next as ReferenceObjectId))}
+        disabled={disabled}
+      >
+        <SelectTrigger className="w-52" data-testid="select-reference-object">
+          <SelectValue placeholder={t("reference.none")} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_REFERENCE}>{t("reference.none")}</SelectItem>
+          {REFERENCE_OBJECTS.map(object => (
+            <SelectItem key={object.id} value={object.id}>
+              {object.names[language]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
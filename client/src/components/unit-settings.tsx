@@ -0,0 +1,89 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Ruler } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { EnergyUnit, MassUnit, UnitPreferences } from "@shared/schema";
+import { setUnitPreferences } from "@/lib/localStore";
+import { useI18n } from "@/hooks/use-i18n";
+import { useUnits } from "@/hooks/use-units";
+
+const ENERGY_UNITS: EnergyUnit[] = ["kcal", "kJ"];
+const MASS_UNITS: MassUnit[] = ["g", "oz"];
+const DECIMALS = [0, 1, 2];
+
+// Display units, saved on every change. Stored meals and goals stay in kcal and grams.
+export function UnitSettings() {
+  const queryClient = useQueryClient();
+  const { t } = useI18n();
+  const { units } = useUnits();
+
+  const saveMutation = useMutation({
+    mutationFn: async (next: UnitPreferences) => setUnitPreferences(next),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['units'] }),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Ruler className="h-5 w-5 text-blue-600" />
+          <span>{t("units.title")}</span>
+        </CardTitle>
+        <CardDescription>
+          {t("units.description")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-1">
+          <Label>{t("units.energy")}</Label>
+          <Select
+            value={units.energy}
+            onValueChange={value => saveMutation.mutate({ ...units, energy: value as EnergyUnit })}
+          >
+            <SelectTrigger data-testid="select-energy-unit">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ENERGY_UNITS.map(unit => (
+                <SelectItem key={unit} value={unit}>{t(`units.energy.${unit}`)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>{t("units.mass")}</Label>
+          <Select
+            value={units.mass}
+            onValueChange={value => saveMutation.mutate({ ...units, mass: value as MassUnit })}
+          >
+            <SelectTrigger data-testid="select-mass-unit">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MASS_UNITS.map(unit => (
+                <SelectItem key={unit} value={unit}>{t(`units.mass.${unit}`)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>{t("units.decimals")}</Label>
+          <Select
+            value={String(units.decimals)}
+            onValueChange={value => saveMutation.mutate({ ...units, decimals: Number(value) })}
+          >
+            <SelectTrigger data-testid="select-decimals">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DECIMALS.map(decimals => (
+                <SelectItem key={decimals} value={String(decimals)}>{decimals}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
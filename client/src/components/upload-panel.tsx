@@ -1,50 +1,139 @@
 import { useState, useRef, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Upload, Image as ImageIcon } from "lucide-react";
-import { resizeImageIfNeeded } from "@/lib/image";
+import { Upload, Image as ImageIcon, Crosshair } from "lucide-react";
+import { calculateDrawInfo, resizeImageIfNeeded } from "@/lib/image";
+import { readExifOrientation, type ExifOrientation } from "@/lib/exif";
+import { getReferenceObject } from "@shared/reference-objects";
+import type { BoundingBox, ReferenceObjectId } from "@shared/schema";
+import { useI18n } from "@/hooks/use-i18n";
 
 interface UploadPanelProps {
   onUpload: (dataURL: string) => void;
   isAnalyzing: boolean;
+  // When a size reference is declared, the user may mark it on the preview
+  referenceObject?: ReferenceObjectId | null;
+  referenceBox?: BoundingBox;
+  onReferenceBoxChange?: (box: BoundingBox | undefined) => void;
 }
 
-export function UploadPanel({ onUpload, isAnalyzing }: UploadPanelProps) {
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export function UploadPanel({
+  onUpload,
+  isAnalyzing,
+  referenceObject,
+  referenceBox,
+  onReferenceBoxChange,
+}: UploadPanelProps) {
+  const { t, language } = useI18n();
   const [previewImage, setPreviewImage] = useState<string>("");
   const [dragOver, setDragOver] = useState(false);
+  const [isMarking, setIsMarking] = useState(false);
+  const [draftBox, setDraftBox] = useState<BoundingBox | undefined>();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const previewRef = useRef<HTMLImageElement>(null);
+  const markStart = useRef<{ x: number; y: number } | null>(null);
+
+  // Pointer position in normalized image coordinates (the preview is letterboxed by object-contain)
+  const toImagePoint = (e: React.PointerEvent) => {
+    const img = previewRef.current!;
+    const rect = img.getBoundingClientRect();
+    const info = calculateDrawInfo(img.naturalWidth, img.naturalHeight, rect.width, rect.height);
+    return {
+      x: clamp01((e.clientX - rect.left - info.offsetX) / info.drawW),
+      y: clamp01((e.clientY - rect.top - info.offsetY) / info.drawH),
+    };
+  };
+
+  const boxFrom = (a: { x: number; y: number }, b: { x: number; y: number }): BoundingBox => ({
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    w: Math.abs(a.x - b.x),
+    h: Math.abs(a.y - b.y),
+  });
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!isMarking) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    markStart.current = toImagePoint(e);
+    setDraftBox(undefined);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!markStart.current) return;
+    setDraftBox(boxFrom(markStart.current, toImagePoint(e)));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!markStart.current) return;
+    const box = boxFrom(markStart.current, toImagePoint(e));
+    markStart.current = null;
+    setDraftBox(undefined);
+    // Ignore accidental clicks
+    if (box.w > 0.01 && box.h > 0.01) {
+      onReferenceBoxChange?.(box);
+      setIsMarking(false);
+    }
+  };
+
+  // Overlay position in pixels of the preview element
+  const boxStyle = (box: BoundingBox): React.CSSProperties | undefined => {
+    const img = previewRef.current;
+    if (!img || !img.naturalWidth) return undefined;
+    const info = calculateDrawInfo(img.naturalWidth, img.naturalHeight, img.clientWidth, img.clientHeight);
+    return {
+      left: info.offsetX + box.x * info.drawW,
+      top: info.offsetY + box.y * info.drawH,
+      width: box.w * info.drawW,
+      height: box.h * info.drawH,
+    };
+  };
+
+  const shownBox = draftBox ?? referenceBox;
 
   const handleFile = useCallback(async (file: File) => {
     if (!file.type.startsWith('image/')) {
-      alert('Please select an image file');
+      alert(t("upload.error.notImage"));
       return;
     }
 
     // Allow larger files initially, compress first then check
     if (file.size > 10 * 1024 * 1024) {
-      alert('File size must be less than 10MB');
+      alert(t("upload.error.fileSize"));
       return;
     }
 
+    // Phones store portrait shots sideways with an EXIF rotation tag; read it from the file
+    // header so the resize below can draw the photo upright.
+    let orientation: ExifOrientation = 1;
+    try {
+      orientation = readExifOrientation(await file.slice(0, 64 * 1024).arrayBuffer());
+    } catch {
+      // Unreadable header: treat as upright
+    }
+
     const reader = new FileReader();
     reader.onload = async (e) => {
       if (e.target?.result) {
         let dataURL = e.target.result as string;
         
         // Resize and compress aggressively to avoid 413 errors
-        dataURL = await resizeImageIfNeeded(dataURL, 800);
+        dataURL = await resizeImageIfNeeded(dataURL, 800, orientation);
         
         // Check compressed size - aim for 512KB to provide headroom
         if (dataURL.length > 512 * 1024) {
-          alert('Image is too large after compression. Please try a smaller image or different format.');
+          alert(t("upload.error.tooLarge"));
           return;
         }
         
         setPreviewImage(dataURL);
+        // A mark on the previous photo means nothing on this one
+        onReferenceBoxChange?.(undefined);
       }
     };
     reader.readAsDataURL(file);
-  }, []);
+  }, [onReferenceBoxChange, t]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -79,10 +168,10 @@ export function UploadPanel({ onUpload, isAnalyzing }: UploadPanelProps) {
         <CardHeader>
           <CardTitle className="flex items-center space-x-2">
             <Upload className="w-5 h-5" />
-            <span>Upload Analysis</span>
+            <span>{t("upload.title")}</span>
           </CardTitle>
           <p className="text-sm text-muted-foreground">
-            Upload a clear image of food items for detailed analysis
+            {t("upload.subtitle")}
           </p>
         </CardHeader>
         
@@ -102,18 +191,18 @@ export function UploadPanel({ onUpload, isAnalyzing }: UploadPanelProps) {
           >
             <Upload className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
             <h3 className="text-lg font-medium text-foreground mb-2">
-              Drop your food image here
+              {t("upload.drop")}
             </h3>
-            <p className="text-muted-foreground mb-4">or click to browse files</p>
+            <p className="text-muted-foreground mb-4">{t("upload.browse")}</p>
             <Button 
               type="button" 
               className="bg-primary hover:bg-primary/90 text-primary-foreground"
               data-testid="button-choose-file"
             >
-              Choose File
+              {t("upload.chooseFile")}
             </Button>
             <p className="text-xs text-muted-foreground mt-3">
-              Supports JPG, PNG, WebP up to 10MB (auto-compressed)
+              {t("upload.formats")}
             </p>
           </div>
 
@@ -133,7 +222,7 @@ export function UploadPanel({ onUpload, isAnalyzing }: UploadPanelProps) {
             className="w-full bg-secondary hover:bg-secondary/90 text-secondary-foreground"
             data-testid="button-analyze-upload"
           >
-            {isAnalyzing ? "Analyzing..." : "Analyze Uploaded Image"}
+            {isAnalyzing ? t("common.analyzing") : t("upload.analyze")}
           </Button>
         </CardContent>
       </Card>
@@ -141,19 +230,53 @@ export function UploadPanel({ onUpload, isAnalyzing }: UploadPanelProps) {
       {/* Image Preview */}
       <Card>
         <CardContent className="pt-6">
-          <h3 className="text-lg font-semibold mb-3">Image Preview</h3>
-          <div className="aspect-square bg-muted rounded-lg flex items-center justify-center overflow-hidden">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-lg font-semibold">{t("upload.preview")}</h3>
+            {previewImage && referenceObject && onReferenceBoxChange && (
+              <Button
+                variant={isMarking ? "default" : "outline"}
+                size="sm"
+                onClick={() => setIsMarking(!isMarking)}
+                disabled={isAnalyzing}
+                data-testid="button-mark-reference"
+              >
+                <Crosshair className="w-4 h-4 mr-2" />
+                {isMarking
+                  ? t("upload.reference.marking")
+                  : referenceBox ? t("upload.reference.remark") : t("upload.reference.mark")}
+              </Button>
+            )}
+          </div>
+          <div className="relative aspect-square bg-muted rounded-lg flex items-center justify-center overflow-hidden">
             {previewImage ? (
-              <img 
-                src={previewImage} 
-                alt="Upload preview" 
-                className="w-full h-full object-contain"
-                data-testid="img-preview"
-              />
+              <>
+                <img 
+                  ref={previewRef}
+                  src={previewImage} 
+                  alt={t("upload.previewAlt")} 
+                  className={`w-full h-full object-contain select-none ${isMarking ? 'cursor-crosshair touch-none' : ''}`}
+                  draggable={false}
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  data-testid="img-preview"
+                />
+                {referenceObject && shownBox && (
+                  <div
+                    className="absolute border-2 border-dashed border-yellow-400 bg-yellow-400/10 pointer-events-none"
+                    style={boxStyle(shownBox)}
+                    data-testid="box-reference"
+                  >
+                    <span className="absolute -top-6 left-0 text-xs bg-yellow-400 text-black px-1 rounded whitespace-nowrap">
+                      {getReferenceObject(referenceObject).names[language]}
+                    </span>
+                  </div>
+                )}
+              </>
             ) : (
               <div className="text-center">
                 <ImageIcon className="w-16 h-16 text-muted-foreground mx-auto mb-2" />
-                <p className="text-muted-foreground">No image selected</p>
+                <p className="text-muted-foreground">{t("upload.noImage")}</p>
               </div>
             )}
           </div>
@@ -163,12 +286,12 @@ export function UploadPanel({ onUpload, isAnalyzing }: UploadPanelProps) {
       {/* Upload Tips */}
       <Card className="bg-green-50 border-green-200">
         <CardContent className="pt-6">
-          <h4 className="font-medium text-green-900 mb-2">Upload Tips</h4>
+          <h4 className="font-medium text-green-900 mb-2">{t("upload.tips.title")}</h4>
           <ul className="text-sm text-green-800 space-y-1">
-            <li>• Use high-resolution images for better accuracy</li>
-            <li>• Ensure all food items are visible</li>
-            <li>• Avoid cluttered backgrounds</li>
-            <li>• Good lighting improves detection</li>
+            <li>• {t("upload.tips.1")}</li>
+            <li>• {t("upload.tips.2")}</li>
+            <li>• {t("upload.tips.3")}</li>
+            <li>• {t("upload.tips.4")}</li>
           </ul>
         </CardContent>
       </Card>
@@ -0,0 +1,23 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { getActiveChildProfile, getChildProfiles, setActiveChildProfile } from "@/lib/localStore";
+
+// Child profiles and the selected child. Meals, goals and allergies in localStore are read for
+// the selected child, so switching refetches every query.
+export function useChildProfiles() {
+  const queryClient = useQueryClient();
+  const { data: profiles = [] } = useQuery({
+    queryKey: ['childProfiles'],
+    queryFn: async () => getChildProfiles(),
+  });
+  const { data: activeProfile = null } = useQuery({
+    queryKey: ['activeChild'],
+    queryFn: async () => getActiveChildProfile(),
+  });
+
+  const selectProfile = (childId: string) => {
+    setActiveChildProfile(childId);
+    queryClient.invalidateQueries();
+  };
+
+  return { profiles, activeProfile, selectProfile };
+}
@@ -0,0 +1,52 @@
+import { createContext, useContext, useEffect, useMemo, useState, type ReactNode } from "react";
+import type { Language } from "@shared/schema";
+import {
+  detectLanguage,
+  formatDate,
+  formatNumber,
+  translate,
+  type MessageKey,
+  type TranslateParams,
+} from "@/lib/i18n";
+import { getLanguage, setLanguage as saveLanguage } from "@/lib/localStore";
+
+interface I18nContextValue {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  t: (key: MessageKey, params?: TranslateParams) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (date: Date | string, pattern?: string) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export function I18nProvider({ children }: { children: ReactNode }) {
+  const [language, setLanguageState] = useState<Language>(() => getLanguage() ?? detectLanguage());
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    language,
+    setLanguage: (next) => {
+      try {
+        saveLanguage(next);
+      } catch {
+        // Not persisted; the switch still applies for this session
+      }
+      setLanguageState(next);
+    },
+    t: (key, params) => translate(language, key, params),
+    formatNumber: (number, options) => formatNumber(number, language, options),
+    formatDate: (date, pattern) => formatDate(date, language, pattern),
+  }), [language]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18nContextValue {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error("useI18n must be used inside I18nProvider");
+  return context;
+}
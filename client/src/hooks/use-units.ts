@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_UNIT_PREFERENCES, toEnergyUnit, toMassUnit } from "@shared/units";
+import { getUnitPreferences } from "@/lib/localStore";
+import { useI18n } from "@/hooks/use-i18n";
+
+// The user's display units with formatters for canonical values (kcal, grams). Formatters
+// return the number only; pair them with energyLabel / massLabel.
+export function useUnits() {
+  const { t, formatNumber } = useI18n();
+  const { data: units = DEFAULT_UNIT_PREFERENCES } = useQuery({
+    queryKey: ['units'],
+    queryFn: async () => getUnitPreferences(),
+  });
+
+  const formatAmount = (value: number) =>
+    formatNumber(value, { maximumFractionDigits: units.decimals });
+
+  return {
+    units,
+    energyLabel: units.energy === 'kcal' ? t("common.kcal") : "kJ",
+    massLabel: units.mass,
+    formatAmount,
+    formatEnergy: (kcal: number) => formatAmount(toEnergyUnit(kcal, units.energy)),
+    formatMass: (grams: number) => formatAmount(toMassUnit(grams, units.mass)),
+  };
+}
@@ -0,0 +1,130 @@
+// Runs an analysis as a background job and follows its progress over Server-Sent Events.
+// Falls back to the synchronous endpoints where jobs are unavailable (the Vercel deployment).
+// Text descriptions are quick and always use the synchronous endpoint.
+import type {
+  AnalysisJobEvent,
+  AnalysisMode,
+  AnalysisSource,
+  NutritionAnalysis,
+  ScaleReference,
+} from "@shared/schema";
+
+export class AnalysisCancelledError extends Error {
+  constructor(message = "Analysis cancelled") {
+    super(message);
+    this.name = "AnalysisCancelledError";
+  }
+}
+
+export interface AnalysisJobOptions {
+  mode?: AnalysisMode;
+  reference?: ScaleReference;
+  signal?: AbortSignal;
+  onEvent?: (event: AnalysisJobEvent) => void;
+}
+
+const SYNC_ENDPOINTS: Record<AnalysisSource, string> = {
+  image: "/api/analyze-image",
+  camera: "/api/analyze-camera",
+};
+
+async function postJSON(url: string, data: unknown, signal?: AbortSignal): Promise<Response> {
+  try {
+    return await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+      credentials: "include",
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw new AnalysisCancelledError();
+    throw error;
+  }
+}
+
+async function throwIfResNotOk(res: Response) {
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+}
+
+export async function runAnalysisJob(
+  dataURL: string,
+  source: AnalysisSource,
+  { mode, reference, signal, onEvent }: AnalysisJobOptions = {},
+): Promise<NutritionAnalysis> {
+  // The server only sees the job once the image has arrived, so the upload stage is reported here
+  onEvent?.({ stage: "uploading", message: "Uploading image", at: new Date().toISOString() });
+  const response = await postJSON("/api/analysis-jobs", { dataURL, source, mode, reference }, signal);
+
+  if (response.status === 404) {
+    const fallback = await postJSON(SYNC_ENDPOINTS[source], { dataURL, mode, reference }, signal);
+    await throwIfResNotOk(fallback);
+    return fallback.json();
+  }
+  await throwIfResNotOk(response);
+
+  const { id, events_url } = await response.json() as { id: string; events_url: string };
+
+  return new Promise<NutritionAnalysis>((resolve, reject) => {
+    const events = new EventSource(events_url);
+
+    const settle = () => {
+      events.close();
+      signal?.removeEventListener("abort", onAbort);
+    };
+
+    function onAbort() {
+      settle();
+      // Tell the server to stop the model call; the job may already be done, so ignore failures.
+      fetch(`/api/analysis-jobs/${id}`, { method: "DELETE", credentials: "include" }).catch(() => {});
+      reject(new AnalysisCancelledError());
+    }
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener("abort", onAbort);
+
+    events.onmessage = (message) => {
+      const event = JSON.parse(message.data) as AnalysisJobEvent;
+      onEvent?.(event);
+
+      if (event.stage === "done" && event.result) {
+        settle();
+        resolve(event.result);
+      } else if (event.stage === "failed") {
+        settle();
+        reject(new Error(event.message));
+      } else if (event.stage === "cancelled") {
+        settle();
+        reject(new AnalysisCancelledError(event.message));
+      }
+    };
+
+    // EventSource reconnects on its own (the server replays past events); give up only once it stops.
+    events.onerror = () => {
+      if (events.readyState === EventSource.CLOSED) {
+        settle();
+        reject(new Error("Lost connection to the analysis job"));
+      }
+    };
+  });
+}
+
+export async function runTextAnalysis(
+  description: string,
+  { signal }: Pick<AnalysisJobOptions, "signal"> = {},
+): Promise<NutritionAnalysis> {
+  const response = await postJSON("/api/analyze-text", { description }, signal);
+  await throwIfResNotOk(response);
+  try {
+    return await response.json();
+  } catch (error) {
+    if (signal?.aborted) throw new AnalysisCancelledError();
+    throw error;
+  }
+}
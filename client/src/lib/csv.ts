@@ -1,11 +1,40 @@
-import type { NutritionAnalysis } from "@shared/schema";
+import type { AllergenDetection, Nutrition, NutritionAnalysis, UnitPreferences } from "@shared/schema";
+import { allergenDetails, standardizeAnalysisAllergens } from "@shared/allergens";
+import { roundTo } from "@shared/nutrition";
+import { DEFAULT_UNIT_PREFERENCES, toEnergyUnit, toMassUnit } from "@shared/units";
+
+// Canonical allergen codes, split into definite ingredients and "may contain" warnings
+function allergenColumns(allergens: string[], details?: AllergenDetection[]): [string, string] {
+  const detections = allergenDetails(allergens, details);
+  return [
+    detections.filter(d => !d.may_contain).map(d => d.code).join('; '),
+    detections.filter(d => d.may_contain).map(d => d.code).join('; '),
+  ];
+}
+
+// Extended panel nutrients; unknown values are left empty rather than written as 0
+function extendedColumns({ macros, micros }: Pick<Nutrition, 'macros' | 'micros'>, decimals: number): string[] {
+  return [
+    macros.saturated_fat_g,
+    macros.added_sugar_g,
+    micros.zinc_mg,
+    micros.vitamin_d_mcg,
+    micros.vitamin_b12_mcg,
+    micros.folate_mcg,
+    micros.iodine_mcg,
+  ].map(value => (value === undefined ? '' : roundTo(value, decimals).toString()));
+}
+
+// Weights and energy are written in the chosen units and every amount is rounded to the chosen
+// decimals; the JSON export stays canonical.
+export function exportToCSV(analysis: NutritionAnalysis, units: UnitPreferences = DEFAULT_UNIT_PREFERENCES): string {
+  const amount = (value: number) => roundTo(value, units.decimals).toString();
 
-export function exportToCSV(analysis: NutritionAnalysis): string {
   const headers = [
     'Item',
     'Confidence',
-    'Weight (g)',
-    'Calories (kcal)',
+    `Weight (${units.mass})`,
+    units.energy === 'kcal' ? 'Calories (kcal)' : 'Energy (kJ)',
     'Protein (g)',
     'Carbs (g)',
     'Fat (g)',
@@ -18,48 +47,58 @@ export function exportToCSV(analysis: NutritionAnalysis): string {
     'Vitamin A (mcg)',
     'Vitamin C (mg)',
     'Cholesterol (mg)',
-    'Allergens'
+    'Saturated Fat (g)',
+    'Added Sugar (g)',
+    'Zinc (mg)',
+    'Vitamin D (mcg)',
+    'Vitamin B12 (mcg)',
+    'Folate (mcg)',
+    'Iodine (mcg)',
+    'Allergens',
+    'May Contain'
   ];
 
   const rows = analysis.composition.map(item => [
     item.label,
     (item.confidence * 100).toFixed(1) + '%',
-    item.serving_est_g.toString(),
-    item.nutrition.calories_kcal.toString(),
-    item.nutrition.macros.protein_g.toString(),
-    item.nutrition.macros.carbs_g.toString(),
-    item.nutrition.macros.fat_g.toString(),
-    item.nutrition.macros.fiber_g.toString(),
-    item.nutrition.macros.sugar_g.toString(),
-    item.nutrition.micros.sodium_mg.toString(),
-    item.nutrition.micros.potassium_mg.toString(),
-    item.nutrition.micros.calcium_mg.toString(),
-    item.nutrition.micros.iron_mg.toString(),
-    item.nutrition.micros.vitamin_a_mcg.toString(),
-    item.nutrition.micros.vitamin_c_mg.toString(),
-    item.nutrition.micros.cholesterol_mg.toString(),
-    item.nutrition.allergens.join('; ')
+    amount(toMassUnit(item.serving_est_g, units.mass)),
+    amount(toEnergyUnit(item.nutrition.calories_kcal, units.energy)),
+    amount(item.nutrition.macros.protein_g),
+    amount(item.nutrition.macros.carbs_g),
+    amount(item.nutrition.macros.fat_g),
+    amount(item.nutrition.macros.fiber_g),
+    amount(item.nutrition.macros.sugar_g),
+    amount(item.nutrition.micros.sodium_mg),
+    amount(item.nutrition.micros.potassium_mg),
+    amount(item.nutrition.micros.calcium_mg),
+    amount(item.nutrition.micros.iron_mg),
+    amount(item.nutrition.micros.vitamin_a_mcg),
+    amount(item.nutrition.micros.vitamin_c_mg),
+    amount(item.nutrition.micros.cholesterol_mg),
+    ...extendedColumns(item.nutrition, units.decimals),
+    ...allergenColumns(item.nutrition.allergens, item.allergen_details)
   ]);
 
   // Add totals row
   const totalsRow = [
     'TOTAL',
     '100%',
-    analysis.totals.serving_total_g.toString(),
-    analysis.totals.calories_kcal.toString(),
-    analysis.totals.macros.protein_g.toString(),
-    analysis.totals.macros.carbs_g.toString(),
-    analysis.totals.macros.fat_g.toString(),
-    analysis.totals.macros.fiber_g.toString(),
-    analysis.totals.macros.sugar_g.toString(),
-    analysis.totals.micros.sodium_mg.toString(),
-    analysis.totals.micros.potassium_mg.toString(),
-    analysis.totals.micros.calcium_mg.toString(),
-    analysis.totals.micros.iron_mg.toString(),
-    analysis.totals.micros.vitamin_a_mcg.toString(),
-    analysis.totals.micros.vitamin_c_mg.toString(),
-    analysis.totals.micros.cholesterol_mg.toString(),
-    analysis.totals.allergens.join('; ')
+    amount(toMassUnit(analysis.totals.serving_total_g, units.mass)),
+    amount(toEnergyUnit(analysis.totals.calories_kcal, units.energy)),
+    amount(analysis.totals.macros.protein_g),
+    amount(analysis.totals.macros.carbs_g),
+    amount(analysis.totals.macros.fat_g),
+    amount(analysis.totals.macros.fiber_g),
+    amount(analysis.totals.macros.sugar_g),
+    amount(analysis.totals.micros.sodium_mg),
+    amount(analysis.totals.micros.potassium_mg),
+    amount(analysis.totals.micros.calcium_mg),
+    amount(analysis.totals.micros.iron_mg),
+    amount(analysis.totals.micros.vitamin_a_mcg),
+    amount(analysis.totals.micros.vitamin_c_mg),
+    amount(analysis.totals.micros.cholesterol_mg),
+    ...extendedColumns(analysis.totals, units.decimals),
+    ...allergenColumns(analysis.totals.allergens, analysis.allergen_details)
   ];
 
   const csvContent = [
@@ -71,8 +110,12 @@ export function exportToCSV(analysis: NutritionAnalysis): string {
   return csvContent;
 }
 
-export function downloadCSV(analysis: NutritionAnalysis, filename: string = 'nutrition-analysis.csv') {
-  const csvContent = exportToCSV(analysis);
+export function downloadCSV(
+  analysis: NutritionAnalysis,
+  filename: string = 'nutrition-analysis.csv',
+  units: UnitPreferences = DEFAULT_UNIT_PREFERENCES,
+) {
+  const csvContent = exportToCSV(analysis, units);
   const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
   const link = document.createElement('a');
   
@@ -88,7 +131,8 @@ export function downloadCSV(analysis: NutritionAnalysis, filename: string = 'nut
 }
 
 export function downloadJSON(analysis: NutritionAnalysis, filename: string = 'nutrition-analysis.json') {
-  const jsonContent = JSON.stringify(analysis, null, 2);
+  // Meals saved before allergens were standardized still export canonical codes
+  const jsonContent = JSON.stringify(standardizeAnalysisAllergens(analysis), null, 2);
   const blob = new Blob([jsonContent], { type: 'application/json;charset=utf-8;' });
   const link = document.createElement('a');
   
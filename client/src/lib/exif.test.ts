@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  applyOrientationTransform,
+  readDataURLOrientation,
+  readExifOrientation,
+  swapsDimensions,
+  type ExifOrientation,
+} from "./exif";
+
+// SOI, an APP0, then an Exif APP1 whose only IFD entry is the orientation
+function jpegWithOrientation(orientation: number, little = false): Uint8Array {
+  const tiff = new DataView(new ArrayBuffer(8 + 2 + 12 + 4));
+  tiff.setUint16(0, little ? 0x4949 : 0x4d4d);
+  tiff.setUint16(2, 42, little);
+  tiff.setUint32(4, 8, little);
+  tiff.setUint16(8, 1, little);
+  tiff.setUint16(10, 0x0112, little);
+  tiff.setUint16(12, 3, little);
+  tiff.setUint32(14, 1, little);
+  tiff.setUint16(18, orientation, little);
+
+  const app0 = [0xff, 0xe0, 0, 4, 0, 0];
+  const exif = [0x45, 0x78, 0x69, 0x66, 0, 0, ...new Uint8Array(tiff.buffer)];
+  const app1 = [0xff, 0xe1, (exif.length + 2) >> 8, (exif.length + 2) & 0xff, ...exif];
+  return new Uint8Array([0xff, 0xd8, ...app0, ...app1, 0xff, 0xda, 0, 2, 0xff, 0xd9]);
+}
+
+function dataURL(bytes: Uint8Array, type = "image/jpeg"): string {
+  return `data:${type};base64,${Buffer.from(bytes).toString("base64")}`;
+}
+
+test("the orientation tag is read in either byte order", () => {
+  assert.equal(readExifOrientation(jpegWithOrientation(6).buffer as ArrayBuffer), 6);
+  assert.equal(readExifOrientation(jpegWithOrientation(8, true).buffer as ArrayBuffer), 8);
+  assert.equal(readDataURLOrientation(dataURL(jpegWithOrientation(3))), 3);
+});
+
+test("photos without a usable tag count as upright", () => {
+  const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  assert.equal(readDataURLOrientation(dataURL(png, "image/png")), 1);
+  assert.equal(readDataURLOrientation(dataURL(jpegWithOrientation(9))), 1);
+  assert.equal(readDataURLOrientation(dataURL(jpegWithOrientation(6).slice(0, 20))), 1);
+  assert.equal(readDataURLOrientation("data:image/jpeg,raw"), 1);
+  assert.equal(readDataURLOrientation("data:image/jpeg;base64,%%%"), 1);
+});
+
+test("each orientation maps the stored image onto the upright canvas", () => {
+  const width = 40;
+  const height = 30;
+  for (let orientation = 1; orientation <= 8; orientation++) {
+    const matrix = [1, 0, 0, 1, 0, 0];
+    const ctx = {
+      transform: (a: number, b: number, c: number, d: number, e: number, f: number) => matrix.splice(0, 6, a, b, c, d, e, f),
+    } as unknown as CanvasRenderingContext2D;
+    applyOrientationTransform(ctx, orientation as ExifOrientation, width, height);
+
+    const [a, b, c, d, e, f] = matrix;
+    const corners = [[0, 0], [width, 0], [0, height], [width, height]].map(([x, y]) => [a * x + c * y + e, b * x + d * y + f]);
+    const [uprightWidth, uprightHeight] = swapsDimensions(orientation as ExifOrientation) ? [height, width] : [width, height];
+    assert.deepEqual(
+      new Set(corners.map(([x, y]) => `${x},${y}`)),
+      new Set([`0,0`, `${uprightWidth},0`, `0,${uprightHeight}`, `${uprightWidth},${uprightHeight}`]),
+      `orientation ${orientation}`,
+    );
+  }
+});
@@ -0,0 +1,107 @@
+// Minimal EXIF reader: only the Orientation tag (0x0112) of JPEG photos, which phones use
+// instead of rotating the pixels.
+
+// 1 = upright; 2-4 mirror/rotate 180°; 5-8 additionally swap width and height.
+export type ExifOrientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+// EXIF lives in the first APP1 segment; 64 KB covers it (and any thumbnail before it) in practice.
+const EXIF_SCAN_BYTES = 64 * 1024;
+
+function readOrientationFromTiff(view: DataView, tiffStart: number): ExifOrientation {
+  if (tiffStart + 8 > view.byteLength) return 1;
+  const little = view.getUint16(tiffStart) === 0x4949; // "II"
+  const ifdOffset = view.getUint32(tiffStart + 4, little);
+  const ifdStart = tiffStart + ifdOffset;
+  if (ifdStart + 2 > view.byteLength) return 1;
+
+  const entries = view.getUint16(ifdStart, little);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifdStart + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    if (view.getUint16(entry, little) === 0x0112) {
+      const value = view.getUint16(entry + 8, little);
+      return value >= 1 && value <= 8 ? (value as ExifOrientation) : 1;
+    }
+  }
+  return 1;
+}
+
+// Returns 1 for non-JPEG data or photos without an orientation tag.
+export function readExifOrientation(buffer: ArrayBuffer): ExifOrientation {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break; // start of scan: no more metadata
+    const length = view.getUint16(offset + 2);
+
+    // APP1 starting with "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength &&
+        view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+      return readOrientationFromTiff(view, offset + 10);
+    }
+    offset += 2 + length;
+  }
+  return 1;
+}
+
+// Decodes just the head of a base64 data URL, enough for readExifOrientation.
+export function dataURLHead(dataURL: string, maxBytes: number = EXIF_SCAN_BYTES): ArrayBuffer {
+  const comma = dataURL.indexOf(',');
+  if (comma === -1 || !dataURL.slice(0, comma).endsWith(';base64')) return new ArrayBuffer(0);
+
+  // 4 base64 characters encode 3 bytes
+  const chars = Math.ceil(maxBytes / 3) * 4;
+  const binary = atob(dataURL.slice(comma + 1, comma + 1 + chars));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+export function readDataURLOrientation(dataURL: string): ExifOrientation {
+  try {
+    return readExifOrientation(dataURLHead(dataURL));
+  } catch {
+    return 1;
+  }
+}
+
+let appliesOrientation: boolean | undefined;
+
+// Browsers that support `image-orientation: from-image` (the default since 2020) already rotate
+// <img> elements, and canvas draws of them, by their EXIF tag; rotating again would double it.
+export function browserAppliesExifOrientation(): boolean {
+  if (appliesOrientation === undefined) {
+    appliesOrientation = typeof CSS !== 'undefined' && typeof CSS.supports === 'function' &&
+      CSS.supports('image-orientation', 'from-image');
+  }
+  return appliesOrientation;
+}
+
+export function swapsDimensions(orientation: ExifOrientation): boolean {
+  return orientation >= 5;
+}
+
+// Sets up `ctx` so drawing the stored (unrotated) image at (0, 0, width, height) renders it upright.
+// `width`/`height` are the stored image's draw size; the canvas must already have the upright size.
+export function applyOrientationTransform(
+  ctx: CanvasRenderingContext2D,
+  orientation: ExifOrientation,
+  width: number,
+  height: number,
+): void {
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+    default: break;
+  }
+}
@@ -0,0 +1,387 @@
+// English catalog. It is the reference: id.ts must define every key listed here.
+// Placeholders are written {name}; plural messages pick `one` when the `count` param is 1.
+export type Message = string | { one: string; other: string };
+
+export const en = {
+  // Formats (date-fns patterns)
+  "format.dateTime": "MMM d, yyyy h:mm a",
+
+  "common.back": "Back",
+  "common.cancel": "Cancel",
+  "common.download": "Download",
+  "common.discard": "Discard",
+  "common.saveFailed": "Save failed",
+  "common.kcal": "kcal",
+  "common.analyzing": "Analyzing...",
+  "language.label": "Language",
+
+  "mealType.breakfast": "breakfast",
+  "mealType.lunch": "lunch",
+  "mealType.dinner": "dinner",
+  "mealType.snack": "snack",
+
+  "severity.mild": "mild",
+  "severity.moderate": "moderate",
+  "severity.severe": "severe",
+
+  // Home
+  "home.subtitle": "Food Nutrition Analysis",
+  "home.nav.goals": "Goals",
+  "home.nav.recipes": "Recipes",
+  "home.nav.history": "History",
+  "home.tab.camera": "Camera",
+  "home.tab.upload": "Upload",
+  "home.tab.describe": "Describe",
+  "home.labelMode": "Scan nutrition label",
+  "home.ensembleMode": "Ensemble mode (compare all models, slower)",
+  "home.quickPreview": "Quick Nutrition Preview",
+  "home.analysisSummary": "Analysis Summary",
+  "home.totalEnergy": "Total {unit}",
+  "home.itemsDetected": "Items Detected",
+  "home.results.title": "Analysis Results",
+  "home.results.subtitle": "Detected food items and nutritional breakdown",
+  "home.saveMeal": "Save as Meal",
+  "home.describedMeal": "Described meal",
+  "home.detection.title": "Detection Summary",
+  "home.detection.items": "Items Detected:",
+  "home.detection.imageSize": "Image Size:",
+  "home.detection.portionScale": "Portion Scale:",
+  "home.detection.calibrated": "Calibrated",
+  "home.calibration.calibrated": "Portions calibrated against {reference} ({count} of {total} items)",
+  "home.calibration.reference_not_found": "{reference} was not found in the photo",
+  "home.calibration.image_size_unknown": "Image size is unknown",
+  "home.calibration.no_item_boxes": "No items had a bounding box to calibrate",
+  "home.detection.modelOutput": "Model Output:",
+  "home.detection.repaired": "Repaired",
+  "home.detection.partiallyRepaired": "Partially repaired",
+  "home.detection.analyzedBy": "Analyzed By:",
+  "home.detection.cached": "Cached result",
+  "home.toast.cancelled.title": "Analysis Cancelled",
+  "home.toast.cancelled.description": "The analysis was stopped.",
+  "home.toast.failed.title": "Analysis Failed",
+  "home.toast.cameraFailed": "Camera analysis failed",
+  "home.toast.uploadFailed": "Image analysis failed",
+  "home.toast.describeFailed": "Description analysis failed",
+  "home.toast.labelRead.title": "Label Read",
+  "home.toast.labelRead.description": "Values are for one serving. Set how many servings were eaten.",
+  "home.toast.complete.title": "Analysis Complete",
+  "home.toast.detected": { one: "Detected {count} food item", other: "Detected {count} food items" },
+  "home.toast.estimated": { one: "Estimated {count} food item", other: "Estimated {count} food items" },
+  "home.toast.saved.title": "Meal saved!",
+  "home.toast.saved.description": "Your meal has been added to your history.",
+  "home.toast.saveFailed": "Failed to save meal",
+
+  // Capture panels
+  "camera.title": "Camera Analysis",
+  "camera.subtitle": "Position food items clearly in the camera view",
+  "camera.preview": "Camera Preview",
+  "camera.start": "Start Camera",
+  "camera.device": "Camera Device:",
+  "camera.device.placeholder": "Select camera",
+  "camera.device.unnamed": "Camera {number}",
+  "camera.analyze": "Analyze Food with Camera",
+  "camera.error.devices": "Unable to access camera devices",
+  "camera.error.start": "Unable to start camera. Please check permissions.",
+  "camera.error.tooLarge": "Captured image is too large. Please try with better lighting or a different angle.",
+  "camera.tips.title": "Camera Tips",
+  "camera.tips.1": "Ensure good lighting on food items",
+  "camera.tips.2": "Hold camera steady for clear capture",
+  "camera.tips.3": "Position food items within the grid",
+  "camera.tips.4": "Avoid shadows and reflections",
+  "upload.title": "Upload Analysis",
+  "upload.subtitle": "Upload a clear image of food items for detailed analysis",
+  "upload.drop": "Drop your food image here",
+  "upload.browse": "or click to browse files",
+  "upload.chooseFile": "Choose File",
+  "upload.formats": "Supports JPG, PNG, WebP up to 10MB (auto-compressed)",
+  "upload.analyze": "Analyze Uploaded Image",
+  "upload.preview": "Image Preview",
+  "upload.previewAlt": "Upload preview",
+  "upload.noImage": "No image selected",
+  "upload.reference.marking": "Drag over the reference…",
+  "upload.reference.mark": "Mark reference",
+  "upload.reference.remark": "Re-mark reference",
+  "upload.error.notImage": "Please select an image file",
+  "upload.error.fileSize": "File size must be less than 10MB",
+  "upload.error.tooLarge": "Image is too large after compression. Please try a smaller image or different format.",
+  "upload.tips.title": "Upload Tips",
+  "upload.tips.1": "Use high-resolution images for better accuracy",
+  "upload.tips.2": "Ensure all food items are visible",
+  "upload.tips.3": "Avoid cluttered backgrounds",
+  "upload.tips.4": "Good lighting improves detection",
+  "describe.title": "Describe a Meal",
+  "describe.subtitle": "No photo? Describe what was eaten and how much, in Indonesian or English",
+  "describe.placeholder": "e.g. 1 piring nasi putih, sepotong ayam goreng, sayur bayam",
+  "describe.portions": "Portions help: piring, mangkuk, potong, sendok, gelas",
+  "describe.analyze": "Analyze Description",
+  "describe.examples": "Examples",
+  "reference.label": "Size reference:",
+  "reference.none": "None",
+
+  // Analysis results
+  "results.allergyAlert.title": "Contains your child's allergens",
+  "results.allergyAlert.mayContain": "may contain",
+  "results.allergyAlert.items": "in {items}",
+  "results.allergyAlert.uncertain": "uncertain, check the ingredients",
+  "results.dietaryAlert.title": "Doesn't match your dietary preferences",
+  "results.conflict.pork": "contains pork",
+  "results.conflict.alcohol": "contains alcohol",
+  "results.conflict.halal_uncertain": "halal status uncertain",
+  "results.conflict.not_vegetarian": "not vegetarian",
+  "results.conflict.not_vegan": "not vegan",
+  "results.conflict.avoided": "contains an avoided ingredient",
+  "results.flagSource.database": "food database",
+  "results.flagSource.model": "model estimate",
+  "results.flagSource.title": "From the {source}",
+  "results.quality.title": "The estimated numbers don't fully add up",
+  "results.quality.description": "Totals below are recalculated from the individual items. Treat these values with extra caution.",
+  "results.quality.issue.totals_mismatch": "Reported total {field} ({reported}) does not match the sum of items ({computed})",
+  "results.quality.issue.total_energy_mismatch": "Total energy {calories} kcal differs from 4·protein + 4·carbs + 9·fat = {expected} kcal",
+  "results.quality.issue.item_energy_mismatch": "\"{item}\" energy {calories} kcal differs from 4·protein + 4·carbs + 9·fat = {expected} kcal",
+  "results.quality.issue.missing_weight": "\"{item}\" has nutrients but no estimated weight",
+  "results.quality.issue.density_too_high": "\"{item}\" {field} density {density} {unit} exceeds {max} {unit}",
+  "results.total.title": "Total Nutrition",
+  "results.total.energy": "Total Energy ({unit})",
+  "results.total.weight": "Total Weight ({unit})",
+  "results.macros": "Macronutrients",
+  "results.items.title": "Individual Items",
+  "results.items.none.title": "No food items detected",
+  "results.items.none.description":
+    "Try uploading a clearer image with visible food items, or ensure the image contains recognizable foods.",
+  "results.confidence.high": "High",
+  "results.confidence.medium": "Medium",
+  "results.confidence.low": "Low",
+  "results.lowAgreement": "Low agreement",
+  "results.lowAgreement.title": "Only detected by {models}",
+  "results.calibrated": "Calibrated",
+  "results.calibrated.title": "Model estimate {mass} {unit}, rescaled ×{factor} from a {area} cm² footprint",
+  "results.source.reference.title": "Nutrition from {database} reference data",
+  "results.source.label": "Label",
+  "results.source.label.title": "Nutrition read from the printed nutrition facts panel",
+  "results.source.recipe": "Recipe",
+  "results.source.recipe.title": "Nutrition computed from a saved home recipe",
+  "results.recipe.label": "Home recipe:",
+  "results.recipe.placeholder": "Use a saved recipe",
+  "results.serving.size": "1 serving = {mass} {massUnit}, {energy} {energyUnit}",
+  "results.serving.perPackage": "({count} per package)",
+  "results.serving.eatenLabel": "Servings eaten:",
+  "results.serving.eaten": { one: "{count} serving eaten", other: "{count} servings eaten" },
+  "results.allergens.title": "Allergen Information",
+  "results.allergen.mayContain": "May contain {name}",
+  "results.allergen.confidence.high": "High confidence",
+  "results.allergen.confidence.medium": "Medium confidence",
+  "results.allergen.confidence.low": "Low confidence",
+  "results.micros.title": "Detailed Micronutrients",
+  "results.extended.title": "Growth & Anemia Nutrients",
+  "results.extended.unknown": "unknown",
+  "results.extended.unknown.title": "Not estimated for every item in this meal",
+  "results.notes": "Analysis Notes",
+  "results.overlayAlt": "Food analysis",
+  "results.editor.title": "Correct the Items",
+  "results.editor.addPlaceholder": "Missed item, e.g. Tempe goreng",
+  "results.editor.addError": "Pick a food from the list and enter its weight in {unit}",
+  "results.editor.unit.g": "grams",
+  "results.editor.unit.oz": "ounces",
+  "results.export.json": "Export JSON",
+  "results.export.csv": "Export CSV",
+  "results.export.success.title": "Export Successful",
+  "results.export.json.success": "JSON file has been downloaded",
+  "results.export.csv.success": "CSV file has been downloaded",
+  "results.export.failed.title": "Export Failed",
+  "results.export.json.failed": "Unable to export JSON file",
+  "results.export.csv.failed": "Unable to export CSV file",
+
+  "dietaryFlag.contains_pork": "Contains pork",
+  "dietaryFlag.contains_alcohol": "Contains alcohol",
+  "dietaryFlag.vegetarian": "Vegetarian",
+  "dietaryFlag.vegan": "Vegan",
+  "dietaryFlag.halal_uncertain": "Halal uncertain",
+
+  "nutrient.protein": "Protein",
+  "nutrient.carbs": "Carbs",
+  "nutrient.fat": "Fat",
+  "nutrient.fiber": "Fiber",
+  "nutrient.sodium": "Sodium",
+  "nutrient.potassium": "Potassium",
+  "nutrient.calcium": "Calcium",
+  "nutrient.iron": "Iron",
+  "nutrient.vitaminA": "Vitamin A",
+  "nutrient.vitaminC": "Vitamin C",
+  "nutrient.cholesterol": "Cholesterol",
+  "nutrient.saturatedFat": "Saturated Fat",
+  "nutrient.addedSugar": "Added Sugar",
+  "nutrient.zinc": "Zinc",
+  "nutrient.vitaminD": "Vitamin D",
+  "nutrient.vitaminB12": "Vitamin B12",
+  "nutrient.folate": "Folate",
+  "nutrient.iodine": "Iodine",
+
+  // Alerts
+  "alerts.disclaimer.title": "Educational Purpose Only",
+  "alerts.disclaimer.body":
+    "This nutritional analysis is for educational and informational purposes only. Results are estimates based on visual analysis and may not be completely accurate. Always consult healthcare professionals for personalized dietary advice, especially for children with specific nutritional needs or medical conditions.",
+  "alerts.analyzing": "Analyzing Food Items...",
+  "alerts.wait": "Please wait while we identify and analyze the nutritional content of your food.",
+  "alerts.step.queued": "Queued",
+  "alerts.step.uploading": "Uploading image",
+  "alerts.step.modelCall": "Calling model",
+  "alerts.step.validating": "Validating results",
+  "alerts.attempt": "attempt {attempt}",
+  "alerts.fallback": "fallback",
+
+  // Meal history
+  "history.back": "Back to Analysis",
+  "history.title": "Meal History",
+  "history.period.week": "Week",
+  "history.period.month": "Month",
+  "history.period.all": "All",
+  "history.searchPlaceholder": "Search foods (e.g. nasi goreng, fried rice)",
+  "history.totalMeals": "Total Meals",
+  "history.totalEnergy": "Total Energy ({unit})",
+  "history.avgPerMeal": "Avg per Meal ({unit})",
+  "history.totalProtein": "Total Protein",
+  "history.loading": "Loading your meals...",
+  "history.noMatches.title": "No matching meals",
+  "history.noMatches.description": "No meal in this period contains that food.",
+  "history.empty.title": "No meals recorded",
+  "history.empty.description": "Start analyzing your meals to build your nutrition history.",
+  "history.protein": "protein",
+  "history.carbs": "carbs",
+  "history.fat": "fat",
+  "history.itemsDetected": "Items detected:",
+  "history.calls": { one: "{count} call", other: "{count} calls" },
+  "history.mealNotFound": "Meal not found",
+  "history.toast.deleted.title": "Meal deleted",
+  "history.toast.deleted.description": "The meal has been removed from your history.",
+  "history.toast.deleteFailed.title": "Delete failed",
+  "history.toast.deleteFailed.description": "Failed to delete meal",
+
+  // Nutrition goals
+  "goals.loading": "Loading nutrition goals...",
+  "goals.title": "Nutrition Goals",
+  "goals.subtitle": "Set your daily nutrition targets",
+  "goals.targets.title": "Daily Nutrition Targets",
+  "goals.targets.description":
+    "Set your personalized daily nutrition goals. Leave fields empty if you don't want to track that nutrient.",
+  "goals.field.calories": "Daily Calories",
+  "goals.field.calories.hint": "Recommended: {min}-{max} {unit} for adults",
+  "goals.field.protein": "Daily Protein",
+  "goals.field.protein.hint": "Recommended: 0.8-1.2g per kg body weight",
+  "goals.field.carbs": "Daily Carbohydrates",
+  "goals.field.carbs.hint": "Recommended: 45-65% of total calories",
+  "goals.field.fat": "Daily Fat",
+  "goals.field.fat.hint": "Recommended: 20-35% of total calories",
+  "goals.field.fiber": "Daily Fiber",
+  "goals.field.fiber.hint": "Recommended: 25g for women, 38g for men",
+  "goals.childDefaults": "Recommended for {name} (AKG 2019): {calories} {unit}, protein {protein} g, carbs {carbs} g, fat {fat} g, fiber {fiber} g",
+  "goals.useChildDefaults": "Use recommended",
+  "goals.save": "Save Goals",
+  "goals.saving": "Saving...",
+  "goals.current": "Current Goals",
+  "goals.calories": "Calories",
+  "goals.protein": "Protein",
+  "goals.carbs": "Carbs",
+  "goals.fat": "Fat",
+  "goals.fiber": "Fiber",
+  "goals.tips": "Tips",
+  "goals.tip.1": "Start with calorie goals and gradually add macronutrient targets",
+  "goals.tip.2": "Adjust goals based on your activity level and health objectives",
+  "goals.tip.3": "Track your meals regularly to see how you're progressing",
+  "goals.tip.4": "Consider consulting with a nutritionist for personalized advice",
+  "goals.toast.saved.title": "Goals saved!",
+  "goals.toast.saved.description": "Your nutrition goals have been updated successfully.",
+  "goals.toast.saveFailed": "Failed to save nutrition goals",
+
+  // Recipes
+  "recipes.title": "Recipes",
+  "recipes.subtitle": "Home-cooked dishes for reuse",
+  "recipes.new.title": "New Recipe",
+  "recipes.new.description":
+    "Enter the raw ingredients of the whole batch and how many portions it makes. For fried dishes, add the oil the food absorbs as an ingredient.",
+  "recipes.name": "Name",
+  "recipes.portions": "Portions",
+  "recipes.cookingMethod": "Cooking method",
+  "recipes.ingredients": "Ingredients",
+  "recipes.ingredient.placeholder": "Choose an ingredient",
+  "recipes.ingredient.add": "Add ingredient",
+  "recipes.preview.perPortion": "Per portion (~{grams}g): {calories} kcal",
+  "recipes.preview.macros": "Protein {protein}g · Carbs {carbs}g · Fat {fat}g",
+  "recipes.save": "Save Recipe",
+  "recipes.saved.title": "Saved Recipes",
+  "recipes.saved.description": "Attach one to a dish in your analysis results.",
+  "recipes.saved.none": "No recipes yet.",
+  "recipes.saved.portions": { one: "{method} · {count} portion", other: "{method} · {count} portions" },
+  "recipes.saved.perPortion": "{calories} kcal per ~{grams}g portion",
+  "recipes.error.incomplete": "Add a name, the number of portions and at least one ingredient",
+  "recipes.toast.saved.title": "Recipe saved!",
+  "recipes.toast.saved.description": "{name} can now be attached to a photographed dish.",
+  "recipes.toast.saveFailed": "Failed to save recipe",
+
+  // Settings cards (allergies, dietary preferences, units)
+  "allergies.title": "Child's Allergies",
+  "allergies.description": "Meals containing these allergens are flagged after analysis.",
+  "dietary.title": "Dietary Preferences",
+  "dietary.description": "Analyzed meals are checked against these rules.",
+  "dietary.halal": "Halal",
+  "dietary.halal.hint": "Flag pork, alcohol and items whose halal status is uncertain",
+  "dietary.vegetarian": "Vegetarian",
+  "dietary.vegetarian.hint": "Flag meat and fish",
+  "dietary.vegan": "Vegan",
+  "dietary.vegan.hint": "Flag all animal products",
+  "dietary.avoid": "Ingredients to avoid",
+  "dietary.avoid.placeholder": "e.g. sapi, udang, santan",
+  "dietary.avoid.hint": "Comma-separated; matched against food names.",
+  "units.title": "Units",
+  "units.description": "How energy, food weights and decimals are shown. Saved data is not changed.",
+  "units.energy": "Energy",
+  "units.energy.kcal": "kilocalories (kcal)",
+  "units.energy.kJ": "kilojoules (kJ)",
+  "units.mass": "Food weight",
+  "units.mass.g": "grams (g)",
+  "units.mass.oz": "ounces (oz)",
+  "units.decimals": "Decimal places",
+
+  // Recommendations
+  "recommendations.title": "Recommendations",
+  "recommendations.description": "Based on {name}'s meals in this period",
+  "recommendations.none": "Nothing to improve in this period.",
+  "recommendations.priority.high": "high",
+  "recommendations.priority.medium": "medium",
+  "recommendations.priority.low": "low",
+
+  // Child profiles
+  "children.label": "Child",
+  "children.add": "Add child",
+  "children.edit": "Edit profile",
+  "children.dialog.addTitle": "Add a Child",
+  "children.dialog.editTitle": "Edit {name}",
+  "children.dialog.description": "Meal history, goals and allergies are kept separately for each child.",
+  "children.name": "Name",
+  "children.birthDate": "Birth date",
+  "children.birthDate.future": "Birth date cannot be in the future",
+  "children.sex": "Sex",
+  "children.sex.female": "Girl",
+  "children.sex.male": "Boy",
+  "children.weight": "Weight (kg)",
+  "children.height": "Height (cm)",
+  "children.optional": "Optional",
+  "children.save": "Save Profile",
+  "children.none.title": "No child profile yet",
+  "children.none.description": "Add a child to save meals and set their goals and allergies.",
+  "children.toast.saveFailed": "Failed to save child profile",
+
+  // Quarantined records
+  "quarantine.title": {
+    one: "{count} saved record could not be loaded",
+    other: "{count} saved records could not be loaded",
+  },
+  "quarantine.description":
+    "These were saved in a format this version of the app cannot read, so they are not part of your history. Download them to keep a copy.",
+  "quarantine.goals": "Nutrition goals",
+  "quarantine.mealHistory": "Meal history",
+  "quarantine.meal": "Meal",
+  "quarantine.mealOf": "Meal of {date}",
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, Message>;
@@ -0,0 +1,379 @@
+// Indonesian catalog (keys as in en.ts)
+import type { Messages } from "./en";
+
+export const id: Messages = {
+  "format.dateTime": "d MMM yyyy HH.mm",
+
+  "common.back": "Kembali",
+  "common.cancel": "Batal",
+  "common.download": "Unduh",
+  "common.discard": "Buang",
+  "common.saveFailed": "Gagal menyimpan",
+  "common.kcal": "kkal",
+  "common.analyzing": "Menganalisis...",
+  "language.label": "Bahasa",
+
+  "mealType.breakfast": "sarapan",
+  "mealType.lunch": "makan siang",
+  "mealType.dinner": "makan malam",
+  "mealType.snack": "camilan",
+
+  "severity.mild": "ringan",
+  "severity.moderate": "sedang",
+  "severity.severe": "berat",
+
+  // Beranda
+  "home.subtitle": "Analisis Gizi Makanan",
+  "home.nav.goals": "Target",
+  "home.nav.recipes": "Resep",
+  "home.nav.history": "Riwayat",
+  "home.tab.camera": "Kamera",
+  "home.tab.upload": "Unggah",
+  "home.tab.describe": "Deskripsikan",
+  "home.labelMode": "Pindai label gizi",
+  "home.ensembleMode": "Mode ensemble (bandingkan semua model, lebih lambat)",
+  "home.quickPreview": "Pratinjau Gizi Singkat",
+  "home.analysisSummary": "Ringkasan Analisis",
+  "home.totalEnergy": "Total {unit}",
+  "home.itemsDetected": "Makanan Terdeteksi",
+  "home.results.title": "Hasil Analisis",
+  "home.results.subtitle": "Makanan yang terdeteksi dan rincian gizinya",
+  "home.saveMeal": "Simpan ke Riwayat",
+  "home.describedMeal": "Makanan yang dideskripsikan",
+  "home.detection.title": "Ringkasan Deteksi",
+  "home.detection.items": "Makanan Terdeteksi:",
+  "home.detection.imageSize": "Ukuran Gambar:",
+  "home.detection.portionScale": "Skala Porsi:",
+  "home.detection.calibrated": "Terkalibrasi",
+  "home.calibration.calibrated": "Porsi dikalibrasi dengan {reference} ({count} dari {total} makanan)",
+  "home.calibration.reference_not_found": "{reference} tidak ditemukan di foto",
+  "home.calibration.image_size_unknown": "Ukuran gambar tidak diketahui",
+  "home.calibration.no_item_boxes": "Tidak ada makanan dengan kotak batas untuk dikalibrasi",
+  "home.detection.modelOutput": "Keluaran Model:",
+  "home.detection.repaired": "Diperbaiki",
+  "home.detection.partiallyRepaired": "Diperbaiki sebagian",
+  "home.detection.analyzedBy": "Dianalisis Oleh:",
+  "home.detection.cached": "Hasil tersimpan",
+  "home.toast.cancelled.title": "Analisis Dibatalkan",
+  "home.toast.cancelled.description": "Analisis dihentikan.",
+  "home.toast.failed.title": "Analisis Gagal",
+  "home.toast.cameraFailed": "Analisis foto kamera gagal",
+  "home.toast.uploadFailed": "Analisis gambar gagal",
+  "home.toast.describeFailed": "Analisis deskripsi gagal",
+  "home.toast.labelRead.title": "Label Terbaca",
+  "home.toast.labelRead.description": "Nilai berlaku untuk satu sajian. Atur berapa sajian yang dimakan.",
+  "home.toast.complete.title": "Analisis Selesai",
+  "home.toast.detected": "{count} makanan terdeteksi",
+  "home.toast.estimated": "{count} makanan diperkirakan",
+  "home.toast.saved.title": "Makanan tersimpan!",
+  "home.toast.saved.description": "Makanan telah ditambahkan ke riwayat Anda.",
+  "home.toast.saveFailed": "Gagal menyimpan makanan",
+
+  // Panel pengambilan
+  "camera.title": "Analisis Kamera",
+  "camera.subtitle": "Posisikan makanan dengan jelas di tampilan kamera",
+  "camera.preview": "Pratinjau Kamera",
+  "camera.start": "Nyalakan Kamera",
+  "camera.device": "Perangkat Kamera:",
+  "camera.device.placeholder": "Pilih kamera",
+  "camera.device.unnamed": "Kamera {number}",
+  "camera.analyze": "Analisis Makanan dengan Kamera",
+  "camera.error.devices": "Tidak dapat mengakses perangkat kamera",
+  "camera.error.start": "Tidak dapat menyalakan kamera. Periksa izin kamera.",
+  "camera.error.tooLarge": "Gambar yang diambil terlalu besar. Coba dengan pencahayaan lebih baik atau sudut lain.",
+  "camera.tips.title": "Tips Kamera",
+  "camera.tips.1": "Pastikan makanan mendapat cahaya yang cukup",
+  "camera.tips.2": "Pegang kamera dengan stabil agar gambar jelas",
+  "camera.tips.3": "Letakkan makanan di dalam kisi",
+  "camera.tips.4": "Hindari bayangan dan pantulan",
+  "upload.title": "Analisis Unggahan",
+  "upload.subtitle": "Unggah gambar makanan yang jelas untuk analisis terperinci",
+  "upload.drop": "Letakkan gambar makanan di sini",
+  "upload.browse": "atau klik untuk memilih file",
+  "upload.chooseFile": "Pilih File",
+  "upload.formats": "Mendukung JPG, PNG, WebP hingga 10MB (dikompres otomatis)",
+  "upload.analyze": "Analisis Gambar yang Diunggah",
+  "upload.preview": "Pratinjau Gambar",
+  "upload.previewAlt": "Pratinjau unggahan",
+  "upload.noImage": "Belum ada gambar dipilih",
+  "upload.reference.marking": "Seret di atas benda acuan…",
+  "upload.reference.mark": "Tandai acuan",
+  "upload.reference.remark": "Tandai ulang acuan",
+  "upload.error.notImage": "Pilih file gambar",
+  "upload.error.fileSize": "Ukuran file harus kurang dari 10MB",
+  "upload.error.tooLarge": "Gambar masih terlalu besar setelah dikompres. Coba gambar yang lebih kecil atau format lain.",
+  "upload.tips.title": "Tips Unggah",
+  "upload.tips.1": "Gunakan gambar beresolusi tinggi agar lebih akurat",
+  "upload.tips.2": "Pastikan semua makanan terlihat",
+  "upload.tips.3": "Hindari latar belakang yang berantakan",
+  "upload.tips.4": "Pencahayaan yang baik membantu deteksi",
+  "describe.title": "Jelaskan Makanan",
+  "describe.subtitle": "Tidak ada foto? Jelaskan apa yang dimakan dan berapa banyak, dalam bahasa Indonesia atau Inggris",
+  "describe.placeholder": "mis. 1 piring nasi putih, sepotong ayam goreng, sayur bayam",
+  "describe.portions": "Sebutkan porsinya: piring, mangkuk, potong, sendok, gelas",
+  "describe.analyze": "Analisis Deskripsi",
+  "describe.examples": "Contoh",
+  "reference.label": "Acuan ukuran:",
+  "reference.none": "Tidak ada",
+
+  // Hasil analisis
+  "results.allergyAlert.title": "Mengandung alergen anak Anda",
+  "results.allergyAlert.mayContain": "mungkin mengandung",
+  "results.allergyAlert.items": "pada {items}",
+  "results.allergyAlert.uncertain": "belum pasti, periksa bahan-bahannya",
+  "results.dietaryAlert.title": "Tidak sesuai dengan preferensi makan Anda",
+  "results.conflict.pork": "mengandung babi",
+  "results.conflict.alcohol": "mengandung alkohol",
+  "results.conflict.halal_uncertain": "status halal belum pasti",
+  "results.conflict.not_vegetarian": "bukan vegetarian",
+  "results.conflict.not_vegan": "bukan vegan",
+  "results.conflict.avoided": "mengandung bahan yang dihindari",
+  "results.flagSource.database": "basis data makanan",
+  "results.flagSource.model": "perkiraan model",
+  "results.flagSource.title": "Dari {source}",
+  "results.quality.title": "Angka perkiraan tidak sepenuhnya cocok",
+  "results.quality.description": "Total di bawah dihitung ulang dari tiap makanan. Gunakan nilai ini dengan lebih hati-hati.",
+  "results.quality.issue.totals_mismatch": "Total {field} yang dilaporkan ({reported}) tidak sama dengan jumlah per makanan ({computed})",
+  "results.quality.issue.total_energy_mismatch": "Energi total {calories} kkal berbeda dari 4·protein + 4·karbohidrat + 9·lemak = {expected} kkal",
+  "results.quality.issue.item_energy_mismatch": "Energi \"{item}\" {calories} kkal berbeda dari 4·protein + 4·karbohidrat + 9·lemak = {expected} kkal",
+  "results.quality.issue.missing_weight": "\"{item}\" memiliki nilai gizi tetapi tanpa perkiraan berat",
+  "results.quality.issue.density_too_high": "Kepadatan {field} \"{item}\" {density} {unit} melebihi {max} {unit}",
+  "results.total.title": "Total Gizi",
+  "results.total.energy": "Total Energi ({unit})",
+  "results.total.weight": "Total Berat ({unit})",
+  "results.macros": "Zat Gizi Makro",
+  "results.items.title": "Rincian Makanan",
+  "results.items.none.title": "Tidak ada makanan terdeteksi",
+  "results.items.none.description":
+    "Coba unggah gambar yang lebih jelas dengan makanan yang terlihat, atau pastikan gambar berisi makanan yang dapat dikenali.",
+  "results.confidence.high": "Tinggi",
+  "results.confidence.medium": "Sedang",
+  "results.confidence.low": "Rendah",
+  "results.lowAgreement": "Kesepakatan rendah",
+  "results.lowAgreement.title": "Hanya terdeteksi oleh {models}",
+  "results.calibrated": "Dikalibrasi",
+  "results.calibrated.title": "Perkiraan model {mass} {unit}, diskalakan ×{factor} dari jejak {area} cm²",
+  "results.source.reference.title": "Gizi dari data acuan {database}",
+  "results.source.label": "Label",
+  "results.source.label.title": "Gizi dibaca dari tabel informasi nilai gizi pada kemasan",
+  "results.source.recipe": "Resep",
+  "results.source.recipe.title": "Gizi dihitung dari resep rumahan yang disimpan",
+  "results.recipe.label": "Resep rumahan:",
+  "results.recipe.placeholder": "Pakai resep tersimpan",
+  "results.serving.size": "1 sajian = {mass} {massUnit}, {energy} {energyUnit}",
+  "results.serving.perPackage": "({count} per kemasan)",
+  "results.serving.eatenLabel": "Sajian dimakan:",
+  "results.serving.eaten": "{count} sajian dimakan",
+  "results.allergens.title": "Informasi Alergen",
+  "results.allergen.mayContain": "Mungkin mengandung {name}",
+  "results.allergen.confidence.high": "Keyakinan tinggi",
+  "results.allergen.confidence.medium": "Keyakinan sedang",
+  "results.allergen.confidence.low": "Keyakinan rendah",
+  "results.micros.title": "Rincian Zat Gizi Mikro",
+  "results.extended.title": "Zat Gizi Pertumbuhan & Anemia",
+  "results.extended.unknown": "tidak diketahui",
+  "results.extended.unknown.title": "Tidak diperkirakan untuk semua makanan dalam hidangan ini",
+  "results.notes": "Catatan Analisis",
+  "results.overlayAlt": "Analisis makanan",
+  "results.editor.title": "Koreksi Makanan",
+  "results.editor.addPlaceholder": "Makanan terlewat, mis. Tempe goreng",
+  "results.editor.addError": "Pilih makanan dari daftar dan masukkan beratnya dalam {unit}",
+  "results.editor.unit.g": "gram",
+  "results.editor.unit.oz": "ons (oz)",
+  "results.export.json": "Ekspor JSON",
+  "results.export.csv": "Ekspor CSV",
+  "results.export.success.title": "Ekspor Berhasil",
+  "results.export.json.success": "File JSON telah diunduh",
+  "results.export.csv.success": "File CSV telah diunduh",
+  "results.export.failed.title": "Ekspor Gagal",
+  "results.export.json.failed": "Tidak dapat mengekspor file JSON",
+  "results.export.csv.failed": "Tidak dapat mengekspor file CSV",
+
+  "dietaryFlag.contains_pork": "Mengandung babi",
+  "dietaryFlag.contains_alcohol": "Mengandung alkohol",
+  "dietaryFlag.vegetarian": "Vegetarian",
+  "dietaryFlag.vegan": "Vegan",
+  "dietaryFlag.halal_uncertain": "Halal belum pasti",
+
+  "nutrient.protein": "Protein",
+  "nutrient.carbs": "Karbohidrat",
+  "nutrient.fat": "Lemak",
+  "nutrient.fiber": "Serat",
+  "nutrient.sodium": "Natrium",
+  "nutrient.potassium": "Kalium",
+  "nutrient.calcium": "Kalsium",
+  "nutrient.iron": "Zat besi",
+  "nutrient.vitaminA": "Vitamin A",
+  "nutrient.vitaminC": "Vitamin C",
+  "nutrient.cholesterol": "Kolesterol",
+  "nutrient.saturatedFat": "Lemak Jenuh",
+  "nutrient.addedSugar": "Gula Tambahan",
+  "nutrient.zinc": "Seng",
+  "nutrient.vitaminD": "Vitamin D",
+  "nutrient.vitaminB12": "Vitamin B12",
+  "nutrient.folate": "Folat",
+  "nutrient.iodine": "Yodium",
+
+  // Peringatan
+  "alerts.disclaimer.title": "Hanya untuk Edukasi",
+  "alerts.disclaimer.body":
+    "Analisis gizi ini hanya untuk tujuan edukasi dan informasi. Hasilnya berupa perkiraan dari analisis visual dan mungkin tidak sepenuhnya akurat. Selalu konsultasikan dengan tenaga kesehatan untuk saran gizi yang sesuai, terutama bagi anak dengan kebutuhan gizi khusus atau kondisi medis tertentu.",
+  "alerts.analyzing": "Menganalisis Makanan...",
+  "alerts.wait": "Mohon tunggu, kami sedang mengenali dan menganalisis kandungan gizi makanan Anda.",
+  "alerts.step.queued": "Dalam antrean",
+  "alerts.step.uploading": "Mengunggah gambar",
+  "alerts.step.modelCall": "Memanggil model",
+  "alerts.step.validating": "Memvalidasi hasil",
+  "alerts.attempt": "percobaan ke-{attempt}",
+  "alerts.fallback": "model cadangan",
+
+  // Riwayat makan
+  "history.back": "Kembali ke Analisis",
+  "history.title": "Riwayat Makan",
+  "history.period.week": "Minggu",
+  "history.period.month": "Bulan",
+  "history.period.all": "Semua",
+  "history.searchPlaceholder": "Cari makanan (mis. nasi goreng, fried rice)",
+  "history.totalMeals": "Total Makan",
+  "history.totalEnergy": "Total Energi ({unit})",
+  "history.avgPerMeal": "Rata-rata per Makan ({unit})",
+  "history.totalProtein": "Total Protein",
+  "history.loading": "Memuat riwayat makan...",
+  "history.noMatches.title": "Tidak ada makanan yang cocok",
+  "history.noMatches.description": "Tidak ada makanan pada periode ini yang berisi makanan tersebut.",
+  "history.empty.title": "Belum ada makanan tercatat",
+  "history.empty.description": "Mulai analisis makanan Anda untuk membangun riwayat gizi.",
+  "history.protein": "protein",
+  "history.carbs": "karbohidrat",
+  "history.fat": "lemak",
+  "history.itemsDetected": "Makanan terdeteksi:",
+  "history.calls": "{count} panggilan",
+  "history.mealNotFound": "Makanan tidak ditemukan",
+  "history.toast.deleted.title": "Makanan dihapus",
+  "history.toast.deleted.description": "Makanan telah dihapus dari riwayat Anda.",
+  "history.toast.deleteFailed.title": "Gagal menghapus",
+  "history.toast.deleteFailed.description": "Gagal menghapus makanan",
+
+  // Target gizi
+  "goals.loading": "Memuat target gizi...",
+  "goals.title": "Target Gizi",
+  "goals.subtitle": "Atur target gizi harian Anda",
+  "goals.targets.title": "Target Gizi Harian",
+  "goals.targets.description":
+    "Atur target gizi harian sesuai kebutuhan. Kosongkan kolom jika tidak ingin memantau zat gizi tersebut.",
+  "goals.field.calories": "Kalori Harian",
+  "goals.field.calories.hint": "Anjuran: {min}-{max} {unit} untuk dewasa",
+  "goals.field.protein": "Protein Harian",
+  "goals.field.protein.hint": "Anjuran: 0,8-1,2 g per kg berat badan",
+  "goals.field.carbs": "Karbohidrat Harian",
+  "goals.field.carbs.hint": "Anjuran: 45-65% dari total kalori",
+  "goals.field.fat": "Lemak Harian",
+  "goals.field.fat.hint": "Anjuran: 20-35% dari total kalori",
+  "goals.field.fiber": "Serat Harian",
+  "goals.field.fiber.hint": "Anjuran: 25 g untuk perempuan, 38 g untuk laki-laki",
+  "goals.childDefaults": "Anjuran untuk {name} (AKG 2019): {calories} {unit}, protein {protein} g, karbohidrat {carbs} g, lemak {fat} g, serat {fiber} g",
+  "goals.useChildDefaults": "Pakai anjuran",
+  "goals.save": "Simpan Target",
+  "goals.saving": "Menyimpan...",
+  "goals.current": "Target Saat Ini",
+  "goals.calories": "Kalori",
+  "goals.protein": "Protein",
+  "goals.carbs": "Karbohidrat",
+  "goals.fat": "Lemak",
+  "goals.fiber": "Serat",
+  "goals.tips": "Tips",
+  "goals.tip.1": "Mulai dari target kalori, lalu tambahkan target makronutrien secara bertahap",
+  "goals.tip.2": "Sesuaikan target dengan tingkat aktivitas dan tujuan kesehatan",
+  "goals.tip.3": "Catat makanan secara rutin untuk melihat perkembangannya",
+  "goals.tip.4": "Pertimbangkan berkonsultasi dengan ahli gizi untuk saran yang sesuai",
+  "goals.toast.saved.title": "Target tersimpan!",
+  "goals.toast.saved.description": "Target gizi Anda berhasil diperbarui.",
+  "goals.toast.saveFailed": "Gagal menyimpan target gizi",
+
+  // Resep
+  "recipes.title": "Resep",
+  "recipes.subtitle": "Masakan rumahan untuk dipakai ulang",
+  "recipes.new.title": "Resep Baru",
+  "recipes.new.description":
+    "Masukkan bahan mentah untuk satu kali masak dan jumlah porsi yang dihasilkan. Untuk gorengan, tambahkan minyak yang terserap sebagai bahan.",
+  "recipes.name": "Nama",
+  "recipes.portions": "Porsi",
+  "recipes.cookingMethod": "Cara memasak",
+  "recipes.ingredients": "Bahan",
+  "recipes.ingredient.placeholder": "Pilih bahan",
+  "recipes.ingredient.add": "Tambah bahan",
+  "recipes.preview.perPortion": "Per porsi (~{grams}g): {calories} kkal",
+  "recipes.preview.macros": "Protein {protein}g · Karbohidrat {carbs}g · Lemak {fat}g",
+  "recipes.save": "Simpan Resep",
+  "recipes.saved.title": "Resep Tersimpan",
+  "recipes.saved.description": "Pasangkan ke salah satu makanan di hasil analisis.",
+  "recipes.saved.none": "Belum ada resep.",
+  "recipes.saved.portions": "{method} · {count} porsi",
+  "recipes.saved.perPortion": "{calories} kkal per porsi ~{grams}g",
+  "recipes.error.incomplete": "Isi nama, jumlah porsi, dan minimal satu bahan",
+  "recipes.toast.saved.title": "Resep tersimpan!",
+  "recipes.toast.saved.description": "{name} sekarang dapat dipasangkan ke makanan yang difoto.",
+  "recipes.toast.saveFailed": "Gagal menyimpan resep",
+
+  // Kartu pengaturan (alergi, preferensi makanan, satuan)
+  "allergies.title": "Alergi Anak",
+  "allergies.description": "Makanan yang mengandung alergen ini akan ditandai setelah dianalisis.",
+  "dietary.title": "Preferensi Makanan",
+  "dietary.description": "Makanan yang dianalisis diperiksa berdasarkan aturan ini.",
+  "dietary.halal": "Halal",
+  "dietary.halal.hint": "Tandai babi, alkohol, dan makanan yang status halalnya belum pasti",
+  "dietary.vegetarian": "Vegetarian",
+  "dietary.vegetarian.hint": "Tandai daging dan ikan",
+  "dietary.vegan": "Vegan",
+  "dietary.vegan.hint": "Tandai semua produk hewani",
+  "dietary.avoid": "Bahan yang dihindari",
+  "dietary.avoid.placeholder": "mis. sapi, udang, santan",
+  "dietary.avoid.hint": "Pisahkan dengan koma; dicocokkan dengan nama makanan.",
+  "units.title": "Satuan",
+  "units.description": "Cara energi, berat makanan, dan desimal ditampilkan. Data tersimpan tidak berubah.",
+  "units.energy": "Energi",
+  "units.energy.kcal": "kilokalori (kkal)",
+  "units.energy.kJ": "kilojoule (kJ)",
+  "units.mass": "Berat makanan",
+  "units.mass.g": "gram (g)",
+  "units.mass.oz": "ounce (oz)",
+  "units.decimals": "Jumlah desimal",
+
+  // Rekomendasi
+  "recommendations.title": "Rekomendasi",
+  "recommendations.description": "Berdasarkan makanan {name} pada periode ini",
+  "recommendations.none": "Tidak ada yang perlu diperbaiki pada periode ini.",
+  "recommendations.priority.high": "tinggi",
+  "recommendations.priority.medium": "sedang",
+  "recommendations.priority.low": "rendah",
+
+  // Profil anak
+  "children.label": "Anak",
+  "children.add": "Tambah anak",
+  "children.edit": "Ubah profil",
+  "children.dialog.addTitle": "Tambah Anak",
+  "children.dialog.editTitle": "Ubah {name}",
+  "children.dialog.description": "Riwayat makan, target, dan alergi disimpan terpisah untuk setiap anak.",
+  "children.name": "Nama",
+  "children.birthDate": "Tanggal lahir",
+  "children.birthDate.future": "Tanggal lahir tidak boleh di masa depan",
+  "children.sex": "Jenis kelamin",
+  "children.sex.female": "Perempuan",
+  "children.sex.male": "Laki-laki",
+  "children.weight": "Berat badan (kg)",
+  "children.height": "Tinggi badan (cm)",
+  "children.optional": "Opsional",
+  "children.save": "Simpan Profil",
+  "children.none.title": "Belum ada profil anak",
+  "children.none.description": "Tambahkan anak untuk menyimpan makanan serta mengatur target dan alerginya.",
+  "children.toast.saveFailed": "Gagal menyimpan profil anak",
+
+  // Data karantina
+  "quarantine.title": "{count} data tersimpan tidak dapat dimuat",
+  "quarantine.description":
+    "Data ini disimpan dalam format yang tidak bisa dibaca versi aplikasi ini, sehingga tidak masuk ke riwayat. Unduh untuk menyimpan salinannya.",
+  "quarantine.goals": "Target gizi",
+  "quarantine.mealHistory": "Riwayat makan",
+  "quarantine.meal": "Makanan",
+  "quarantine.mealOf": "Makanan {date}",
+};
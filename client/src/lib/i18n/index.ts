@@ -0,0 +1,43 @@
+// Translation catalogs and locale-aware formatting. Components use them through useI18n();
+// these plain functions are for code outside React.
+import { format } from "date-fns";
+import { enUS, id as idLocale } from "date-fns/locale";
+import type { Language } from "@shared/schema";
+import { en, type MessageKey, type Messages } from "./en";
+import { id } from "./id";
+
+export type { MessageKey };
+export type TranslateParams = Record<string, string | number>;
+
+export const LANGUAGES: { code: Language; name: string }[] = [
+  { code: "id", name: "Bahasa Indonesia" },
+  { code: "en", name: "English" },
+];
+
+const CATALOGS: Record<Language, Messages> = { id, en };
+const NUMBER_LOCALES: Record<Language, string> = { id: "id-ID", en: "en-US" };
+const DATE_LOCALES = { id: idLocale, en: enUS };
+
+// Browsers set to Indonesian start in Indonesian, everything else in English
+export function detectLanguage(): Language {
+  return typeof navigator !== "undefined" && navigator.language?.toLowerCase().startsWith("id") ? "id" : "en";
+}
+
+export function formatNumber(value: number, language: Language, options: Intl.NumberFormatOptions = { maximumFractionDigits: 1 }): string {
+  return new Intl.NumberFormat(NUMBER_LOCALES[language], options).format(value);
+}
+
+export function formatDate(date: Date | string, language: Language, pattern?: string): string {
+  return format(new Date(date), pattern ?? translate(language, "format.dateTime"), { locale: DATE_LOCALES[language] });
+}
+
+// Number params are formatted for the language ("1.250" in Indonesian).
+export function translate(language: Language, key: MessageKey, params?: TranslateParams): string {
+  const message = CATALOGS[language][key] ?? en[key];
+  const template = typeof message === "string" ? message : params?.count === 1 ? message.one : message.other;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params?.[name];
+    if (value === undefined) return placeholder;
+    return typeof value === "number" ? formatNumber(value, language) : value;
+  });
+}
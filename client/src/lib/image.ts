@@ -1,4 +1,11 @@
 import type { BoundingBox } from "@shared/schema";
+import {
+  applyOrientationTransform,
+  browserAppliesExifOrientation,
+  readDataURLOrientation,
+  swapsDimensions,
+  type ExifOrientation,
+} from "./exif";
 
 export interface CanvasDrawInfo {
   scale: number;
@@ -35,55 +42,64 @@ export function bboxToPixels(
   };
 }
 
-export function fixImageOrientation(imageElement: HTMLImageElement): Promise<string> {
-  return new Promise((resolve) => {
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d')!;
-    
-    canvas.width = imageElement.naturalWidth;
-    canvas.height = imageElement.naturalHeight;
-    
-    // For now, just draw the image as-is
-    // In a production app, you'd read EXIF data and rotate accordingly
-    ctx.drawImage(imageElement, 0, 0);
-    
+// Draws `image` upright onto a new canvas, scaled down to fit `maxSize` if given.
+// Skips the EXIF transform where the browser has already applied it when decoding.
+function drawUpright(image: HTMLImageElement, orientation: ExifOrientation, maxSize?: number): HTMLCanvasElement | null {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const pending = browserAppliesExifOrientation() ? 1 : orientation;
+  // Stored (unrotated) size; naturalWidth is already upright when the browser applied the tag.
+  let width = image.naturalWidth;
+  let height = image.naturalHeight;
+  if (width === 0 || height === 0) return null;
+
+  if (maxSize && (width > maxSize || height > maxSize)) {
+    const ratio = Math.min(maxSize / width, maxSize / height);
+    width = Math.floor(width * ratio);
+    height = Math.floor(height * ratio);
+  }
+
+  const swap = swapsDimensions(pending);
+  canvas.width = swap ? height : width;
+  canvas.height = swap ? width : height;
+  applyOrientationTransform(ctx, pending, width, height);
+  ctx.drawImage(image, 0, 0, width, height);
+  return canvas;
+}
+
+// Bakes the EXIF orientation into the pixels. Canvas output carries no EXIF, so the server, the
+// model and the bbox overlay all see the photo the same way up.
+export function fixImageOrientation(imageElement: HTMLImageElement, orientation: ExifOrientation): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const canvas = drawUpright(imageElement, orientation);
+    if (!canvas) {
+      reject(new Error('Could not draw image'));
+      return;
+    }
     resolve(canvas.toDataURL('image/jpeg', 0.9));
   });
 }
 
-export function resizeImageIfNeeded(dataURL: string, maxSize: number = 1024): Promise<string> {
+// Also rotates the photo upright (see fixImageOrientation). `orientation` defaults to the EXIF
+// tag in `dataURL`; pass it when it was read from the original file.
+export function resizeImageIfNeeded(
+  dataURL: string,
+  maxSize: number = 1024,
+  orientation: ExifOrientation = readDataURLOrientation(dataURL),
+): Promise<string> {
   return new Promise((resolve, reject) => {
     const img = new Image();
     
     img.onload = () => {
       try {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        
-        if (!ctx) {
-          resolve(dataURL); // Return original if canvas fails
-          return;
-        }
-        
-        let { width, height } = img;
-        
-        // Check if image has valid dimensions
-        if (width === 0 || height === 0) {
-          resolve(dataURL); // Return original if dimensions are invalid
+        const canvas = drawUpright(img, orientation, maxSize);
+        if (!canvas) {
+          resolve(dataURL); // Return original if canvas fails or dimensions are invalid
           return;
         }
         
-        if (width > maxSize || height > maxSize) {
-          const ratio = Math.min(maxSize / width, maxSize / height);
-          width = Math.floor(width * ratio);
-          height = Math.floor(height * ratio);
-        }
-        
-        canvas.width = width;
-        canvas.height = height;
-        
-        ctx.drawImage(img, 0, 0, width, height);
-        
         // Start with high compression
         let quality = 0.7;
         let resizedDataURL = canvas.toDataURL('image/jpeg', quality);
@@ -0,0 +1,99 @@
+import { beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import type { NutritionAnalysis } from "@shared/schema";
+import { runLocalMigrations } from "./localMigrations";
+import { GOALS_KEY, LOCAL_SCHEMA_VERSION, MEALS_KEY, QUARANTINE_KEY, getQuarantine } from "./localStore";
+
+// In-memory localStorage: the migrations only need these four methods
+const storage = new Map<string, string>();
+globalThis.localStorage = {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => void storage.set(key, String(value)),
+  removeItem: (key: string) => void storage.delete(key),
+  clear: () => storage.clear(),
+} as Storage;
+
+beforeEach(() => storage.clear());
+
+const stored = (key: string) => JSON.parse(storage.get(key) ?? "null");
+
+const analysis: NutritionAnalysis = {
+  composition: [{
+    label: "gado-gado",
+    confidence: 0.9,
+    serving_est_g: 250,
+    bbox_norm: { x: 0, y: 0, w: 0.5, h: 0.5 },
+    nutrition: {
+      calories_kcal: 330,
+      macros: { protein_g: 14, carbs_g: 30, fat_g: 18, fiber_g: 6, sugar_g: 8 },
+      micros: { sodium_mg: 600, potassium_mg: 500, calcium_mg: 120, iron_mg: 3, vitamin_a_mcg: 200, vitamin_c_mg: 20, cholesterol_mg: 90 },
+      allergens: ["peanut sauce", "telur"],
+    },
+  }],
+  totals: {
+    serving_total_g: 250,
+    calories_kcal: 330,
+    macros: { protein_g: 14, carbs_g: 30, fat_g: 18, fiber_g: 6, sugar_g: 8 },
+    micros: { sodium_mg: 600, potassium_mg: 500, calcium_mg: 120, iron_mg: 3, vitamin_a_mcg: 200, vitamin_c_mg: 20, cholesterol_mg: 90 },
+    allergens: ["peanut sauce", "telur"],
+  },
+  image_meta: { width: 100, height: 100, orientation: "square" },
+  notes: "",
+};
+
+// A meal as saved before schema versions and child profiles
+const unversionedMeal = {
+  id: "m1",
+  mealType: "lunch",
+  analysisData: analysis,
+  consumedAt: "2025-01-01T12:00:00.000Z",
+  createdAt: "2025-01-01T12:00:00.000Z",
+};
+
+test("unversioned meals and goals are upgraded to the current version", () => {
+  storage.set(MEALS_KEY, JSON.stringify([unversionedMeal]));
+  storage.set(GOALS_KEY, JSON.stringify({ dailyCalories: 1400, updatedAt: "2025-01-01T12:00:00.000Z" }));
+
+  assert.deepEqual(runLocalMigrations(), { migrated: 2, quarantined: 0 });
+
+  const [meal] = stored(MEALS_KEY);
+  assert.equal(meal.schemaVersion, LOCAL_SCHEMA_VERSION);
+  assert.equal(meal.childId, null);
+  assert.deepEqual(meal.analysisData.totals.allergens, ["peanut", "egg"]);
+  assert.deepEqual(stored(GOALS_KEY), [
+    { dailyCalories: 1400, updatedAt: "2025-01-01T12:00:00.000Z", childId: null, schemaVersion: LOCAL_SCHEMA_VERSION },
+  ]);
+});
+
+test("current data is left as it is", () => {
+  storage.set(MEALS_KEY, JSON.stringify([unversionedMeal]));
+  runLocalMigrations();
+  const migrated = storage.get(MEALS_KEY);
+
+  assert.deepEqual(runLocalMigrations(), { migrated: 0, quarantined: 0 });
+  assert.equal(storage.get(MEALS_KEY), migrated);
+});
+
+test("records that cannot be used are quarantined one by one", () => {
+  const broken = { ...unversionedMeal, id: "m2", analysisData: { composition: "none" } };
+  const future = { ...unversionedMeal, id: "m3", schemaVersion: LOCAL_SCHEMA_VERSION + 1 };
+  storage.set(MEALS_KEY, JSON.stringify([unversionedMeal, broken, future]));
+
+  assert.deepEqual(runLocalMigrations(), { migrated: 1, quarantined: 2 });
+
+  assert.deepEqual(stored(MEALS_KEY).map((meal: { id: string }) => meal.id), ["m1"]);
+  const quarantine = getQuarantine();
+  assert.deepEqual(quarantine.map(entry => [entry.key, (entry.record as { id: string }).id]), [[MEALS_KEY, "m2"], [MEALS_KEY, "m3"]]);
+  assert.match(quarantine[1].error, /newer version/);
+});
+
+test("a key holding invalid JSON is quarantined whole", () => {
+  storage.set(MEALS_KEY, "[{not json");
+
+  assert.deepEqual(runLocalMigrations(), { migrated: 0, quarantined: 1 });
+
+  assert.equal(storage.has(MEALS_KEY), false);
+  const [entry] = stored(QUARANTINE_KEY);
+  assert.equal(entry.record, "[{not json");
+  assert.match(entry.error, /Invalid JSON/);
+});
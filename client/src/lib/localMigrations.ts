@@ -0,0 +1,187 @@
+// Upgrades meals and goals saved by older versions of the app to the current record shapes.
+// Runs once at startup (main.tsx), before anything reads localStorage. Records that cannot be
+// migrated or whose analysis no longer passes NutritionAnalysisSchema are moved to the
+// quarantine instead of breaking the history page.
+import { z } from "zod";
+import { NutritionAnalysisSchema } from "@shared/schema";
+import { standardizeAnalysisAllergens } from "@shared/allergens";
+import {
+  addToQuarantine,
+  GOALS_KEY,
+  LOCAL_SCHEMA_VERSION,
+  MEALS_KEY,
+  type LocalMeal,
+  type LocalNutritionGoals,
+} from "./localStore";
+
+type StoredRecord = Record<string, any>;
+
+interface Migration {
+  version: number; // version the record has after this step
+  description: string;
+  meal?: (meal: StoredRecord) => StoredRecord;
+  goals?: (goals: StoredRecord) => StoredRecord;
+}
+
+// Append only: one step per LOCAL_SCHEMA_VERSION bump. Records without a schemaVersion
+// predate versioning and count as version 0.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Canonical allergen codes with details",
+    meal: meal => ({ ...meal, analysisData: standardizeAnalysisAllergens(meal.analysisData) }),
+  },
+  {
+    // The goals key itself changes from one record to a list in migrateGoals
+    version: 2,
+    description: "Child profiles; older records are unassigned until the first profile claims them",
+    meal: meal => ({ ...meal, childId: meal.childId ?? null }),
+    goals: goals => ({ ...goals, childId: goals.childId ?? null }),
+  },
+];
+
+const LocalMealSchema = z.object({
+  schemaVersion: z.number(),
+  id: z.string(),
+  childId: z.string().nullable(),
+  mealType: z.string(),
+  analysisData: NutritionAnalysisSchema,
+  consumedAt: z.string(),
+  createdAt: z.string(),
+}).passthrough();
+
+const LocalGoalsSchema = z.object({
+  schemaVersion: z.number(),
+  childId: z.string().nullable(),
+  dailyCalories: z.number().nullish(),
+  dailyProtein: z.number().nullish(),
+  dailyCarbs: z.number().nullish(),
+  dailyFat: z.number().nullish(),
+  dailyFiber: z.number().nullish(),
+  updatedAt: z.string(),
+}).passthrough();
+
+export interface MigrationReport {
+  migrated: number;
+  quarantined: number;
+}
+
+function recordVersion(record: StoredRecord): number {
+  return typeof record.schemaVersion === "number" ? record.schemaVersion : 0;
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof z.ZodError) {
+    return error.issues.slice(0, 3).map(issue => `${issue.path.join(".") || "record"}: ${issue.message}`).join("; ");
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Runs the pending steps and validates the result; throws when the record is unusable.
+// The validated shape is only checked, the stored record keeps any fields the schema omits.
+function migrateRecord(record: unknown, kind: "meal" | "goals", schema: z.ZodTypeAny): StoredRecord {
+  if (!record || typeof record !== "object" || Array.isArray(record)) {
+    throw new Error("Record is not an object");
+  }
+  let migrated = record as StoredRecord;
+  const version = recordVersion(migrated);
+  if (version > LOCAL_SCHEMA_VERSION) {
+    throw new Error(`Saved by a newer version of the app (schema v${version})`);
+  }
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= version) continue;
+    const step = migration[kind];
+    try {
+      migrated = { ...(step ? step(migrated) : migrated), schemaVersion: migration.version };
+    } catch (error) {
+      throw new Error(`Migration to v${migration.version} failed: ${describeError(error)}`);
+    }
+  }
+  schema.parse(migrated);
+  return migrated;
+}
+
+function readStored(key: string): { value?: unknown; error?: string } {
+  const stored = localStorage.getItem(key);
+  if (stored === null) return {};
+  try {
+    return { value: JSON.parse(stored) };
+  } catch (error) {
+    return { error: `Invalid JSON: ${describeError(error)}` };
+  }
+}
+
+function quarantineKey(key: string, error: string, report: MigrationReport): void {
+  addToQuarantine([{ key, record: localStorage.getItem(key), error }]);
+  localStorage.removeItem(key);
+  report.quarantined++;
+}
+
+// Migrates each record of a stored list; records that fail are quarantined one by one.
+// The list is written back when anything changed or `rewrite` is set.
+function migrateList<T>(
+  key: string,
+  records: unknown[],
+  kind: "meal" | "goals",
+  schema: z.ZodTypeAny,
+  report: MigrationReport,
+  rewrite = false,
+): void {
+  const migrated: T[] = [];
+  const rejected: { key: string; record: unknown; error: string }[] = [];
+  let changed = rewrite;
+  for (const record of records) {
+    try {
+      const result = migrateRecord(record, kind, schema);
+      if (result !== record) {
+        changed = true;
+        report.migrated++;
+      }
+      migrated.push(result as T);
+    } catch (recordError) {
+      rejected.push({ key, record, error: describeError(recordError) });
+    }
+  }
+  if (!changed && rejected.length === 0) return;
+
+  addToQuarantine(rejected);
+  report.quarantined += rejected.length;
+  localStorage.setItem(key, JSON.stringify(migrated));
+}
+
+function migrateMeals(report: MigrationReport): void {
+  const { value, error } = readStored(MEALS_KEY);
+  if (error || (value !== undefined && !Array.isArray(value))) {
+    quarantineKey(MEALS_KEY, error ?? "Meal list is not an array", report);
+    return;
+  }
+  if (!value) return;
+  migrateList<LocalMeal>(MEALS_KEY, value as unknown[], "meal", LocalMealSchema, report);
+}
+
+function migrateGoals(report: MigrationReport): void {
+  const { value, error } = readStored(GOALS_KEY);
+  if (error) {
+    quarantineKey(GOALS_KEY, error, report);
+    return;
+  }
+  if (value === undefined) return;
+  // Before child profiles the key held a single goal set
+  const isList = Array.isArray(value);
+  migrateList<LocalNutritionGoals>(GOALS_KEY, isList ? value : [value], "goals", LocalGoalsSchema, report, !isList);
+}
+
+export function runLocalMigrations(): MigrationReport {
+  const report: MigrationReport = { migrated: 0, quarantined: 0 };
+  try {
+    migrateMeals(report);
+    migrateGoals(report);
+  } catch (error) {
+    // Storage unavailable or full: leave the data as it is and let the app start
+    console.error("Failed to migrate local data:", error);
+  }
+  if (report.migrated > 0 || report.quarantined > 0) {
+    console.info(`Local data migrated to schema v${LOCAL_SCHEMA_VERSION}:`, report);
+  }
+  return report;
+}
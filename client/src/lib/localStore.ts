@@ -1,7 +1,17 @@
-import type { NutritionAnalysis, NutritionGoals } from "@shared/schema";
+import { LanguageSchema, UnitPreferencesSchema } from "@shared/schema";
+import type { ChildAllergy, ChildProfile, DietaryPreferences, Language, NutritionAnalysis, Recipe, UnitPreferences } from "@shared/schema";
+import { DEFAULT_UNIT_PREFERENCES } from "@shared/units";
 
+// Version of the stored record shapes. Bump it together with a new step in
+// localMigrations.ts whenever a stored shape (including NutritionAnalysis) changes.
+export const LOCAL_SCHEMA_VERSION = 2;
+
+// Meals and goals saved before child profiles existed have no owner (childId null) until the
+// first profile is created and claims them.
 export interface LocalMeal {
+  schemaVersion: number;
   id: string;
+  childId: string | null;
   name?: string;
   mealType: string;
   analysisData: NutritionAnalysis;
@@ -11,7 +21,10 @@ export interface LocalMeal {
   createdAt: string; // ISO string
 }
 
+// One goal set per child
 export interface LocalNutritionGoals {
+  schemaVersion: number;
+  childId: string | null;
   dailyCalories?: number | null;
   dailyProtein?: number | null;
   dailyCarbs?: number | null;
@@ -20,20 +33,34 @@ export interface LocalNutritionGoals {
   updatedAt: string; // ISO string
 }
 
-const MEALS_KEY = 'nutrition:meals';
-const GOALS_KEY = 'nutrition:goals';
+export const MEALS_KEY = 'nutrition:meals';
+export const GOALS_KEY = 'nutrition:goals';
+export const QUARANTINE_KEY = 'nutrition:quarantine';
+const RECIPES_KEY = 'nutrition:recipes';
+const ALLERGIES_KEY = 'nutrition:allergies'; // allergies saved before child profiles; claimed by the first profile
+const CHILDREN_KEY = 'nutrition:children';
+const ACTIVE_CHILD_KEY = 'nutrition:activeChild';
+const DIETARY_KEY = 'nutrition:dietary';
+const LANGUAGE_KEY = 'nutrition:language';
+const UNITS_KEY = 'nutrition:units';
 
-// Meal functions
-export function getMeals(): LocalMeal[] {
+// Meal functions. Meals, goals and allergies are read and written for the active child.
+function getAllMeals(): LocalMeal[] {
   try {
     const stored = localStorage.getItem(MEALS_KEY);
-    return stored ? JSON.parse(stored) : [];
+    const meals = stored ? JSON.parse(stored) : [];
+    return Array.isArray(meals) ? meals : [];
   } catch (error) {
     console.error('Failed to load meals from localStorage:', error);
     return [];
   }
 }
 
+export function getMeals(): LocalMeal[] {
+  const child = getActiveChildProfile();
+  return child ? getAllMeals().filter(meal => meal.childId === child.id) : [];
+}
+
 export function addMeal(mealData: {
   mealType: string;
   name?: string;
@@ -41,9 +68,16 @@ export function addMeal(mealData: {
   analysisData: NutritionAnalysis;
   imageUrl?: string;
 }): LocalMeal {
-  const meals = getMeals();
+  const child = getActiveChildProfile();
+  if (!child) {
+    throw new Error('Add a child profile before saving meals');
+  }
+
+  const meals = getAllMeals();
   const newMeal: LocalMeal = {
+    schemaVersion: LOCAL_SCHEMA_VERSION,
     id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+    childId: child.id,
     ...mealData,
     consumedAt: new Date().toISOString(),
     createdAt: new Date().toISOString(),
@@ -63,7 +97,7 @@ export function addMeal(mealData: {
 
 export function deleteMeal(mealId: string): boolean {
   try {
-    const meals = getMeals();
+    const meals = getAllMeals();
     const filtered = meals.filter(meal => meal.id !== mealId);
     
     if (filtered.length === meals.length) {
@@ -87,16 +121,22 @@ export function getMealsByDateRange(startDate: Date, endDate: Date): LocalMeal[]
 }
 
 // Nutrition goals functions
-export function getGoals(): LocalNutritionGoals | null {
+function getAllGoals(): LocalNutritionGoals[] {
   try {
     const stored = localStorage.getItem(GOALS_KEY);
-    return stored ? JSON.parse(stored) : null;
+    const goals = stored ? JSON.parse(stored) : [];
+    return Array.isArray(goals) ? goals : [];
   } catch (error) {
     console.error('Failed to load goals from localStorage:', error);
-    return null;
+    return [];
   }
 }
 
+export function getGoals(): LocalNutritionGoals | null {
+  const child = getActiveChildProfile();
+  return (child && getAllGoals().find(goals => goals.childId === child.id)) || null;
+}
+
 export function setGoals(goalsData: {
   dailyCalories?: number | null;
   dailyProtein?: number | null;
@@ -104,13 +144,23 @@ export function setGoals(goalsData: {
   dailyFat?: number | null;
   dailyFiber?: number | null;
 }): LocalNutritionGoals {
+  const child = getActiveChildProfile();
+  if (!child) {
+    throw new Error('Add a child profile before setting goals');
+  }
+
   const goals: LocalNutritionGoals = {
+    schemaVersion: LOCAL_SCHEMA_VERSION,
+    childId: child.id,
     ...goalsData,
     updatedAt: new Date().toISOString(),
   };
   
   try {
-    localStorage.setItem(GOALS_KEY, JSON.stringify(goals));
+    localStorage.setItem(GOALS_KEY, JSON.stringify([
+      ...getAllGoals().filter(existing => existing.childId !== child.id),
+      goals,
+    ]));
   } catch (error) {
     console.error('Failed to save goals to localStorage:', error);
     throw new Error('Failed to save goals');
@@ -119,11 +169,294 @@ export function setGoals(goalsData: {
   return goals;
 }
 
+// Recipe functions
+export function getRecipes(): Recipe[] {
+  try {
+    const stored = localStorage.getItem(RECIPES_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Failed to load recipes from localStorage:', error);
+    return [];
+  }
+}
+
+export function addRecipe(recipeData: Omit<Recipe, 'id' | 'created_at'>): Recipe {
+  const recipes = getRecipes();
+  const newRecipe: Recipe = {
+    id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+    ...recipeData,
+    created_at: new Date().toISOString(),
+  };
+
+  recipes.unshift(newRecipe);
+
+  try {
+    localStorage.setItem(RECIPES_KEY, JSON.stringify(recipes));
+  } catch (error) {
+    console.error('Failed to save recipe to localStorage:', error);
+    throw new Error('Failed to save recipe');
+  }
+
+  return newRecipe;
+}
+
+export function deleteRecipe(recipeId: string): boolean {
+  try {
+    const recipes = getRecipes();
+    const filtered = recipes.filter(recipe => recipe.id !== recipeId);
+
+    if (filtered.length === recipes.length) {
+      return false; // Recipe not found
+    }
+
+    localStorage.setItem(RECIPES_KEY, JSON.stringify(filtered));
+    return true;
+  } catch (error) {
+    console.error('Failed to delete recipe from localStorage:', error);
+    return false;
+  }
+}
+
+// Child allergy functions
+export function getAllergies(): ChildAllergy[] {
+  return getActiveChildProfile()?.allergies ?? [];
+}
+
+export function setAllergies(allergies: ChildAllergy[]): ChildAllergy[] {
+  const child = getActiveChildProfile();
+  if (!child) {
+    throw new Error('Add a child profile before setting allergies');
+  }
+
+  updateChildProfile(child.id, { allergies });
+  return allergies;
+}
+
+// Child profile functions
+export type ChildProfileDetails = Pick<ChildProfile, 'name' | 'birthDate' | 'sex' | 'weightKg' | 'heightCm'>;
+
+export function getChildProfiles(): ChildProfile[] {
+  try {
+    const stored = localStorage.getItem(CHILDREN_KEY);
+    const profiles = stored ? JSON.parse(stored) : [];
+    return Array.isArray(profiles) ? profiles : [];
+  } catch (error) {
+    console.error('Failed to load child profiles from localStorage:', error);
+    return [];
+  }
+}
+
+function saveChildProfiles(profiles: ChildProfile[]): void {
+  try {
+    localStorage.setItem(CHILDREN_KEY, JSON.stringify(profiles));
+  } catch (error) {
+    console.error('Failed to save child profiles to localStorage:', error);
+    throw new Error('Failed to save child profile');
+  }
+}
+
+// The selected child, falling back to the first profile; null when there is none yet
+export function getActiveChildProfile(): ChildProfile | null {
+  const profiles = getChildProfiles();
+  try {
+    const activeId = localStorage.getItem(ACTIVE_CHILD_KEY);
+    return profiles.find(profile => profile.id === activeId) ?? profiles[0] ?? null;
+  } catch (error) {
+    console.error('Failed to load active child from localStorage:', error);
+    return profiles[0] ?? null;
+  }
+}
+
+export function setActiveChildProfile(childId: string): void {
+  try {
+    localStorage.setItem(ACTIVE_CHILD_KEY, childId);
+  } catch (error) {
+    console.error('Failed to save active child to localStorage:', error);
+    throw new Error('Failed to switch child');
+  }
+}
+
+// Adds a profile and selects it. The first profile also takes over meals, goals and
+// allergies saved before profiles existed.
+export function addChildProfile(details: ChildProfileDetails): ChildProfile {
+  const profiles = getChildProfiles();
+  const isFirst = profiles.length === 0;
+  const profile: ChildProfile = {
+    id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+    ...details,
+    allergies: isFirst ? getUnassignedAllergies() : [],
+    createdAt: new Date().toISOString(),
+  };
+
+  saveChildProfiles([...profiles, profile]);
+  if (isFirst) {
+    claimUnassignedRecords(profile.id);
+  }
+  setActiveChildProfile(profile.id);
+
+  return profile;
+}
+
+export function updateChildProfile(childId: string, changes: Partial<Omit<ChildProfile, 'id' | 'createdAt'>>): ChildProfile {
+  const profiles = getChildProfiles();
+  const existing = profiles.find(profile => profile.id === childId);
+  if (!existing) {
+    throw new Error('Child profile not found');
+  }
+
+  const updated: ChildProfile = { ...existing, ...changes };
+  saveChildProfiles(profiles.map(profile => profile.id === childId ? updated : profile));
+  return updated;
+}
+
+function getUnassignedAllergies(): ChildAllergy[] {
+  try {
+    const stored = localStorage.getItem(ALLERGIES_KEY);
+    const allergies = stored ? JSON.parse(stored) : [];
+    return Array.isArray(allergies) ? allergies : [];
+  } catch (error) {
+    console.error('Failed to load allergies from localStorage:', error);
+    return [];
+  }
+}
+
+function claimUnassignedRecords(childId: string): void {
+  try {
+    localStorage.setItem(MEALS_KEY, JSON.stringify(
+      getAllMeals().map(meal => meal.childId ? meal : { ...meal, childId })
+    ));
+    localStorage.setItem(GOALS_KEY, JSON.stringify(
+      getAllGoals().map(goals => goals.childId ? goals : { ...goals, childId })
+    ));
+    localStorage.removeItem(ALLERGIES_KEY);
+  } catch (error) {
+    console.error('Failed to assign saved records to child profile:', error);
+    throw new Error('Failed to save child profile');
+  }
+}
+
+// Dietary preference functions
+export const DEFAULT_DIETARY_PREFERENCES: DietaryPreferences = { halal: false, vegetarian: false, vegan: false, avoid: [] };
+
+export function getDietaryPreferences(): DietaryPreferences {
+  try {
+    const stored = localStorage.getItem(DIETARY_KEY);
+    return stored ? { ...DEFAULT_DIETARY_PREFERENCES, ...JSON.parse(stored) } : DEFAULT_DIETARY_PREFERENCES;
+  } catch (error) {
+    console.error('Failed to load dietary preferences from localStorage:', error);
+    return DEFAULT_DIETARY_PREFERENCES;
+  }
+}
+
+export function setDietaryPreferences(preferences: DietaryPreferences): DietaryPreferences {
+  try {
+    localStorage.setItem(DIETARY_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.error('Failed to save dietary preferences to localStorage:', error);
+    throw new Error('Failed to save dietary preferences');
+  }
+
+  return preferences;
+}
+
+// Chosen UI language; null until the user picks one (the app then follows the browser)
+export function getLanguage(): Language | null {
+  try {
+    const parsed = LanguageSchema.safeParse(localStorage.getItem(LANGUAGE_KEY));
+    return parsed.success ? parsed.data : null;
+  } catch (error) {
+    console.error('Failed to load language from localStorage:', error);
+    return null;
+  }
+}
+
+export function setLanguage(language: Language): Language {
+  try {
+    localStorage.setItem(LANGUAGE_KEY, language);
+  } catch (error) {
+    console.error('Failed to save language to localStorage:', error);
+    throw new Error('Failed to save language');
+  }
+
+  return language;
+}
+
+// Display units only; meals and goals are always stored in kcal and grams
+export function getUnitPreferences(): UnitPreferences {
+  try {
+    const stored = localStorage.getItem(UNITS_KEY);
+    if (!stored) return DEFAULT_UNIT_PREFERENCES;
+    const parsed = UnitPreferencesSchema.safeParse({ ...DEFAULT_UNIT_PREFERENCES, ...JSON.parse(stored) });
+    return parsed.success ? parsed.data : DEFAULT_UNIT_PREFERENCES;
+  } catch (error) {
+    console.error('Failed to load unit preferences from localStorage:', error);
+    return DEFAULT_UNIT_PREFERENCES;
+  }
+}
+
+export function setUnitPreferences(preferences: UnitPreferences): UnitPreferences {
+  try {
+    localStorage.setItem(UNITS_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.error('Failed to save unit preferences to localStorage:', error);
+    throw new Error('Failed to save unit preferences');
+  }
+
+  return preferences;
+}
+
+// Quarantined records: stored data that could not be migrated or failed validation
+// (see localMigrations.ts). Kept so the user can download it instead of losing it silently.
+export interface QuarantinedRecord {
+  key: string; // storage key the record came from
+  record: unknown; // as stored (a string when the key held invalid JSON)
+  error: string;
+  quarantinedAt: string; // ISO string
+}
+
+export function getQuarantine(): QuarantinedRecord[] {
+  try {
+    const stored = localStorage.getItem(QUARANTINE_KEY);
+    const records = stored ? JSON.parse(stored) : [];
+    return Array.isArray(records) ? records : [];
+  } catch (error) {
+    console.error('Failed to load quarantined records from localStorage:', error);
+    return [];
+  }
+}
+
+export function addToQuarantine(records: Omit<QuarantinedRecord, 'quarantinedAt'>[]): void {
+  if (records.length === 0) return;
+  const quarantinedAt = new Date().toISOString();
+  try {
+    localStorage.setItem(QUARANTINE_KEY, JSON.stringify([
+      ...getQuarantine(),
+      ...records.map(record => ({ ...record, quarantinedAt })),
+    ]));
+  } catch (error) {
+    console.error('Failed to quarantine records in localStorage:', error);
+  }
+}
+
+export function clearQuarantine(): void {
+  try {
+    localStorage.removeItem(QUARANTINE_KEY);
+  } catch (error) {
+    console.error('Failed to clear quarantined records:', error);
+  }
+}
+
 // Utility function to clear all local data
 export function clearAllData(): void {
   try {
     localStorage.removeItem(MEALS_KEY);
     localStorage.removeItem(GOALS_KEY);
+    localStorage.removeItem(RECIPES_KEY);
+    localStorage.removeItem(ALLERGIES_KEY);
+    localStorage.removeItem(DIETARY_KEY);
+    localStorage.removeItem(QUARANTINE_KEY);
+    localStorage.removeItem(CHILDREN_KEY);
+    localStorage.removeItem(ACTIVE_CHILD_KEY);
   } catch (error) {
     console.error('Failed to clear local data:', error);
   }
@@ -1,5 +1,8 @@
 import { createRoot } from "react-dom/client";
 import App from "./App";
+import { runLocalMigrations } from "./lib/localMigrations";
 import "./index.css";
 
+runLocalMigrations();
+
 createRoot(document.getElementById("root")!).render(<App />);
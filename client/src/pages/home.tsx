@@ -1,73 +1,175 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Camera, Upload, History, Save, Target } from "lucide-react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Camera, Upload, History, Save, Target, PencilLine, ChefHat } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { CameraPanel } from "@/components/camera-panel";
 import { UploadPanel } from "@/components/upload-panel";
+import { DescribePanel } from "@/components/describe-panel";
+import { CompositionEditor } from "@/components/composition-editor";
 import { OverlayCanvas } from "@/components/overlay-canvas";
 import { NutritionTables } from "@/components/nutrition-tables";
 import { Downloads } from "@/components/downloads";
+import { ReferencePicker } from "@/components/reference-picker";
 import { EducationalDisclaimer, LoadingOverlay } from "@/components/alerts";
 import { MealHistory } from "@/pages/meal-history";
 import { NutritionGoalsPage } from "@/pages/nutrition-goals";
-import { apiRequest } from "@/lib/queryClient";
+import { RecipesPage } from "@/pages/recipes";
+import { AnalysisCancelledError, runAnalysisJob, runTextAnalysis } from "@/lib/analysisJobs";
 import { useToast } from "@/hooks/use-toast";
-import { addMeal } from "@/lib/localStore";
-import type { NutritionAnalysis } from "@shared/schema";
+import { useI18n } from "@/hooks/use-i18n";
+import { useUnits } from "@/hooks/use-units";
+import { LanguageSwitcher } from "@/components/language-switcher";
+import { ChildSwitcher } from "@/components/child-switcher";
+import { useChildProfiles } from "@/hooks/use-child-profiles";
+import { addMeal, DEFAULT_DIETARY_PREFERENCES, getAllergies, getDietaryPreferences, getRecipes } from "@/lib/localStore";
+import { withServingsEaten } from "@shared/composition-edits";
+import { withRecipe } from "@shared/recipes";
+import { getReferenceObject } from "@shared/reference-objects";
+import type {
+  AnalysisJobEvent,
+  AnalysisSource,
+  BoundingBox,
+  Calibration,
+  NutritionAnalysis,
+  ReferenceObjectId,
+} from "@shared/schema";
 
 export default function Home() {
   const [activeTab, setActiveTab] = useState("camera");
   const [analysisResult, setAnalysisResult] = useState<NutritionAnalysis | null>(null);
   const [analyzedImageUrl, setAnalyzedImageUrl] = useState<string>("");
+  // Set instead of analyzedImageUrl when the meal was described in text
+  const [analyzedDescription, setAnalyzedDescription] = useState<string>("");
   const [showMealHistory, setShowMealHistory] = useState(false);
   const [showNutritionGoals, setShowNutritionGoals] = useState(false);
+  const [showRecipes, setShowRecipes] = useState(false);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisJobEvent | null>(null);
+  const [answeredBy, setAnsweredBy] = useState<AnalysisJobEvent | null>(null);
+  const [ensembleMode, setEnsembleMode] = useState(false);
+  const [labelMode, setLabelMode] = useState(false);
+  const [referenceObject, setReferenceObject] = useState<ReferenceObjectId | null>(null);
+  const [referenceBox, setReferenceBox] = useState<BoundingBox | undefined>();
+  const abortRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
+  const { t, language } = useI18n();
+  const { energyLabel, formatEnergy } = useUnits();
+  const { activeProfile } = useChildProfiles();
   const queryClient = useQueryClient();
 
+  const { data: recipes = [] } = useQuery({
+    queryKey: ['recipes'],
+    queryFn: async () => getRecipes(),
+  });
+
+  const { data: allergies = [] } = useQuery({
+    queryKey: ['allergies'],
+    queryFn: async () => getAllergies(),
+  });
+
+  const { data: dietaryPreferences = DEFAULT_DIETARY_PREFERENCES } = useQuery({
+    queryKey: ['dietary'],
+    queryFn: async () => getDietaryPreferences(),
+  });
+
+  const startAnalysisJob = (dataURL: string, source: AnalysisSource) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setAnalysisProgress(null);
+    setAnsweredBy(null);
+    return runAnalysisJob(dataURL, source, {
+      mode: labelMode ? 'label' : ensembleMode ? 'ensemble' : 'single',
+      // Only uploads can be marked; for camera captures the model locates the object
+      reference: referenceObject && !labelMode
+        ? { object: referenceObject, bbox_norm: source === 'image' ? referenceBox : undefined }
+        : undefined,
+      signal: controller.signal,
+      onEvent: (event) => {
+        setAnalysisProgress(event);
+        if (event.stage === 'done') setAnsweredBy(event);
+      },
+    });
+  };
+
+  const showAnalysisError = (error: Error, fallbackMessage: string) => {
+    if (error instanceof AnalysisCancelledError) {
+      toast({ title: t("home.toast.cancelled.title"), description: t("home.toast.cancelled.description") });
+      return;
+    }
+    toast({
+      title: t("home.toast.failed.title"),
+      description: error.message || fallbackMessage,
+      variant: "destructive",
+    });
+  };
+
+  const showAnalysisComplete = (data: NutritionAnalysis) => {
+    if (data.composition.some(item => item.label_panel)) {
+      toast({
+        title: t("home.toast.labelRead.title"),
+        description: t("home.toast.labelRead.description"),
+      });
+      return;
+    }
+    toast({
+      title: t("home.toast.complete.title"),
+      description: t("home.toast.detected", { count: data.composition.length }),
+    });
+  };
+
+  // Results saved before calibration had a code show the server's English message
+  const calibrationText = (calibration: Calibration) => calibration.code
+    ? t(`home.calibration.${calibration.code}`, {
+      ...calibration.params,
+      reference: getReferenceObject(calibration.reference).names[language],
+    })
+    : calibration.message;
+
   const cameraMutation = useMutation({
-    mutationFn: async (dataURL: string) => {
-      const response = await apiRequest("POST", "/api/analyze-camera", { dataURL });
-      return response.json();
-    },
+    mutationFn: (dataURL: string) => startAnalysisJob(dataURL, 'camera'),
     onSuccess: (data: NutritionAnalysis, dataURL: string) => {
       setAnalysisResult(data);
       setAnalyzedImageUrl(dataURL);
-      toast({
-        title: "Analysis Complete",
-        description: `Detected ${data.composition.length} food items`,
-      });
-    },
-    onError: (error: Error) => {
-      toast({
-        title: "Analysis Failed",
-        description: error.message || "Camera analysis failed",
-        variant: "destructive",
-      });
+      setAnalyzedDescription("");
+      showAnalysisComplete(data);
     },
+    onError: (error: Error) => showAnalysisError(error, t("home.toast.cameraFailed")),
   });
 
   const uploadMutation = useMutation({
-    mutationFn: async (dataURL: string) => {
-      const response = await apiRequest("POST", "/api/analyze-image", { dataURL });
-      return response.json();
-    },
+    mutationFn: (dataURL: string) => startAnalysisJob(dataURL, 'image'),
     onSuccess: (data: NutritionAnalysis, dataURL: string) => {
       setAnalysisResult(data);
       setAnalyzedImageUrl(dataURL);
-      toast({
-        title: "Analysis Complete",
-        description: `Detected ${data.composition.length} food items`,
-      });
+      setAnalyzedDescription("");
+      showAnalysisComplete(data);
     },
-    onError: (error: Error) => {
+    onError: (error: Error) => showAnalysisError(error, t("home.toast.uploadFailed")),
+  });
+
+  const describeMutation = useMutation({
+    mutationFn: (description: string) => {
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setAnalysisProgress(null);
+      setAnsweredBy(null);
+      return runTextAnalysis(description, { signal: controller.signal });
+    },
+    onSuccess: (data: NutritionAnalysis, description: string) => {
+      setAnalysisResult(data);
+      setAnalyzedImageUrl("");
+      setAnalyzedDescription(description);
       toast({
-        title: "Analysis Failed",
-        description: error.message || "Image analysis failed",
-        variant: "destructive",
+        title: t("home.toast.complete.title"),
+        description: t("home.toast.estimated", { count: data.composition.length }),
       });
     },
+    onError: (error: Error) => showAnalysisError(error, t("home.toast.describeFailed")),
   });
 
   const saveMealMutation = useMutation({
@@ -83,20 +185,20 @@ export default function Home() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['meals'] });
       toast({
-        title: "Meal saved!",
-        description: "Your meal has been added to your history.",
+        title: t("home.toast.saved.title"),
+        description: t("home.toast.saved.description"),
       });
     },
     onError: (error: Error) => {
       toast({
         variant: "destructive",
-        title: "Save failed",
-        description: error.message || "Failed to save meal",
+        title: t("common.saveFailed"),
+        description: error.message || t("home.toast.saveFailed"),
       });
     },
   });
 
-  const isAnalyzing = cameraMutation.isPending || uploadMutation.isPending;
+  const isAnalyzing = cameraMutation.isPending || uploadMutation.isPending || describeMutation.isPending;
 
   const handleCameraCapture = (dataURL: string) => {
     cameraMutation.mutate(dataURL);
@@ -106,6 +208,10 @@ export default function Home() {
     uploadMutation.mutate(dataURL);
   };
 
+  const handleDescribe = (description: string) => {
+    describeMutation.mutate(description);
+  };
+
   // Handle navigation to other pages after all hooks are defined
   if (showMealHistory) {
     return <MealHistory onBack={() => setShowMealHistory(false)} />;
@@ -115,6 +221,10 @@ export default function Home() {
     return <NutritionGoalsPage onBack={() => setShowNutritionGoals(false)} />;
   }
 
+  if (showRecipes) {
+    return <RecipesPage onBack={() => setShowRecipes(false)} />;
+  }
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -131,12 +241,16 @@ export default function Home() {
               </div>
               <div>
                 <h1 className="text-xl font-bold text-foreground">Kids B-Care</h1>
-                <p className="text-sm text-muted-foreground">Food Nutrition Analysis</p>
+                <p className="text-sm text-muted-foreground">{t("home.subtitle")}</p>
               </div>
             </div>
 
             {/* User Actions */}
             <div className="flex items-center space-x-4">
+              <ChildSwitcher />
+
+              <LanguageSwitcher />
+
               <Button
                 variant="outline"
                 onClick={() => setShowNutritionGoals(true)}
@@ -144,7 +258,17 @@ export default function Home() {
                 data-testid="button-nutrition-goals"
               >
                 <Target className="h-4 w-4" />
-                <span>Goals</span>
+                <span>{t("home.nav.goals")}</span>
+              </Button>
+
+              <Button
+                variant="outline"
+                onClick={() => setShowRecipes(true)}
+                className="flex items-center space-x-2"
+                data-testid="button-recipes"
+              >
+                <ChefHat className="h-4 w-4" />
+                <span>{t("home.nav.recipes")}</span>
               </Button>
               
               <Button
@@ -154,7 +278,7 @@ export default function Home() {
                 data-testid="button-meal-history"
               >
                 <History className="h-4 w-4" />
-                <span>History</span>
+                <span>{t("home.nav.history")}</span>
               </Button>
             </div>
           </div>
@@ -166,14 +290,14 @@ export default function Home() {
         {/* Tab Navigation */}
         <div className="mb-6">
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-2 bg-muted p-1 rounded-lg">
+            <TabsList className="grid w-full grid-cols-3 bg-muted p-1 rounded-lg">
               <TabsTrigger 
                 value="camera" 
                 className="flex items-center space-x-2"
                 data-testid="tab-camera"
               >
                 <Camera className="w-5 h-5" />
-                <span>Camera</span>
+                <span>{t("home.tab.camera")}</span>
               </TabsTrigger>
               <TabsTrigger 
                 value="upload" 
@@ -181,10 +305,56 @@ export default function Home() {
                 data-testid="tab-upload"
               >
                 <Upload className="w-5 h-5" />
-                <span>Upload</span>
+                <span>{t("home.tab.upload")}</span>
+              </TabsTrigger>
+              <TabsTrigger 
+                value="describe" 
+                className="flex items-center space-x-2"
+                data-testid="tab-describe"
+              >
+                <PencilLine className="w-5 h-5" />
+                <span>{t("home.tab.describe")}</span>
               </TabsTrigger>
             </TabsList>
 
+            {/* Photo-only options */}
+            {activeTab !== "describe" && (
+              <div className="flex flex-wrap items-center justify-end gap-4 mt-3">
+                <ReferencePicker
+                  value={referenceObject}
+                  onChange={(value) => {
+                    setReferenceObject(value);
+                    setReferenceBox(undefined);
+                  }}
+                  disabled={isAnalyzing || labelMode}
+                />
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="label-mode"
+                    checked={labelMode}
+                    onCheckedChange={setLabelMode}
+                    disabled={isAnalyzing}
+                    data-testid="switch-label-mode"
+                  />
+                  <Label htmlFor="label-mode" className="text-sm text-muted-foreground">
+                    {t("home.labelMode")}
+                  </Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="ensemble-mode"
+                    checked={ensembleMode && !labelMode}
+                    onCheckedChange={setEnsembleMode}
+                    disabled={isAnalyzing || labelMode}
+                    data-testid="switch-ensemble-mode"
+                  />
+                  <Label htmlFor="ensemble-mode" className="text-sm text-muted-foreground">
+                    {t("home.ensembleMode")}
+                  </Label>
+                </div>
+              </div>
+            )}
+
             {/* Camera Panel */}
             <TabsContent value="camera" className="mt-6">
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -197,19 +367,19 @@ export default function Home() {
                 <div className="space-y-4">
                   <Card>
                     <CardContent className="pt-6">
-                      <h3 className="text-lg font-semibold mb-3">Quick Nutrition Preview</h3>
+                      <h3 className="text-lg font-semibold mb-3">{t("home.quickPreview")}</h3>
                       <div className="grid grid-cols-2 gap-4">
                         <div className="text-center p-3 bg-muted rounded-lg">
                           <div className="text-2xl font-bold text-primary" data-testid="text-preview-calories">
-                            {analysisResult?.totals.calories_kcal || 0}
+                            {formatEnergy(analysisResult?.totals.calories_kcal || 0)}
                           </div>
-                          <div className="text-sm text-muted-foreground">Total kcal</div>
+                          <div className="text-sm text-muted-foreground">{t("home.totalEnergy", { unit: energyLabel })}</div>
                         </div>
                         <div className="text-center p-3 bg-muted rounded-lg">
                           <div className="text-2xl font-bold text-secondary" data-testid="text-preview-items">
                             {analysisResult?.composition.length || 0}
                           </div>
-                          <div className="text-sm text-muted-foreground">Items Detected</div>
+                          <div className="text-sm text-muted-foreground">{t("home.itemsDetected")}</div>
                         </div>
                       </div>
                     </CardContent>
@@ -224,25 +394,28 @@ export default function Home() {
                 <UploadPanel 
                   onUpload={handleImageUpload}
                   isAnalyzing={isAnalyzing}
+                  referenceObject={referenceObject}
+                  referenceBox={referenceBox}
+                  onReferenceBoxChange={setReferenceBox}
                 />
                 
                 {/* Upload Preview */}
                 <div className="space-y-4">
                   <Card>
                     <CardContent className="pt-6">
-                      <h3 className="text-lg font-semibold mb-3">Analysis Summary</h3>
+                      <h3 className="text-lg font-semibold mb-3">{t("home.analysisSummary")}</h3>
                       <div className="grid grid-cols-2 gap-4">
                         <div className="text-center p-3 bg-muted rounded-lg">
                           <div className="text-2xl font-bold text-primary" data-testid="text-summary-calories">
-                            {analysisResult?.totals.calories_kcal || 0}
+                            {formatEnergy(analysisResult?.totals.calories_kcal || 0)}
                           </div>
-                          <div className="text-sm text-muted-foreground">Total kcal</div>
+                          <div className="text-sm text-muted-foreground">{t("home.totalEnergy", { unit: energyLabel })}</div>
                         </div>
                         <div className="text-center p-3 bg-muted rounded-lg">
                           <div className="text-2xl font-bold text-secondary" data-testid="text-summary-items">
                             {analysisResult?.composition.length || 0}
                           </div>
-                          <div className="text-sm text-muted-foreground">Items Detected</div>
+                          <div className="text-sm text-muted-foreground">{t("home.itemsDetected")}</div>
                         </div>
                       </div>
                     </CardContent>
@@ -250,17 +423,25 @@ export default function Home() {
                 </div>
               </div>
             </TabsContent>
+
+            {/* Describe Panel */}
+            <TabsContent value="describe" className="mt-6">
+              <DescribePanel
+                onDescribe={handleDescribe}
+                isAnalyzing={isAnalyzing}
+              />
+            </TabsContent>
           </Tabs>
         </div>
 
         {/* Analysis Results */}
-        {analysisResult && analyzedImageUrl && (
+        {analysisResult && (analyzedImageUrl || analyzedDescription) && (
           <Card className="mt-8">
             <CardHeader>
               <div className="flex items-center justify-between">
                 <div>
-                  <CardTitle>Analysis Results</CardTitle>
-                  <p className="text-muted-foreground">Detected food items and nutritional breakdown</p>
+                  <CardTitle>{t("home.results.title")}</CardTitle>
+                  <p className="text-muted-foreground">{t("home.results.subtitle")}</p>
                 </div>
                 <div className="flex items-center space-x-2">
                   <Button
@@ -270,16 +451,19 @@ export default function Home() {
                                      new Date().getHours() < 16 ? 'lunch' : 'dinner';
                       saveMealMutation.mutate({
                         mealType,
+                        // Described meals have no photo; the description becomes the meal name
+                        name: analyzedDescription || undefined,
                         analysisData: analysisResult,
-                        imageUrl: analyzedImageUrl,
+                        imageUrl: analyzedImageUrl || undefined,
                       });
                     }}
-                    disabled={saveMealMutation.isPending}
+                    disabled={saveMealMutation.isPending || !activeProfile}
+                    title={activeProfile ? undefined : t("children.none.description")}
                     className="flex items-center space-x-2"
                     data-testid="button-save-meal"
                   >
                     <Save className="h-4 w-4" />
-                    <span>Save as Meal</span>
+                    <span>{t("home.saveMeal")}</span>
                   </Button>
                   <Downloads analysis={analysisResult} />
                 </div>
@@ -291,37 +475,84 @@ export default function Home() {
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 {/* Image with Overlays */}
                 <div className="space-y-4">
-                  <OverlayCanvas
-                    imageUrl={analyzedImageUrl}
-                    foodItems={analysisResult.composition}
-                    imageMeta={analysisResult.image_meta}
-                    className="aspect-video bg-muted rounded-lg overflow-hidden"
-                  />
+                  {analyzedImageUrl ? (
+                    <OverlayCanvas
+                      imageUrl={analyzedImageUrl}
+                      foodItems={analysisResult.composition}
+                      imageMeta={analysisResult.image_meta}
+                      className="aspect-video bg-muted rounded-lg overflow-hidden"
+                    />
+                  ) : (
+                    <div className="p-4 bg-muted rounded-lg" data-testid="text-analyzed-description">
+                      <p className="text-sm text-muted-foreground mb-1">{t("home.describedMeal")}</p>
+                      <p className="italic">"{analyzedDescription}"</p>
+                    </div>
+                  )}
                   
                   {/* Detection Summary */}
                   <Card className="bg-muted">
                     <CardContent className="pt-4">
-                      <h3 className="font-semibold mb-3">Detection Summary</h3>
+                      <h3 className="font-semibold mb-3">{t("home.detection.title")}</h3>
                       <div className="space-y-2 text-sm">
                         <div className="flex items-center justify-between">
-                          <span>Items Detected:</span>
+                          <span>{t("home.detection.items")}</span>
                           <span className="font-medium" data-testid="text-items-detected">
                             {analysisResult.composition.length}
                           </span>
                         </div>
-                        <div className="flex items-center justify-between">
-                          <span>Image Size:</span>
-                          <span className="font-medium">
-                            {analysisResult.image_meta.width} × {analysisResult.image_meta.height}
-                          </span>
-                        </div>
+                        {analyzedImageUrl && (
+                          <div className="flex items-center justify-between">
+                            <span>{t("home.detection.imageSize")}</span>
+                            <span className="font-medium">
+                              {analysisResult.image_meta.width} × {analysisResult.image_meta.height}
+                            </span>
+                          </div>
+                        )}
+                        {analysisResult.calibration && (
+                          <div className="flex items-center justify-between">
+                            <span>{t("home.detection.portionScale")}</span>
+                            <span
+                              className={`font-medium text-right ${analysisResult.calibration.applied ? '' : 'text-muted-foreground'}`}
+                              data-testid="text-calibration"
+                            >
+                              {analysisResult.calibration.applied ? t("home.detection.calibrated") : calibrationText(analysisResult.calibration)}
+                            </span>
+                          </div>
+                        )}
+                        {analysisResult.repair?.needed && (
+                          <div className="flex items-center justify-between">
+                            <span>{t("home.detection.modelOutput")}</span>
+                            <span className="font-medium text-muted-foreground" data-testid="text-output-repair">
+                              {analysisResult.repair.succeeded ? t("home.detection.repaired") : t("home.detection.partiallyRepaired")}
+                            </span>
+                          </div>
+                        )}
+                        {answeredBy && (
+                          <div className="flex items-center justify-between">
+                            <span>{t("home.detection.analyzedBy")}</span>
+                            <span className="font-medium" data-testid="text-analyzed-by">
+                              {answeredBy.cached ? t("home.detection.cached") : answeredBy.model}
+                            </span>
+                          </div>
+                        )}
                       </div>
                     </CardContent>
                   </Card>
+
+                  <CompositionEditor analysis={analysisResult} onChange={setAnalysisResult} />
                 </div>
 
                 {/* Nutrition Information */}
-                <NutritionTables analysis={analysisResult} />
+                <NutritionTables
+                  analysis={analysisResult}
+                  onServingsChange={(index, servings) =>
+                    setAnalysisResult(current => current && withServingsEaten(current, index, servings))}
+                  recipes={recipes}
+                  onAttachRecipe={(index, recipe) =>
+                    setAnalysisResult(current => current && withRecipe(current, index, recipe))}
+                  allergies={allergies}
+                  dietaryPreferences={dietaryPreferences}
+                />
               </div>
             </CardContent>
           </Card>
@@ -334,7 +565,11 @@ export default function Home() {
       </main>
 
       {/* Loading Overlay */}
-      <LoadingOverlay isVisible={isAnalyzing} />
+      <LoadingOverlay
+        isVisible={isAnalyzing}
+        progress={analysisProgress}
+        onCancel={() => abortRef.current?.abort()}
+      />
     </div>
   );
 }
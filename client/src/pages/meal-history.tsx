@@ -1,13 +1,25 @@
 import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Calendar, Trash2, Download, ChevronLeft, Filter } from "lucide-react";
+import { Calendar, Trash2, Download, ChevronLeft, Filter, Search } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/hooks/use-i18n";
+import { useUnits } from "@/hooks/use-units";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { format } from "date-fns";
 import type { NutritionAnalysis } from "@shared/schema";
+import { foodDisplayName, matchesFoodQuery } from "@shared/food-labels";
 import { getMeals, getMealsByDateRange, deleteMeal, type LocalMeal } from "@/lib/localStore";
+import { QuarantinedRecords } from "@/components/quarantined-records";
+import { ChildSwitcher } from "@/components/child-switcher";
+import { MealRecommendations } from "@/components/meal-recommendations";
+
+const MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snack'] as const;
+
+function isMealType(mealType: string): mealType is typeof MEAL_TYPES[number] {
+  return (MEAL_TYPES as readonly string[]).includes(mealType);
+}
 
 interface MealHistoryProps {
   onBack: () => void;
@@ -15,10 +27,13 @@ interface MealHistoryProps {
 
 export function MealHistory({ onBack }: MealHistoryProps) {
   const { toast } = useToast();
+  const { t, language, formatNumber, formatDate } = useI18n();
+  const { energyLabel, formatAmount, formatEnergy } = useUnits();
   const queryClient = useQueryClient();
   const [selectedPeriod, setSelectedPeriod] = useState<'week' | 'month' | 'all'>('week');
+  const [foodQuery, setFoodQuery] = useState('');
 
-  const { data: meals = [], isLoading } = useQuery({
+  const { data: periodMeals = [], isLoading } = useQuery({
     queryKey: ['meals', selectedPeriod],
     queryFn: async () => {
       if (selectedPeriod === 'all') {
@@ -32,26 +47,32 @@ export function MealHistory({ onBack }: MealHistoryProps) {
     },
   });
 
+  // Bilingual food search: "fried rice" also finds meals containing "Nasi Goreng"
+  const meals = foodQuery.trim()
+    ? periodMeals.filter(meal =>
+        (meal.analysisData as NutritionAnalysis).composition.some(item => matchesFoodQuery(item, foodQuery)))
+    : periodMeals;
+
   const deleteMealMutation = useMutation({
     mutationFn: async (mealId: string) => {
       const success = deleteMeal(mealId);
       if (!success) {
-        throw new Error('Meal not found');
+        throw new Error(t("history.mealNotFound"));
       }
       return success;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['meals'] });
       toast({
-        title: "Meal deleted",
-        description: "The meal has been removed from your history.",
+        title: t("history.toast.deleted.title"),
+        description: t("history.toast.deleted.description"),
       });
     },
     onError: (error) => {
       toast({
         variant: "destructive",
-        title: "Delete failed",
-        description: error instanceof Error ? error.message : "Failed to delete meal",
+        title: t("history.toast.deleteFailed.title"),
+        description: error instanceof Error ? error.message : t("history.toast.deleteFailed.description"),
       });
     },
   });
@@ -87,9 +108,10 @@ export function MealHistory({ onBack }: MealHistoryProps) {
         <div className="flex items-center space-x-4">
           <Button variant="ghost" onClick={onBack} data-testid="button-back">
             <ChevronLeft className="h-4 w-4 mr-2" />
-            Back to Analysis
+            {t("history.back")}
           </Button>
-          <h1 className="text-2xl font-bold">Meal History</h1>
+          <h1 className="text-2xl font-bold">{t("history.title")}</h1>
+          <ChildSwitcher />
         </div>
         
         <div className="flex items-center space-x-2">
@@ -104,62 +126,81 @@ export function MealHistory({ onBack }: MealHistoryProps) {
                 className="rounded-none border-r last:border-r-0"
                 data-testid={`button-filter-${period}`}
               >
-                {period === 'week' ? 'Week' : period === 'month' ? 'Month' : 'All'}
+                {t(`history.period.${period}`)}
               </Button>
             ))}
           </div>
         </div>
       </div>
 
+      <div className="relative max-w-sm">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={foodQuery}
+          onChange={(e) => setFoodQuery(e.target.value)}
+          placeholder={t("history.searchPlaceholder")}
+          className="pl-9"
+          data-testid="input-food-search"
+        />
+      </div>
+
+      <QuarantinedRecords />
+
       {/* Summary Cards */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <Card>
           <CardContent className="p-4 text-center">
             <div className="text-2xl font-bold text-primary" data-testid="text-total-meals">
-              {meals.length}
+              {formatNumber(meals.length)}
             </div>
-            <div className="text-sm text-muted-foreground">Total Meals</div>
+            <div className="text-sm text-muted-foreground">{t("history.totalMeals")}</div>
           </CardContent>
         </Card>
         <Card>
           <CardContent className="p-4 text-center">
             <div className="text-2xl font-bold text-secondary" data-testid="text-total-calories">
-              {Math.round(totals.calories)}
+              {formatEnergy(totals.calories)}
             </div>
-            <div className="text-sm text-muted-foreground">Total Calories</div>
+            <div className="text-sm text-muted-foreground">{t("history.totalEnergy", { unit: energyLabel })}</div>
           </CardContent>
         </Card>
         <Card>
           <CardContent className="p-4 text-center">
             <div className="text-2xl font-bold text-blue-600" data-testid="text-avg-calories">
-              {meals.length > 0 ? Math.round(totals.calories / meals.length) : 0}
+              {formatEnergy(meals.length > 0 ? totals.calories / meals.length : 0)}
             </div>
-            <div className="text-sm text-muted-foreground">Avg per Meal</div>
+            <div className="text-sm text-muted-foreground">{t("history.avgPerMeal", { unit: energyLabel })}</div>
           </CardContent>
         </Card>
         <Card>
           <CardContent className="p-4 text-center">
             <div className="text-2xl font-bold text-green-600" data-testid="text-total-protein">
-              {Math.round(totals.protein)}g
+              {formatAmount(totals.protein)}g
             </div>
-            <div className="text-sm text-muted-foreground">Total Protein</div>
+            <div className="text-sm text-muted-foreground">{t("history.totalProtein")}</div>
           </CardContent>
         </Card>
       </div>
 
+      <MealRecommendations meals={periodMeals} />
+
       {/* Meals List */}
       <div className="space-y-4">
         {isLoading ? (
           <div className="text-center p-8">
-            <p className="text-muted-foreground">Loading your meals...</p>
+            <p className="text-muted-foreground">{t("history.loading")}</p>
           </div>
         ) : meals.length === 0 ? (
           <Card>
             <CardContent className="p-8 text-center">
               <Calendar className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-              <h3 className="font-medium mb-2">No meals recorded</h3>
+              <h3 className="font-medium mb-2">
+                {foodQuery.trim() ? t("history.noMatches.title") : t("history.empty.title")}
+              </h3>
               <p className="text-sm text-muted-foreground">
-                Start analyzing your meals to build your nutrition history.
+                {foodQuery.trim()
+                  ? t("history.noMatches.description")
+                  : t("history.empty.description")}
               </p>
             </CardContent>
           </Card>
@@ -173,10 +214,10 @@ export function MealHistory({ onBack }: MealHistoryProps) {
                     <div className="flex-1">
                       <div className="flex items-center space-x-3 mb-3">
                         <Badge className={getMealTypeColor(meal.mealType)}>
-                          {meal.mealType}
+                          {isMealType(meal.mealType) ? t(`mealType.${meal.mealType}`) : meal.mealType}
                         </Badge>
                         <span className="text-sm text-muted-foreground">
-                          {format(new Date(meal.consumedAt), 'MMM d, yyyy h:mm a')}
+                          {formatDate(meal.consumedAt)}
                         </span>
                       </div>
                       
@@ -188,36 +229,44 @@ export function MealHistory({ onBack }: MealHistoryProps) {
                       
                       <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                         <div>
-                          <span className="font-medium">{analysis.totals.calories_kcal}</span>
-                          <span className="text-muted-foreground ml-1">kcal</span>
+                          <span className="font-medium">{formatEnergy(analysis.totals.calories_kcal)}</span>
+                          <span className="text-muted-foreground ml-1">{energyLabel}</span>
                         </div>
                         <div>
-                          <span className="font-medium">{analysis.totals.macros.protein_g}g</span>
-                          <span className="text-muted-foreground ml-1">protein</span>
+                          <span className="font-medium">{formatAmount(analysis.totals.macros.protein_g)}g</span>
+                          <span className="text-muted-foreground ml-1">{t("history.protein")}</span>
                         </div>
                         <div>
-                          <span className="font-medium">{analysis.totals.macros.carbs_g}g</span>
-                          <span className="text-muted-foreground ml-1">carbs</span>
+                          <span className="font-medium">{formatAmount(analysis.totals.macros.carbs_g)}g</span>
+                          <span className="text-muted-foreground ml-1">{t("history.carbs")}</span>
                         </div>
                         <div>
-                          <span className="font-medium">{analysis.totals.macros.fat_g}g</span>
-                          <span className="text-muted-foreground ml-1">fat</span>
+                          <span className="font-medium">{formatAmount(analysis.totals.macros.fat_g)}g</span>
+                          <span className="text-muted-foreground ml-1">{t("history.fat")}</span>
                         </div>
                       </div>
                       
                       {analysis.composition.length > 0 && (
                         <div className="mt-3">
-                          <p className="text-sm text-muted-foreground mb-1">Items detected:</p>
+                          <p className="text-sm text-muted-foreground mb-1">{t("history.itemsDetected")}</p>
                           <div className="flex flex-wrap gap-1">
                             {analysis.composition.map((item, index) => (
-                              <Badge key={index} variant="outline" className="text-xs">
-                                {item.label}
+                              <Badge key={index} variant="outline" className="text-xs" title={foodDisplayName(item, language === 'id' ? 'en' : 'id')}>
+                                {foodDisplayName(item, language)}
                               </Badge>
                             ))}
                           </div>
                         </div>
                       )}
                       
+                      {analysis.provenance && (
+                        <p className="text-xs text-muted-foreground mt-2" data-testid={`text-provenance-${meal.id}`}>
+                          {analysis.provenance.model} · prompt {analysis.provenance.prompt_id}@{analysis.provenance.prompt_version}
+                          {' · '}{formatNumber(analysis.provenance.latency_ms / 1000, { minimumFractionDigits: 1, maximumFractionDigits: 1 })} s
+                          {' · '}{t("history.calls", { count: analysis.provenance.attempts })}
+                        </p>
+                      )}
+
                       {meal.notes && (
                         <p className="text-sm text-muted-foreground mt-2 italic">
                           "{meal.notes}"
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -7,20 +7,34 @@ import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Progress } from "@/components/ui/progress";
-import { ArrowLeft, Target, Activity, TrendingUp, Save } from "lucide-react";
+import { ArrowLeft, Target, Activity, TrendingUp, Save, Baby } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/hooks/use-i18n";
+import { useUnits } from "@/hooks/use-units";
+import { useChildProfiles } from "@/hooks/use-child-profiles";
 import { getGoals, setGoals, type LocalNutritionGoals } from "@/lib/localStore";
+import { AllergySettings } from "@/components/allergy-settings";
+import { DietarySettings } from "@/components/dietary-settings";
+import { UnitSettings } from "@/components/unit-settings";
+import { ChildSwitcher } from "@/components/child-switcher";
+import type { EnergyUnit } from "@shared/schema";
+import { fromEnergyUnit, toEnergyUnit } from "@shared/units";
+import { defaultGoalsForChild } from "@shared/child-goals";
 
-const nutritionGoalsFormSchema = z.object({
-  dailyCalories: z.coerce.number().min(800).max(5000).optional(),
-  dailyProtein: z.coerce.number().min(10).max(300).optional(),
+// Calories are entered in the user's energy unit and stored in kcal
+const energyInUnit = (kcal: number, unit: EnergyUnit) => Math.round(toEnergyUnit(kcal, unit));
+
+const nutritionGoalsFormSchema = (energy: EnergyUnit) => z.object({
+  // Lower bounds allow the defaults for infants (shared/child-goals.ts)
+  dailyCalories: z.coerce.number().min(energyInUnit(400, energy)).max(energyInUnit(5000, energy)).optional(),
+  dailyProtein: z.coerce.number().min(5).max(300).optional(),
   dailyCarbs: z.coerce.number().min(50).max(800).optional(),
   dailyFat: z.coerce.number().min(20).max(200).optional(),
-  dailyFiber: z.coerce.number().min(10).max(100).optional(),
+  dailyFiber: z.coerce.number().min(5).max(100).optional(),
 });
 
-type NutritionGoalsFormData = z.infer<typeof nutritionGoalsFormSchema>;
+type NutritionGoalsFormData = z.infer<ReturnType<typeof nutritionGoalsFormSchema>>;
 
 interface NutritionGoalsPageProps {
   onBack: () => void;
@@ -28,10 +42,18 @@ interface NutritionGoalsPageProps {
 
 export function NutritionGoalsPage({ onBack }: NutritionGoalsPageProps) {
   const { toast } = useToast();
+  const { t } = useI18n();
+  const { units, energyLabel, formatAmount, formatEnergy } = useUnits();
+  const { activeProfile } = useChildProfiles();
+  const childDefaults = activeProfile ? defaultGoalsForChild(activeProfile) : null;
   const queryClient = useQueryClient();
+  // The resolver is created once; the ref lets it validate in the current unit
+  const energyUnitRef = useRef(units.energy);
+  energyUnitRef.current = units.energy;
 
   const form = useForm<NutritionGoalsFormData>({
-    resolver: zodResolver(nutritionGoalsFormSchema),
+    resolver: (values, context, options) =>
+      zodResolver(nutritionGoalsFormSchema(energyUnitRef.current))(values, context, options),
     defaultValues: {
       dailyCalories: undefined,
       dailyProtein: undefined,
@@ -49,24 +71,22 @@ export function NutritionGoalsPage({ onBack }: NutritionGoalsPageProps) {
     },
   });
 
-  // Populate form with existing goals
+  // Populate form with the selected child's goals (empty when they have none yet)
   useEffect(() => {
-    if (nutritionGoals) {
-      form.reset({
-        dailyCalories: nutritionGoals.dailyCalories || undefined,
-        dailyProtein: nutritionGoals.dailyProtein || undefined,
-        dailyCarbs: nutritionGoals.dailyCarbs || undefined,
-        dailyFat: nutritionGoals.dailyFat || undefined,
-        dailyFiber: nutritionGoals.dailyFiber || undefined,
-      });
-    }
-  }, [nutritionGoals, form]);
+    form.reset({
+      dailyCalories: nutritionGoals?.dailyCalories ? energyInUnit(nutritionGoals.dailyCalories, units.energy) : undefined,
+      dailyProtein: nutritionGoals?.dailyProtein || undefined,
+      dailyCarbs: nutritionGoals?.dailyCarbs || undefined,
+      dailyFat: nutritionGoals?.dailyFat || undefined,
+      dailyFiber: nutritionGoals?.dailyFiber || undefined,
+    });
+  }, [nutritionGoals, form, units.energy]);
 
   // Create or update nutrition goals
   const saveMutation = useMutation({
     mutationFn: async (data: NutritionGoalsFormData) => {
       const goalsData = {
-        dailyCalories: data.dailyCalories || null,
+        dailyCalories: data.dailyCalories ? Math.round(fromEnergyUnit(data.dailyCalories, units.energy)) : null,
         dailyProtein: data.dailyProtein || null,
         dailyCarbs: data.dailyCarbs || null,
         dailyFat: data.dailyFat || null,
@@ -78,15 +98,15 @@ export function NutritionGoalsPage({ onBack }: NutritionGoalsPageProps) {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['goals'] });
       toast({
-        title: "Goals saved!",
-        description: "Your nutrition goals have been updated successfully.",
+        title: t("goals.toast.saved.title"),
+        description: t("goals.toast.saved.description"),
       });
     },
     onError: (error: Error) => {
       toast({
         variant: "destructive",
-        title: "Save failed",
-        description: error.message || "Failed to save nutrition goals",
+        title: t("common.saveFailed"),
+        description: error.message || t("goals.toast.saveFailed"),
       });
     },
   });
@@ -100,7 +120,7 @@ export function NutritionGoalsPage({ onBack }: NutritionGoalsPageProps) {
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="text-center">
           <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
-          <p className="text-muted-foreground">Loading nutrition goals...</p>
+          <p className="text-muted-foreground">{t("goals.loading")}</p>
         </div>
       </div>
     );
@@ -120,13 +140,15 @@ export function NutritionGoalsPage({ onBack }: NutritionGoalsPageProps) {
                 data-testid="button-back"
               >
                 <ArrowLeft className="h-4 w-4" />
-                <span>Back</span>
+                <span>{t("common.back")}</span>
               </Button>
               <div>
-                <h1 className="text-xl font-bold text-foreground">Nutrition Goals</h1>
-                <p className="text-sm text-muted-foreground">Set your daily nutrition targets</p>
+                <h1 className="text-xl font-bold text-foreground">{t("goals.title")}</h1>
+                <p className="text-sm text-muted-foreground">{t("goals.subtitle")}</p>
               </div>
             </div>
+
+            <ChildSwitcher />
           </div>
         </div>
       </header>
@@ -136,15 +158,29 @@ export function NutritionGoalsPage({ onBack }: NutritionGoalsPageProps) {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           
           {/* Goals Form */}
-          <div className="lg:col-span-2">
+          <div className="lg:col-span-2 space-y-6">
+            {!activeProfile && (
+              <Card data-testid="card-no-child">
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Baby className="h-5 w-5 text-primary" />
+                    <span>{t("children.none.title")}</span>
+                  </CardTitle>
+                  <CardDescription>
+                    {t("children.none.description")}
+                  </CardDescription>
+                </CardHeader>
+              </Card>
+            )}
+
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center space-x-2">
                   <Target className="h-5 w-5 text-primary" />
-                  <span>Daily Nutrition Targets</span>
+                  <span>{t("goals.targets.title")}</span>
                 </CardTitle>
                 <CardDescription>
-                  Set your personalized daily nutrition goals. Leave fields empty if you don't want to track that nutrient.
+                  {t("goals.targets.description")}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -157,21 +193,21 @@ export function NutritionGoalsPage({ onBack }: NutritionGoalsPageProps) {
                         name="dailyCalories"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Daily Calories</FormLabel>
+                            <FormLabel>{t("goals.field.calories")}</FormLabel>
                             <FormControl>
                               <div className="relative">
                                 <Input
                                   type="number"
-                                  placeholder="2000"
+                                  placeholder={String(energyInUnit(2000, units.energy))}
                                   {...field}
                                   value={field.value || ""}
                                   data-testid="input-daily-calories"
                                 />
-                                <span className="absolute right-3 top-2.5 text-sm text-muted-foreground">kcal</span>
+                                <span className="absolute right-3 top-2.5 text-sm text-muted-foreground">{energyLabel}</span>
                               </div>
                             </FormControl>
                             <FormDescription>
-                              Recommended: 1800-2500 kcal for adults
+                              {t("goals.field.calories.hint", { min: energyInUnit(1800, units.energy), max: energyInUnit(2500, units.energy), unit: energyLabel })}
                             </FormDescription>
                             <FormMessage />
                           </FormItem>
@@ -183,7 +219,7 @@ export function NutritionGoalsPage({ onBack }: NutritionGoalsPageProps) {
                         name="dailyProtein"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Daily Protein</FormLabel>
+                            <FormLabel>{t("goals.field.protein")}</FormLabel>
                             <FormControl>
                               <div className="relative">
                                 <Input
@@ -197,7 +233,7 @@ export function NutritionGoalsPage({ onBack }: NutritionGoalsPageProps) {
                               </div>
                             </FormControl>
                             <FormDescription>
-                              Recommended: 0.8-1.2g per kg body weight
+                              {t("goals.field.protein.hint")}
                             </FormDescription>
                             <FormMessage />
                           </FormItem>
@@ -209,7 +245,7 @@ export function NutritionGoalsPage({ onBack }: NutritionGoalsPageProps) {
                         name="dailyCarbs"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Daily Carbohydrates</FormLabel>
+                            <FormLabel>{t("goals.field.carbs")}</FormLabel>
                             <FormControl>
                               <div className="relative">
                                 <Input
@@ -223,7 +259,7 @@ export function NutritionGoalsPage({ onBack }: NutritionGoalsPageProps) {
                               </div>
                             </FormControl>
                             <FormDescription>
-                              Recommended: 45-65% of total calories
+                              {t("goals.field.carbs.hint")}
                             </FormDescription>
                             <FormMessage />
                           </FormItem>
@@ -235,7 +271,7 @@ export function NutritionGoalsPage({ onBack }: NutritionGoalsPageProps) {
                         name="dailyFat"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Daily Fat</FormLabel>
+                            <FormLabel>{t("goals.field.fat")}</FormLabel>
                             <FormControl>
                               <div className="relative">
                                 <Input
@@ -249,7 +285,7 @@ export function NutritionGoalsPage({ onBack }: NutritionGoalsPageProps) {
                               </div>
                             </FormControl>
                             <FormDescription>
-                              Recommended: 20-35% of total calories
+                              {t("goals.field.fat.hint")}
                             </FormDescription>
                             <FormMessage />
                           </FormItem>
@@ -261,7 +297,7 @@ export function NutritionGoalsPage({ onBack }: NutritionGoalsPageProps) {
                         name="dailyFiber"
                         render={({ field }) => (
                           <FormItem className="md:col-span-2">
-                            <FormLabel>Daily Fiber</FormLabel>
+                            <FormLabel>{t("goals.field.fiber")}</FormLabel>
                             <FormControl>
                               <div className="relative">
                                 <Input
@@ -275,7 +311,7 @@ export function NutritionGoalsPage({ onBack }: NutritionGoalsPageProps) {
                               </div>
                             </FormControl>
                             <FormDescription>
-                              Recommended: 25g for women, 38g for men
+                              {t("goals.field.fiber.hint")}
                             </FormDescription>
                             <FormMessage />
                           </FormItem>
@@ -283,21 +319,58 @@ export function NutritionGoalsPage({ onBack }: NutritionGoalsPageProps) {
                       />
                     </div>
 
+                    {activeProfile && childDefaults && (
+                      <div className="flex items-center justify-between gap-4 rounded-md bg-muted p-3 text-sm" data-testid="text-child-defaults">
+                        <span className="text-muted-foreground">
+                          {t("goals.childDefaults", {
+                            name: activeProfile.name,
+                            calories: energyInUnit(childDefaults.dailyCalories, units.energy),
+                            unit: energyLabel,
+                            protein: childDefaults.dailyProtein,
+                            carbs: childDefaults.dailyCarbs,
+                            fat: childDefaults.dailyFat,
+                            fiber: childDefaults.dailyFiber,
+                          })}
+                        </span>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => form.reset({
+                            dailyCalories: energyInUnit(childDefaults.dailyCalories, units.energy),
+                            dailyProtein: childDefaults.dailyProtein,
+                            dailyCarbs: childDefaults.dailyCarbs,
+                            dailyFat: childDefaults.dailyFat,
+                            dailyFiber: childDefaults.dailyFiber || undefined,
+                          })}
+                          data-testid="button-use-child-defaults"
+                        >
+                          {t("goals.useChildDefaults")}
+                        </Button>
+                      </div>
+                    )}
+
                     <div className="flex justify-end">
                       <Button
                         type="submit"
-                        disabled={saveMutation.isPending}
+                        disabled={saveMutation.isPending || !activeProfile}
                         className="flex items-center space-x-2"
                         data-testid="button-save-goals"
                       >
                         <Save className="h-4 w-4" />
-                        <span>{saveMutation.isPending ? "Saving..." : "Save Goals"}</span>
+                        <span>{saveMutation.isPending ? t("goals.saving") : t("goals.save")}</span>
                       </Button>
                     </div>
                   </form>
                 </Form>
               </CardContent>
             </Card>
+
+            {activeProfile && <AllergySettings />}
+
+            <DietarySettings />
+
+            <UnitSettings />
           </div>
 
           {/* Goals Summary & Tips */}
@@ -309,47 +382,47 @@ export function NutritionGoalsPage({ onBack }: NutritionGoalsPageProps) {
                 <CardHeader>
                   <CardTitle className="flex items-center space-x-2">
                     <Activity className="h-5 w-5 text-secondary" />
-                    <span>Current Goals</span>
+                    <span>{t("goals.current")}</span>
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   {nutritionGoals.dailyCalories && (
                     <div className="flex justify-between items-center">
-                      <span className="text-sm">Calories</span>
+                      <span className="text-sm">{t("goals.calories")}</span>
                       <span className="font-medium" data-testid="text-current-calories">
-                        {nutritionGoals.dailyCalories} kcal
+                        {formatEnergy(nutritionGoals.dailyCalories)} {energyLabel}
                       </span>
                     </div>
                   )}
                   {nutritionGoals.dailyProtein && (
                     <div className="flex justify-between items-center">
-                      <span className="text-sm">Protein</span>
+                      <span className="text-sm">{t("goals.protein")}</span>
                       <span className="font-medium" data-testid="text-current-protein">
-                        {nutritionGoals.dailyProtein}g
+                        {formatAmount(nutritionGoals.dailyProtein)}g
                       </span>
                     </div>
                   )}
                   {nutritionGoals.dailyCarbs && (
                     <div className="flex justify-between items-center">
-                      <span className="text-sm">Carbs</span>
+                      <span className="text-sm">{t("goals.carbs")}</span>
                       <span className="font-medium" data-testid="text-current-carbs">
-                        {nutritionGoals.dailyCarbs}g
+                        {formatAmount(nutritionGoals.dailyCarbs)}g
                       </span>
                     </div>
                   )}
                   {nutritionGoals.dailyFat && (
                     <div className="flex justify-between items-center">
-                      <span className="text-sm">Fat</span>
+                      <span className="text-sm">{t("goals.fat")}</span>
                       <span className="font-medium" data-testid="text-current-fat">
-                        {nutritionGoals.dailyFat}g
+                        {formatAmount(nutritionGoals.dailyFat)}g
                       </span>
                     </div>
                   )}
                   {nutritionGoals.dailyFiber && (
                     <div className="flex justify-between items-center">
-                      <span className="text-sm">Fiber</span>
+                      <span className="text-sm">{t("goals.fiber")}</span>
                       <span className="font-medium" data-testid="text-current-fiber">
-                        {nutritionGoals.dailyFiber}g
+                        {formatAmount(nutritionGoals.dailyFiber)}g
                       </span>
                     </div>
                   )}
@@ -362,14 +435,14 @@ export function NutritionGoalsPage({ onBack }: NutritionGoalsPageProps) {
               <CardHeader>
                 <CardTitle className="flex items-center space-x-2">
                   <TrendingUp className="h-5 w-5 text-green-600" />
-                  <span>Tips</span>
+                  <span>{t("goals.tips")}</span>
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-3 text-sm text-muted-foreground">
-                <p>• Start with calorie goals and gradually add macronutrient targets</p>
-                <p>• Adjust goals based on your activity level and health objectives</p>
-                <p>• Track your meals regularly to see how you're progressing</p>
-                <p>• Consider consulting with a nutritionist for personalized advice</p>
+                <p>• {t("goals.tip.1")}</p>
+                <p>• {t("goals.tip.2")}</p>
+                <p>• {t("goals.tip.3")}</p>
+                <p>• {t("goals.tip.4")}</p>
               </CardContent>
             </Card>
           </div>
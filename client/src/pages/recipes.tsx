@@ -0,0 +1,299 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, ChefHat, Plus, Save, Trash2 } from "lucide-react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/hooks/use-i18n";
+import { addRecipe, deleteRecipe, getRecipes } from "@/lib/localStore";
+import { FOOD_COMPOSITION } from "@shared/food-composition";
+import { getFoodLabel } from "@shared/food-labels";
+import { COOKING_METHODS, computeRecipeNutrition } from "@shared/recipes";
+import { CookingMethodSchema, RecipeSchema, type CookingMethod, type Language } from "@shared/schema";
+
+interface RecipesPageProps {
+  onBack: () => void;
+}
+
+interface IngredientRow {
+  food_id: string;
+  grams: string;
+}
+
+function ingredientOptions(language: Language) {
+  return FOOD_COMPOSITION
+    .map(entry => ({ id: entry.id, name: getFoodLabel(entry.id)?.names[language] ?? entry.id }))
+    .sort((a, b) => a.name.localeCompare(b.name, language));
+}
+
+const EMPTY_INGREDIENT: IngredientRow = { food_id: "", grams: "" };
+
+// Builds batch-cooked home recipes (e.g. a pot of sayur sop) whose per-portion nutrition can be
+// attached to a photographed dish instead of the model's estimate.
+export function RecipesPage({ onBack }: RecipesPageProps) {
+  const { toast } = useToast();
+  const { t, language } = useI18n();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [portions, setPortions] = useState("4");
+  const [cookingMethod, setCookingMethod] = useState<CookingMethod>("boiled");
+  const [ingredients, setIngredients] = useState<IngredientRow[]>([EMPTY_INGREDIENT]);
+
+  const { data: recipes = [] } = useQuery({
+    queryKey: ['recipes'],
+    queryFn: async () => getRecipes(),
+  });
+
+  const draft = RecipeSchema.omit({ id: true, created_at: true }).safeParse({
+    name,
+    portions: Number(portions),
+    cooking_method: cookingMethod,
+    ingredients: ingredients
+      .filter(row => row.food_id && row.grams)
+      .map(row => ({ food_id: row.food_id, grams: Number(row.grams) })),
+  });
+  const preview = draft.success ? computeRecipeNutrition(draft.data) : null;
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!draft.success) throw new Error(t("recipes.error.incomplete"));
+      return addRecipe(draft.data);
+    },
+    onSuccess: (recipe) => {
+      queryClient.invalidateQueries({ queryKey: ['recipes'] });
+      setName("");
+      setIngredients([EMPTY_INGREDIENT]);
+      toast({
+        title: t("recipes.toast.saved.title"),
+        description: t("recipes.toast.saved.description", { name: recipe.name }),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: t("common.saveFailed"),
+        description: error.message || t("recipes.toast.saveFailed"),
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (recipeId: string) => deleteRecipe(recipeId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['recipes'] });
+    },
+  });
+
+  const updateIngredient = (index: number, change: Partial<IngredientRow>) => {
+    setIngredients(rows => rows.map((row, i) => (i === index ? { ...row, ...change } : row)));
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-card border-b border-border shadow-sm">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <Button
+                variant="ghost"
+                onClick={onBack}
+                className="flex items-center space-x-2"
+                data-testid="button-back"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                <span>{t("common.back")}</span>
+              </Button>
+              <div>
+                <h1 className="text-xl font-bold text-foreground">{t("recipes.title")}</h1>
+                <p className="text-sm text-muted-foreground">{t("recipes.subtitle")}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+
+          {/* Recipe Builder */}
+          <div className="lg:col-span-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <ChefHat className="h-5 w-5 text-primary" />
+                  <span>{t("recipes.new.title")}</span>
+                </CardTitle>
+                <CardDescription>
+                  {t("recipes.new.description")}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2 md:col-span-3">
+                    <Label htmlFor="recipe-name">{t("recipes.name")}</Label>
+                    <Input
+                      id="recipe-name"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      placeholder="Sayur sop"
+                      maxLength={100}
+                      data-testid="input-recipe-name"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="recipe-portions">{t("recipes.portions")}</Label>
+                    <Input
+                      id="recipe-portions"
+                      type="number"
+                      min={1}
+                      value={portions}
+                      onChange={(e) => setPortions(e.target.value)}
+                      data-testid="input-recipe-portions"
+                    />
+                  </div>
+                  <div className="space-y-2 md:col-span-2">
+                    <Label>{t("recipes.cookingMethod")}</Label>
+                    <Select value={cookingMethod} onValueChange={(value) => setCookingMethod(value as CookingMethod)}>
+                      <SelectTrigger data-testid="select-cooking-method">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CookingMethodSchema.options.map(method => (
+                          <SelectItem key={method} value={method}>
+                            {COOKING_METHODS[method].names[language]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>{t("recipes.ingredients")}</Label>
+                  {ingredients.map((row, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <Select value={row.food_id} onValueChange={(value) => updateIngredient(index, { food_id: value })}>
+                        <SelectTrigger className="flex-1" data-testid={`select-ingredient-${index}`}>
+                          <SelectValue placeholder={t("recipes.ingredient.placeholder")} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ingredientOptions(language).map(option => (
+                            <SelectItem key={option.id} value={option.id}>
+                              {option.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <div className="relative w-28">
+                        <Input
+                          type="number"
+                          min={1}
+                          value={row.grams}
+                          onChange={(e) => updateIngredient(index, { grams: e.target.value })}
+                          placeholder="100"
+                          data-testid={`input-ingredient-grams-${index}`}
+                        />
+                        <span className="absolute right-3 top-2.5 text-sm text-muted-foreground">g</span>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setIngredients(rows => rows.filter((_, i) => i !== index))}
+                        disabled={ingredients.length === 1}
+                        data-testid={`button-remove-ingredient-${index}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setIngredients(rows => [...rows, EMPTY_INGREDIENT])}
+                    className="flex items-center space-x-2"
+                    data-testid="button-add-ingredient"
+                  >
+                    <Plus className="h-4 w-4" />
+                    <span>{t("recipes.ingredient.add")}</span>
+                  </Button>
+                </div>
+
+                {preview && (
+                  <div className="p-3 bg-muted rounded-md text-sm" data-testid="text-recipe-preview">
+                    <div className="font-medium mb-1">
+                      {t("recipes.preview.perPortion", { grams: preview.portion_g, calories: preview.per_portion.calories_kcal })}
+                    </div>
+                    <div className="text-muted-foreground">
+                      {t("recipes.preview.macros", {
+                        protein: preview.per_portion.macros.protein_g,
+                        carbs: preview.per_portion.macros.carbs_g,
+                        fat: preview.per_portion.macros.fat_g,
+                      })}
+                    </div>
+                  </div>
+                )}
+
+                <Button
+                  onClick={() => saveMutation.mutate()}
+                  disabled={!draft.success || saveMutation.isPending}
+                  className="flex items-center space-x-2"
+                  data-testid="button-save-recipe"
+                >
+                  <Save className="h-4 w-4" />
+                  <span>{t("recipes.save")}</span>
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Saved Recipes */}
+          <div>
+            <Card>
+              <CardHeader>
+                <CardTitle>{t("recipes.saved.title")}</CardTitle>
+                <CardDescription>
+                  {t("recipes.saved.description")}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {recipes.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">{t("recipes.saved.none")}</p>
+                ) : (
+                  recipes.map(recipe => {
+                    const { portion_g, per_portion } = computeRecipeNutrition(recipe);
+                    return (
+                      <div key={recipe.id} className="flex items-start justify-between p-3 border rounded-md" data-testid={`recipe-${recipe.id}`}>
+                        <div className="text-sm">
+                          <div className="font-medium">{recipe.name}</div>
+                          <div className="text-muted-foreground">
+                            {t("recipes.saved.portions", { method: COOKING_METHODS[recipe.cooking_method].names[language], count: recipe.portions })}
+                          </div>
+                          <div className="text-muted-foreground">
+                            {t("recipes.saved.perPortion", { calories: per_portion.calories_kcal, grams: portion_g })}
+                          </div>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteMutation.mutate(recipe.id)}
+                          data-testid={`button-delete-recipe-${recipe.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    );
+                  })
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
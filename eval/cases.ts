@@ -0,0 +1,68 @@
+// Golden-set cases: a meal photo (or a typed description) with the items, grams and nutrients
+// that are actually on the plate. One JSON file per case in eval/cases/.
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import {
+  AnalysisModeSchema,
+  AnalysisSourceSchema,
+  BoundingBoxSchema,
+  MAX_DESCRIPTION_LENGTH,
+} from "../shared/schema";
+
+export const EVAL_DIR = path.dirname(new URL(import.meta.url).pathname);
+export const CASES_DIR = path.join(EVAL_DIR, "cases");
+export const IMAGES_DIR = path.join(EVAL_DIR, "images");
+
+export const ExpectedItemSchema = z.object({
+  label: z.string().min(1),
+  grams: z.number().min(0),
+  calories_kcal: z.number().min(0),
+  protein_g: z.number().min(0),
+  carbs_g: z.number().min(0),
+  fat_g: z.number().min(0),
+  bbox_norm: BoundingBoxSchema.optional(), // omitted for text cases
+});
+
+export const EvalCaseSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/),
+  // File in eval/images/, or a description for text cases
+  image: z.string().optional(),
+  description: z.string().min(1).max(MAX_DESCRIPTION_LENGTH).optional(),
+  source: AnalysisSourceSchema.default("image"),
+  mode: AnalysisModeSchema.optional(),
+  expected: z.object({ items: z.array(ExpectedItemSchema) }),
+}).refine(c => Boolean(c.image) !== Boolean(c.description), {
+  message: "A case needs either an image or a description",
+});
+
+export type ExpectedItem = z.infer<typeof ExpectedItemSchema>;
+export type EvalCase = z.infer<typeof EvalCaseSchema>;
+
+const MIME_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+};
+
+export async function loadCases(ids?: string[]): Promise<EvalCase[]> {
+  const files = (await readdir(CASES_DIR)).filter(file => file.endsWith(".json")).sort();
+  const cases: EvalCase[] = [];
+  for (const file of files) {
+    const parsed = EvalCaseSchema.safeParse(JSON.parse(await readFile(path.join(CASES_DIR, file), "utf8")));
+    if (!parsed.success) {
+      throw new Error(`${file}: ${parsed.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`).join("; ")}`);
+    }
+    if (!ids || ids.includes(parsed.data.id)) cases.push(parsed.data);
+  }
+  return cases;
+}
+
+export async function loadCaseImage(evalCase: EvalCase): Promise<string> {
+  const file = path.join(IMAGES_DIR, evalCase.image!);
+  const mimeType = MIME_TYPES[path.extname(file).toLowerCase()];
+  if (!mimeType) throw new Error(`${evalCase.id}: unsupported image type ${path.extname(file)}`);
+  const bytes = await readFile(file);
+  return `data:${mimeType};base64,${bytes.toString("base64")}`;
+}
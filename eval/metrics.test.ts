@@ -0,0 +1,36 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { aggregate, type CaseMetrics } from "./metrics";
+
+const scored: CaseMetrics = {
+  calories_error: -40,
+  macro_errors: { protein_g: 2, carbs_g: -6, fat_g: 1 },
+  predicted_items: 2,
+  expected_items: 3,
+  matches: [{ expected: "nasi putih", predicted: "nasi putih", grams_error: 20, calories_error: 26, iou: 0.8 }],
+  missed: ["tempe goreng", "sayur bayam"],
+  extra: ["kerupuk"],
+};
+
+test("a run where every case failed has no scores", () => {
+  const metrics = aggregate([undefined, undefined]);
+
+  assert.equal(metrics.failed, 2);
+  assert.equal(metrics.calorie_mae_kcal, null);
+  assert.deepEqual(metrics.macro_mae_g, { protein_g: null, carbs_g: null, fat_g: null, mean: null });
+  assert.equal(metrics.label_precision, null);
+  assert.equal(metrics.label_recall, null);
+  assert.equal(metrics.bbox_iou, null);
+});
+
+test("failed cases are left out of the scores", () => {
+  const metrics = aggregate([scored, undefined]);
+
+  assert.equal(metrics.cases, 2);
+  assert.equal(metrics.failed, 1);
+  assert.equal(metrics.calorie_mae_kcal, 40);
+  assert.equal(metrics.macro_mae_g.mean, 3);
+  assert.equal(metrics.label_precision, 0.5);
+  assert.equal(metrics.label_recall, 0.33);
+  assert.equal(metrics.bbox_iou, 0.8);
+});
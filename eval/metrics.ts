@@ -0,0 +1,126 @@
+// Accuracy metrics for one analysis against its golden case, and their aggregate over a run.
+import type { FoodItem, NutritionAnalysis } from "../shared/schema";
+import { foodKey } from "../shared/food-labels";
+import { roundTo } from "../shared/nutrition";
+import { bboxIoU } from "../server/ensemble";
+import type { ExpectedItem } from "./cases";
+
+const MACROS = ["protein_g", "carbs_g", "fat_g"] as const;
+
+export interface ItemMatch {
+  expected: string;
+  predicted: string;
+  grams_error: number; // predicted − expected
+  calories_error: number;
+  iou?: number; // only when the case has a box for the item
+}
+
+export interface CaseMetrics {
+  calories_error: number; // predicted − expected meal total
+  macro_errors: Record<(typeof MACROS)[number], number>;
+  predicted_items: number;
+  expected_items: number;
+  matches: ItemMatch[];
+  missed: string[]; // expected items the analysis did not find
+  extra: string[]; // predicted items not on the plate
+}
+
+// null where nothing was measured (every case failed, no items matched, no boxes in the cases),
+// so an empty run cannot read as a perfect one
+export interface RunMetrics {
+  cases: number;
+  failed: number;
+  calorie_mae_kcal: number | null;
+  macro_mae_g: Record<(typeof MACROS)[number] | "mean", number | null>;
+  serving_mae_g: number | null;
+  label_precision: number | null;
+  label_recall: number | null;
+  bbox_iou: number | null;
+}
+
+function mean(values: number[]): number | null {
+  return values.length ? roundTo(values.reduce((sum, v) => sum + v, 0) / values.length) : null;
+}
+
+function ratio(count: number, total: number): number | null {
+  return total ? roundTo(count / total) : null;
+}
+
+function expectedKey(item: ExpectedItem): string {
+  return foodKey({ label: item.label });
+}
+
+// Pairs items of the same canonical food, best box overlap first; each item pairs at most once.
+function matchItems(expected: ExpectedItem[], predicted: FoodItem[]): [ExpectedItem, FoodItem][] {
+  const candidates: { e: ExpectedItem; p: FoodItem; score: number }[] = [];
+  for (const e of expected) {
+    for (const p of predicted) {
+      if (expectedKey(e) !== foodKey(p)) continue;
+      candidates.push({ e, p, score: e.bbox_norm ? bboxIoU(e.bbox_norm, p.bbox_norm) : 0 });
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score);
+
+  const pairs: [ExpectedItem, FoodItem][] = [];
+  const used = new Set<unknown>();
+  for (const { e, p } of candidates) {
+    if (used.has(e) || used.has(p)) continue;
+    pairs.push([e, p]);
+    used.add(e);
+    used.add(p);
+  }
+  return pairs;
+}
+
+export function scoreCase(analysis: NutritionAnalysis, expected: ExpectedItem[]): CaseMetrics {
+  const pairs = matchItems(expected, analysis.composition);
+  const matchedExpected = new Set(pairs.map(([e]) => e));
+  const matchedPredicted = new Set(pairs.map(([, p]) => p));
+
+  const sum = (pick: (item: ExpectedItem) => number) => expected.reduce((total, item) => total + pick(item), 0);
+  const macroErrors = {} as CaseMetrics["macro_errors"];
+  for (const key of MACROS) {
+    macroErrors[key] = roundTo(analysis.totals.macros[key] - sum(item => item[key]));
+  }
+
+  return {
+    calories_error: roundTo(analysis.totals.calories_kcal - sum(item => item.calories_kcal), 1),
+    macro_errors: macroErrors,
+    predicted_items: analysis.composition.length,
+    expected_items: expected.length,
+    matches: pairs.map(([e, p]) => ({
+      expected: e.label,
+      predicted: p.label,
+      grams_error: roundTo(p.serving_est_g - e.grams, 1),
+      calories_error: roundTo(p.nutrition.calories_kcal - e.calories_kcal, 1),
+      iou: e.bbox_norm ? roundTo(bboxIoU(e.bbox_norm, p.bbox_norm)) : undefined,
+    })),
+    missed: expected.filter(e => !matchedExpected.has(e)).map(e => e.label),
+    extra: analysis.composition.filter(p => !matchedPredicted.has(p)).map(p => p.label),
+  };
+}
+
+// Errors are averaged per case (meal totals) or per matched item; precision and recall are
+// micro-averaged over all items. Failed cases only count in `failed`.
+export function aggregate(results: (CaseMetrics | undefined)[]): RunMetrics {
+  const scored = results.filter((r): r is CaseMetrics => r !== undefined);
+  const matches = scored.flatMap(r => r.matches);
+  const macroMae = {} as RunMetrics["macro_mae_g"];
+  for (const key of MACROS) {
+    macroMae[key] = mean(scored.map(r => Math.abs(r.macro_errors[key])));
+  }
+  macroMae.mean = mean(MACROS.flatMap(key => macroMae[key] ?? []));
+
+  const predicted = scored.reduce((n, r) => n + r.predicted_items, 0);
+  const expected = scored.reduce((n, r) => n + r.expected_items, 0);
+  return {
+    cases: results.length,
+    failed: results.length - scored.length,
+    calorie_mae_kcal: mean(scored.map(r => Math.abs(r.calories_error))),
+    macro_mae_g: macroMae,
+    serving_mae_g: mean(matches.map(m => Math.abs(m.grams_error))),
+    label_precision: ratio(matches.length, predicted),
+    label_recall: ratio(matches.length, expected),
+    bbox_iou: mean(matches.flatMap(m => (m.iou === undefined ? [] : [m.iou]))),
+  };
+}
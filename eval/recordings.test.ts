@@ -0,0 +1,15 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getPromptTemplate, promptKey } from "../server/prompts";
+import { loadCases } from "./cases";
+import { loadRecording } from "./recordings";
+
+// A prompt bump must re-record in the same change, or the default replay fails every case
+test("recordings answer the current default prompts", async () => {
+  for (const evalCase of await loadCases()) {
+    const kind = evalCase.description ? "text" : evalCase.mode === "label" ? "label" : "image";
+    const recording = await loadRecording(evalCase.id);
+    assert.ok(recording, `${evalCase.id} has no recording`);
+    assert.equal(recording.prompt, promptKey(getPromptTemplate(kind)), evalCase.id);
+  }
+});
@@ -0,0 +1,82 @@
+// Recorded model replies, so golden-set runs can be repeated offline. A recording holds every
+// reply a case got, per model, in call order (a repair round-trip is a second reply).
+import { readFile, writeFile } from "fs/promises";
+import path from "path";
+import type { VisionProvider, VisionRequest } from "../server/providers";
+import { EVAL_DIR } from "./cases";
+
+export const RECORDINGS_DIR = path.join(EVAL_DIR, "recordings");
+
+export interface Recording {
+  case_id: string;
+  provider: string; // provider the replies came from
+  prompt: string; // prompt template key (id@version) they answered
+  replies: Record<string, string[]>; // model -> replies
+}
+
+function recordingPath(caseId: string): string {
+  return path.join(RECORDINGS_DIR, `${caseId}.json`);
+}
+
+export async function loadRecording(caseId: string): Promise<Recording | undefined> {
+  try {
+    return JSON.parse(await readFile(recordingPath(caseId), "utf8")) as Recording;
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return undefined;
+    throw error;
+  }
+}
+
+export async function saveRecording(recording: Recording): Promise<void> {
+  await writeFile(recordingPath(recording.case_id), JSON.stringify(recording, null, 2) + "\n");
+}
+
+// Replays a recording. Models without replies count as unconfigured, so the pipeline's
+// fallback order lands on the model that was recorded. Replies to another prompt version say
+// nothing about `prompt`, so such a recording is refused.
+export class ReplayVisionProvider implements VisionProvider {
+  readonly name = "replay";
+  private readonly remaining: Record<string, string[]>;
+
+  constructor(recording: Recording, prompt: string) {
+    if (recording.prompt !== prompt) {
+      throw new Error(`recording answered ${recording.prompt}, not ${prompt} (re-record with a live provider and --record)`);
+    }
+    this.remaining = Object.fromEntries(
+      Object.entries(recording.replies).map(([model, replies]) => [model, replies.slice()]),
+    );
+  }
+
+  configurationError(model: string): string | null {
+    return this.remaining[model]?.length ? null : `No recorded reply for ${model}`;
+  }
+
+  async complete({ model }: VisionRequest): Promise<string> {
+    const reply = this.remaining[model]?.shift();
+    if (reply === undefined) {
+      throw new Error(`Recording has no more replies for ${model}`);
+    }
+    return reply;
+  }
+}
+
+// Passes calls through to `inner` and keeps the successful replies for saveRecording.
+export class RecordingVisionProvider implements VisionProvider {
+  readonly replies: Record<string, string[]> = {};
+
+  constructor(private readonly inner: VisionProvider) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  configurationError(model: string): string | null {
+    return this.inner.configurationError(model);
+  }
+
+  async complete(request: VisionRequest): Promise<string> {
+    const reply = await this.inner.complete(request);
+    (this.replies[request.model] ??= []).push(reply);
+    return reply;
+  }
+}
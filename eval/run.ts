@@ -0,0 +1,155 @@
+// Golden-set evaluation: runs every case in eval/cases/ through the analysis pipeline and writes
+// a JSON report (calorie/macro MAE, label precision/recall, bbox IoU) that can be diffed.
+//
+//   npm run eval                                  replay eval/recordings/ (offline)
+//   npm run eval -- --provider mock               mock provider (offline, not meaningful scores)
+//   npm run eval -- --provider sumopod --record   live models; saves their replies as recordings
+//
+// Other flags: --prompt <id@version> (photo cases), --mode single|ensemble, --cases a,b,
+// --out <file> (default eval/reports/latest.json).
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { parseArgs } from "util";
+import { prepareRequestImage, runAnalysis, runTextAnalysis } from "../server/analysis";
+import {
+  getPromptTemplate,
+  listPromptTemplates,
+  promptKey,
+  type PromptKind,
+  type PromptTemplate,
+} from "../server/prompts";
+import { getVisionProvider, type VisionProvider } from "../server/providers";
+import { AnalysisModeSchema, type AnalysisMode, type NutritionAnalysis } from "../shared/schema";
+import { EVAL_DIR, loadCaseImage, loadCases, type EvalCase } from "./cases";
+import { aggregate, scoreCase, type CaseMetrics } from "./metrics";
+import {
+  loadRecording,
+  RecordingVisionProvider,
+  ReplayVisionProvider,
+  saveRecording,
+} from "./recordings";
+
+interface CaseReport {
+  id: string;
+  model?: string;
+  prompt?: string;
+  error?: string;
+  warning?: string;
+  metrics?: CaseMetrics;
+}
+
+// Mock replies come from a fixed template, not from a model looking at the case
+const MOCK_RECORDING_WARNING = "replayed replies were recorded from the mock provider; scores are not meaningful";
+
+const { values: args } = parseArgs({
+  options: {
+    provider: { type: "string", default: "replay" },
+    record: { type: "boolean", default: false },
+    prompt: { type: "string" },
+    mode: { type: "string" },
+    cases: { type: "string" },
+    out: { type: "string", default: path.join(EVAL_DIR, "reports", "latest.json") },
+  },
+});
+
+function caseKind(evalCase: EvalCase, mode?: AnalysisMode): PromptKind {
+  if (evalCase.description) return "text";
+  return (evalCase.mode ?? mode) === "label" ? "label" : "image";
+}
+
+// --prompt only applies to cases of the template's kind; the rest use their defaults.
+function casePrompt(kind: PromptKind, override?: PromptTemplate): PromptTemplate {
+  return override?.input === kind ? override : getPromptTemplate(kind);
+}
+
+function findPromptTemplate(key: string): PromptTemplate {
+  const template = listPromptTemplates().find(candidate => promptKey(candidate) === key);
+  if (!template) throw new Error(`Unknown prompt template: ${key}`);
+  return template;
+}
+
+async function caseProvider(evalCase: EvalCase, prompt: PromptTemplate): Promise<{ provider: VisionProvider; warning?: string }> {
+  if (args.provider !== "replay") return { provider: getVisionProvider() };
+  const recording = await loadRecording(evalCase.id);
+  if (!recording) throw new Error("no recording (run with a live provider and --record)");
+  return {
+    provider: new ReplayVisionProvider(recording, promptKey(prompt)),
+    warning: recording.provider === "mock" ? MOCK_RECORDING_WARNING : undefined,
+  };
+}
+
+async function analyzeCase(
+  evalCase: EvalCase,
+  provider: VisionProvider,
+  prompt: PromptTemplate,
+  mode?: AnalysisMode,
+): Promise<NutritionAnalysis> {
+  if (evalCase.description) {
+    return runTextAnalysis(evalCase.description, provider, { prompt });
+  }
+  const image = prepareRequestImage(await loadCaseImage(evalCase));
+  return runAnalysis(image, evalCase.source, provider, { mode: evalCase.mode ?? mode, prompt });
+}
+
+async function main() {
+  if (args.provider === "replay" && args.record) {
+    throw new Error("--record needs a live provider (--provider sumopod or mock)");
+  }
+  if (args.provider !== "replay") process.env.VISION_PROVIDER = args.provider;
+
+  const mode = args.mode ? AnalysisModeSchema.parse(args.mode) : undefined;
+  const override = args.prompt ? findPromptTemplate(args.prompt) : undefined;
+  const cases = await loadCases(args.cases?.split(","));
+  if (cases.length === 0) throw new Error("No eval cases found");
+
+  const reports: CaseReport[] = [];
+  for (const evalCase of cases) {
+    const prompt = casePrompt(caseKind(evalCase, mode), override);
+    try {
+      const { provider: baseProvider, warning } = await caseProvider(evalCase, prompt);
+      const provider = args.record ? new RecordingVisionProvider(baseProvider) : baseProvider;
+      const analysis = await analyzeCase(evalCase, provider, prompt, mode);
+
+      if (provider instanceof RecordingVisionProvider) {
+        await saveRecording({
+          case_id: evalCase.id,
+          provider: provider.name,
+          prompt: promptKey(prompt),
+          replies: provider.replies,
+        });
+      }
+      reports.push({
+        id: evalCase.id,
+        model: analysis.provenance?.model,
+        prompt: promptKey(prompt),
+        warning,
+        metrics: scoreCase(analysis, evalCase.expected.items),
+      });
+      console.log(warning ? `⚠ ${evalCase.id}: ${warning}` : `✓ ${evalCase.id}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      reports.push({ id: evalCase.id, prompt: promptKey(prompt), error: message });
+      console.log(`✗ ${evalCase.id}: ${message}`);
+    }
+  }
+
+  // No timestamps or latencies: two runs over the same recordings produce identical reports.
+  const report = {
+    provider: args.provider,
+    mode: mode ?? "single",
+    metrics: aggregate(reports.map(r => r.metrics)),
+    cases: reports,
+  };
+  await mkdir(path.dirname(args.out!), { recursive: true });
+  await writeFile(args.out!, JSON.stringify(report, null, 2) + "\n");
+
+  console.log(JSON.stringify(report.metrics, null, 2));
+  console.log(`Report written to ${path.relative(process.cwd(), args.out!)}`);
+  // The report is still written so the failures can be read
+  if (report.metrics.failed > 0) process.exitCode = 1;
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
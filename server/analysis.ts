@@ -0,0 +1,674 @@
+// Shared analysis pipeline: prompt (server/prompts.ts) -> provider call -> extractJSON -> normalize -> validate -> label -> reconcile -> ground.
+// Mounted by both the Express server (server/routes.ts) and the Vercel handler (api/index.ts),
+// so imports stay relative.
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import {
+  AnalysisRequestSchema,
+  MAX_DESCRIPTION_LENGTH,
+  ModelNutritionAnalysisSchema,
+  NutritionAnalysisSchema,
+  TextAnalysisRequestSchema,
+  type AnalysisJobEvent,
+  type AnalysisMode,
+  type AnalysisSource,
+  type AnalysisProvenance,
+  type FoodItem,
+  type NutritionAnalysis,
+  type ScaleReference,
+} from "../shared/schema";
+import { sumKnown } from "../shared/nutrition";
+import { canonicalizeFoodItem } from "../shared/food-labels";
+import { standardizeAnalysisAllergens } from "../shared/allergens";
+import { modelDietaryFlags, withDietaryFlags } from "../shared/dietary";
+import { getVisionProvider, type VisionProvider } from "./providers";
+import { getPromptTemplate, promptKey, type PromptTemplate } from "./prompts";
+import { ImageValidationError, prepareImage, type PreparedImage } from "./image";
+import { reconcileAnalysis } from "../shared/quality";
+import { groundAnalysis } from "./grounding";
+import { calibrateAnalysis } from "./calibration";
+import { analysisCacheKey, resolveCacheMode, textAnalysisCacheKey, withAnalysisCache } from "./cache";
+import { fuseAnalyses, type ModelAnalysis } from "./ensemble";
+
+export type { AnalysisSource };
+
+// Sent as `response_format` so providers that support it constrain decoding to the schema.
+const RESPONSE_SCHEMA = {
+  name: 'nutrition_analysis',
+  schema: zodToJsonSchema(ModelNutritionAnalysisSchema, { $refStrategy: 'none' }),
+};
+
+// Validation issues listed in the repair prompt; more than this only adds noise.
+const MAX_REPAIR_ERRORS = 20;
+
+// Model fallback order per input source. Uploads prefer Gemini, camera captures prefer GPT-5-nano.
+const MODEL_CANDIDATES: Record<AnalysisSource, string[]> = {
+  image: ["gemini/gemini-2.0-flash", "gemini/gemini-1.5-flash", "gpt-5-nano"],
+  camera: ["gpt-5-nano", "gemini/gemini-2.0-flash"],
+};
+
+// Text-only requests: no vision needed, so the cheaper model goes first.
+const TEXT_MODEL_CANDIDATES = ["gpt-5-nano", "gemini/gemini-2.0-flash"];
+
+const MAX_ATTEMPTS_PER_MODEL = 2;
+const RETRY_DELAY_MS = 500;
+
+export class AnalysisError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'AnalysisError';
+  }
+}
+
+// 499 (client closed request): the caller aborted the analysis.
+export class AnalysisCancelledError extends AnalysisError {
+  constructor() {
+    super('Analysis cancelled', 499);
+    this.name = 'AnalysisCancelledError';
+  }
+}
+
+export type AnalysisProgress = Pick<AnalysisJobEvent, 'stage' | 'message' | 'model' | 'attempt' | 'fallback'>;
+
+export interface RunAnalysisOptions {
+  mode?: AnalysisMode;
+  // Defaults to the registry's active template (ANALYSIS_PROMPT)
+  prompt?: PromptTemplate;
+  reference?: ScaleReference;
+  signal?: AbortSignal;
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+export type TextAnalysisOptions = Pick<RunAnalysisOptions, 'prompt' | 'signal' | 'onProgress'>;
+
+// What the model is asked about: a sanitized photo or a typed meal description.
+interface ModelInput {
+  dataURL?: string;
+  description?: string;
+}
+
+const NO_IMAGE_META: NutritionAnalysis['image_meta'] = { width: 0, height: 0, orientation: 'square' };
+const EMPTY_BBOX = { x: 0, y: 0, w: 0, h: 0 };
+
+export function extractJSON(text: string): object {
+  try {
+    // Try parsing directly first
+    return JSON.parse(text);
+  } catch {
+    // Remove markdown code fences if present
+    const cleanedText = text.replace(/```json\s*/g, '').replace(/```/g, '').trim();
+
+    try {
+      return JSON.parse(cleanedText);
+    } catch {
+      // Extract JSON object - find first { to last }
+      const firstBrace = cleanedText.indexOf('{');
+      const lastBrace = cleanedText.lastIndexOf('}');
+
+      if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
+        const jsonStr = cleanedText.substring(firstBrace, lastBrace + 1);
+        try {
+          return JSON.parse(jsonStr);
+        } catch (parseError) {
+          console.error('JSON parse error:', parseError);
+          console.error('Attempted to parse:', jsonStr.substring(0, 200));
+          throw new Error('Invalid JSON in response - response may be truncated');
+        }
+      }
+
+      console.error('No valid JSON structure found in response');
+      console.error('Response text:', text.substring(0, 500));
+      throw new Error('No JSON found in response');
+    }
+  }
+}
+
+function toNumber(value: any, fallback = 0): number {
+  const num = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(num) ? num : fallback;
+}
+
+// Extended panel nutrients: a missing value stays unknown instead of defaulting to 0
+function toOptionalNumber(value: any): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const num = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(num) ? num : undefined;
+}
+
+function toStringArray(value: any): string[] {
+  return Array.isArray(value) ? value.map(String) : [];
+}
+
+// Coerces loosely-typed model output into the NutritionAnalysis shape.
+// Missing totals are derived from the composition items.
+export function normalizeAnalysis(raw: any): NutritionAnalysis {
+  const width = toNumber(raw?.image_meta?.width, 0);
+  const height = toNumber(raw?.image_meta?.height, 0);
+  const orientation: NutritionAnalysis['image_meta']['orientation'] =
+    raw?.image_meta?.orientation === 'portrait' ||
+    raw?.image_meta?.orientation === 'landscape' ||
+    raw?.image_meta?.orientation === 'square'
+      ? raw.image_meta.orientation
+      : width === height ? 'square' : width > height ? 'landscape' : 'portrait';
+
+  const composition: any[] = Array.isArray(raw?.composition) ? raw.composition : [];
+  const items: FoodItem[] = composition.map((it) => ({
+    label: String(it?.label ?? 'item'),
+    confidence: toNumber(it?.confidence, 0.5),
+    serving_est_g: toNumber(it?.serving_est_g, 0),
+    bbox_norm: {
+      x: toNumber(it?.bbox_norm?.x, 0),
+      y: toNumber(it?.bbox_norm?.y, 0),
+      w: toNumber(it?.bbox_norm?.w, 0),
+      h: toNumber(it?.bbox_norm?.h, 0),
+    },
+    nutrition: {
+      calories_kcal: toNumber(it?.nutrition?.calories_kcal, 0),
+      macros: {
+        protein_g: toNumber(it?.nutrition?.macros?.protein_g, 0),
+        carbs_g: toNumber(it?.nutrition?.macros?.carbs_g, 0),
+        fat_g: toNumber(it?.nutrition?.macros?.fat_g, 0),
+        fiber_g: toNumber(it?.nutrition?.macros?.fiber_g, 0),
+        sugar_g: toNumber(it?.nutrition?.macros?.sugar_g, 0),
+        saturated_fat_g: toOptionalNumber(it?.nutrition?.macros?.saturated_fat_g),
+        added_sugar_g: toOptionalNumber(it?.nutrition?.macros?.added_sugar_g),
+      },
+      micros: {
+        sodium_mg: toNumber(it?.nutrition?.micros?.sodium_mg, 0),
+        potassium_mg: toNumber(it?.nutrition?.micros?.potassium_mg, 0),
+        calcium_mg: toNumber(it?.nutrition?.micros?.calcium_mg, 0),
+        iron_mg: toNumber(it?.nutrition?.micros?.iron_mg, 0),
+        vitamin_a_mcg: toNumber(it?.nutrition?.micros?.vitamin_a_mcg, 0),
+        vitamin_c_mg: toNumber(it?.nutrition?.micros?.vitamin_c_mg, 0),
+        cholesterol_mg: toNumber(it?.nutrition?.micros?.cholesterol_mg, 0),
+        zinc_mg: toOptionalNumber(it?.nutrition?.micros?.zinc_mg),
+        vitamin_d_mcg: toOptionalNumber(it?.nutrition?.micros?.vitamin_d_mcg),
+        vitamin_b12_mcg: toOptionalNumber(it?.nutrition?.micros?.vitamin_b12_mcg),
+        folate_mcg: toOptionalNumber(it?.nutrition?.micros?.folate_mcg),
+        iodine_mcg: toOptionalNumber(it?.nutrition?.micros?.iodine_mcg),
+      },
+      allergens: toStringArray(it?.nutrition?.allergens),
+    },
+    dietary: modelDietaryFlags(it?.dietary),
+  }));
+
+  // Only present when the prompt asked for a nutrition panel (label mode); the printed values
+  // are one serving until the user says how many were eaten.
+  composition.forEach((it, index) => {
+    const panel = it?.label_panel;
+    if (!panel || typeof panel !== 'object') return;
+    const item = items[index];
+    const servingsPerPackage = toNumber(panel.servings_per_package, 0);
+    item.label_panel = {
+      serving_size_g: toNumber(panel.serving_size_g, item.serving_est_g),
+      servings_per_package: servingsPerPackage > 0 ? servingsPerPackage : undefined,
+      servings_eaten: 1,
+      per_serving: item.nutrition,
+    };
+  });
+
+  const sum = (pick: (item: (typeof items)[number]) => number) =>
+    items.reduce((total, item) => total + pick(item), 0);
+
+  // derive totals if missing
+  const provided = raw?.totals ?? {};
+  const totals = {
+    serving_total_g: toNumber(provided?.serving_total_g, sum(i => i.serving_est_g)),
+    calories_kcal: toNumber(provided?.calories_kcal, sum(i => i.nutrition.calories_kcal)),
+    macros: {
+      protein_g: toNumber(provided?.macros?.protein_g, sum(i => i.nutrition.macros.protein_g)),
+      carbs_g: toNumber(provided?.macros?.carbs_g, sum(i => i.nutrition.macros.carbs_g)),
+      fat_g: toNumber(provided?.macros?.fat_g, sum(i => i.nutrition.macros.fat_g)),
+      fiber_g: toNumber(provided?.macros?.fiber_g, sum(i => i.nutrition.macros.fiber_g)),
+      sugar_g: toNumber(provided?.macros?.sugar_g, sum(i => i.nutrition.macros.sugar_g)),
+      saturated_fat_g: toOptionalNumber(provided?.macros?.saturated_fat_g) ?? sumKnown(items.map(i => i.nutrition.macros.saturated_fat_g)),
+      added_sugar_g: toOptionalNumber(provided?.macros?.added_sugar_g) ?? sumKnown(items.map(i => i.nutrition.macros.added_sugar_g)),
+    },
+    micros: {
+      sodium_mg: toNumber(provided?.micros?.sodium_mg, sum(i => i.nutrition.micros.sodium_mg)),
+      potassium_mg: toNumber(provided?.micros?.potassium_mg, sum(i => i.nutrition.micros.potassium_mg)),
+      calcium_mg: toNumber(provided?.micros?.calcium_mg, sum(i => i.nutrition.micros.calcium_mg)),
+      iron_mg: toNumber(provided?.micros?.iron_mg, sum(i => i.nutrition.micros.iron_mg)),
+      vitamin_a_mcg: toNumber(provided?.micros?.vitamin_a_mcg, sum(i => i.nutrition.micros.vitamin_a_mcg)),
+      vitamin_c_mg: toNumber(provided?.micros?.vitamin_c_mg, sum(i => i.nutrition.micros.vitamin_c_mg)),
+      cholesterol_mg: toNumber(provided?.micros?.cholesterol_mg, sum(i => i.nutrition.micros.cholesterol_mg)),
+      zinc_mg: toOptionalNumber(provided?.micros?.zinc_mg) ?? sumKnown(items.map(i => i.nutrition.micros.zinc_mg)),
+      vitamin_d_mcg: toOptionalNumber(provided?.micros?.vitamin_d_mcg) ?? sumKnown(items.map(i => i.nutrition.micros.vitamin_d_mcg)),
+      vitamin_b12_mcg: toOptionalNumber(provided?.micros?.vitamin_b12_mcg) ?? sumKnown(items.map(i => i.nutrition.micros.vitamin_b12_mcg)),
+      folate_mcg: toOptionalNumber(provided?.micros?.folate_mcg) ?? sumKnown(items.map(i => i.nutrition.micros.folate_mcg)),
+      iodine_mcg: toOptionalNumber(provided?.micros?.iodine_mcg) ?? sumKnown(items.map(i => i.nutrition.micros.iodine_mcg)),
+    },
+    allergens: Array.isArray(provided?.allergens)
+      ? provided.allergens.map(String)
+      : Array.from(new Set(items.flatMap(i => i.nutrition.allergens))),
+  };
+
+  // Only present when the prompt asked the model to locate a reference object
+  const ref = raw?.reference_bbox_norm;
+  const referenceBox = ref && typeof ref === 'object'
+    ? { x: toNumber(ref.x, 0), y: toNumber(ref.y, 0), w: toNumber(ref.w, 0), h: toNumber(ref.h, 0) }
+    : undefined;
+
+  return {
+    image_meta: { width, height, orientation },
+    composition: items,
+    totals,
+    notes: typeof raw?.notes === 'string' ? raw.notes : undefined,
+    // An unusable reference box only disables calibration; it must not fail validation
+    reference_bbox_norm: referenceBox && referenceBox.w > 0 && referenceBox.h > 0 &&
+      Object.values(referenceBox).every(v => v >= 0 && v <= 1) ? referenceBox : undefined,
+  };
+}
+
+// Only retry errors that look temporary (5xx, UNAVAILABLE, timeouts).
+function isTransient(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : '';
+  return /\b(5\d{2}|UNAVAILABLE|timeout)\b/i.test(message);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AnalysisCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues
+    .slice(0, MAX_REPAIR_ERRORS)
+    .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
+
+interface ParsedModelOutput {
+  // Lenient parse (normalizeAnalysis fills gaps); absent when even that failed
+  analysis?: NutritionAnalysis;
+  // Strict schema violations; non-empty means the reply needs a repair
+  errors: string[];
+  error?: unknown;
+}
+
+function parseModelOutput(raw: string): ParsedModelOutput {
+  let json: object;
+  try {
+    json = extractJSON(raw);
+  } catch (error) {
+    return { errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : error}`], error };
+  }
+
+  const strict = ModelNutritionAnalysisSchema.safeParse(json);
+  const errors = strict.success ? [] : formatIssues(strict.error);
+  const lenient = NutritionAnalysisSchema.safeParse(normalizeAnalysis(json));
+  if (!lenient.success) {
+    return { errors: errors.length > 0 ? errors : formatIssues(lenient.error), error: lenient.error };
+  }
+  return { analysis: lenient.data, errors };
+}
+
+function repairInstruction(errors: string[]): string {
+  return `Your previous reply did not match the required JSON schema:\n${errors.map(e => `- ${e}`).join('\n')}\nReply again with the complete corrected JSON object only.`;
+}
+
+// Calls one model and returns its validated, label-normalized answer (not yet reconciled or grounded).
+// A reply that fails strict validation gets exactly one repair round-trip with the errors attached;
+// the lenient parse of the better reply is used either way.
+async function analyzeWithModel(
+  provider: VisionProvider,
+  model: string,
+  { dataURL, description }: ModelInput,
+  { prompt = getPromptTemplate(), reference, signal, onProgress }: RunAnalysisOptions,
+): Promise<NutritionAnalysis> {
+  const request = {
+    model,
+    systemPrompt: prompt.system,
+    userPrompt: prompt.user({ reference, description }),
+    dataURL,
+    signal,
+    responseSchema: RESPONSE_SCHEMA,
+  };
+  const raw = await provider.complete(request);
+  onProgress?.({ stage: 'validating', message: `Validating response from ${model}`, model });
+
+  let parsed = parseModelOutput(raw);
+  const firstErrors = parsed.errors;
+  let repaired = false;
+  if (firstErrors.length > 0) {
+    onProgress?.({ stage: 'validating', message: `Asking ${model} to repair its response`, model });
+    const retry = parseModelOutput(await provider.complete({
+      ...request,
+      repair: { previousResponse: raw, instruction: repairInstruction(firstErrors) },
+    }));
+    repaired = retry.analysis !== undefined && retry.errors.length === 0;
+    if (retry.analysis && (repaired || !parsed.analysis)) {
+      parsed = retry;
+    }
+  }
+
+  if (!parsed.analysis) {
+    throw parsed.error ?? new Error('Invalid model response');
+  }
+  return {
+    ...parsed.analysis,
+    composition: parsed.analysis.composition.map(item => withDietaryFlags(canonicalizeFoodItem(item))),
+    repair: firstErrors.length > 0
+      ? { needed: true, succeeded: repaired, errors: firstErrors }
+      : { needed: false },
+  };
+}
+
+// image_meta comes from the decoded image, not the model's claim; calibration depends on it.
+function finalizeAnalysis(analysis: NutritionAnalysis, image: PreparedImage, { reference }: RunAnalysisOptions): NutritionAnalysis {
+  const reconciled = reconcileAnalysis({
+    ...analysis,
+    image_meta: image.meta,
+    composition: analysis.composition.map(item => ({ ...item, source: 'vision' as const })),
+  });
+  return standardizeAnalysisAllergens(groundAnalysis(reference ? calibrateAnalysis(reconciled, reference) : reconciled));
+}
+
+// Text analyses have no image: zero image_meta and empty boxes, whatever the model put there.
+function finalizeTextAnalysis(analysis: NutritionAnalysis): NutritionAnalysis {
+  return standardizeAnalysisAllergens(groundAnalysis(reconcileAnalysis({
+    ...analysis,
+    image_meta: NO_IMAGE_META,
+    composition: analysis.composition.map(item => ({ ...item, source: 'text' as const, bbox_norm: EMPTY_BBOX })),
+    reference_bbox_norm: undefined,
+  })));
+}
+
+// Printed panel values are authoritative: no grounding or calibration, only the quality checks.
+function finalizeLabelAnalysis(analysis: NutritionAnalysis, image: PreparedImage): NutritionAnalysis {
+  if (analysis.composition.length === 0) {
+    throw new AnalysisError('No nutrition facts panel found in the photo', 422);
+  }
+  return standardizeAnalysisAllergens(reconcileAnalysis({
+    ...analysis,
+    image_meta: image.meta,
+    composition: analysis.composition.map(item => ({
+      ...item,
+      source: 'label' as const,
+      nutrition_source: { type: 'label' as const },
+      label_panel: item.label_panel ?? {
+        serving_size_g: item.serving_est_g,
+        servings_eaten: 1,
+        per_serving: item.nutrition,
+      },
+    })),
+    reference_bbox_norm: undefined,
+  }));
+}
+
+// Tries one model, retrying transient failures; rethrows the last error.
+async function analyzeWithRetry(
+  provider: VisionProvider,
+  model: string,
+  input: ModelInput,
+  options: RunAnalysisOptions,
+  progress: { message: string; fallback: boolean },
+): Promise<NutritionAnalysis> {
+  const { signal, onProgress } = options;
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new AnalysisCancelledError();
+    onProgress?.({
+      stage: 'model_call',
+      message: attempt > 0 ? `Retrying ${model} (attempt ${attempt + 1})` : progress.message,
+      model,
+      attempt: attempt + 1,
+      fallback: progress.fallback,
+    });
+    try {
+      return await analyzeWithModel(provider, model, input, options);
+    } catch (error) {
+      if (signal?.aborted) throw new AnalysisCancelledError();
+      console.error(`Analysis with ${model} failed (attempt ${attempt + 1}):`, error);
+      if (!isTransient(error) || attempt + 1 >= MAX_ATTEMPTS_PER_MODEL) throw error;
+      await sleep(RETRY_DELAY_MS, signal);
+    }
+  }
+}
+
+function failureMessage(error: unknown, fallback: string): string {
+  return error instanceof z.ZodError
+    ? 'Model response did not match the nutrition schema'
+    : error instanceof Error ? error.message : fallback;
+}
+
+function configuredModels(provider: VisionProvider, models: string[]): string[] {
+  const configured = models.filter(model => provider.configurationError(model) === null);
+  if (configured.length === 0) {
+    const configError = provider.configurationError(models[0]);
+    throw new AnalysisError(configError ?? 'Vision provider not configured', 500);
+  }
+  return configured;
+}
+
+// Every known model, the source's preferred order first.
+function ensembleModels(source: AnalysisSource): string[] {
+  return Array.from(new Set([...MODEL_CANDIDATES[source], ...Object.values(MODEL_CANDIDATES).flat()]));
+}
+
+// Calls all `models` in parallel and fuses their items (server/ensemble.ts).
+// Succeeds as long as one model answers; failures are listed in `ensemble.failed`.
+async function runEnsembleAnalysis(
+  input: ModelInput,
+  models: string[],
+  provider: VisionProvider,
+  options: RunAnalysisOptions,
+): Promise<ModelAnalysis> {
+  const settled = await Promise.allSettled(models.map(model =>
+    analyzeWithRetry(provider, model, input, options, {
+      message: `Calling ${models.length} models in parallel`,
+      fallback: false,
+    })));
+  if (options.signal?.aborted) throw new AnalysisCancelledError();
+
+  const results: ModelAnalysis[] = [];
+  const failed: { model: string; message: string }[] = [];
+  settled.forEach((outcome, i) => {
+    if (outcome.status === 'fulfilled') {
+      results.push({ model: models[i], analysis: outcome.value });
+    } else {
+      failed.push({ model: models[i], message: failureMessage(outcome.reason, 'Model call failed') });
+    }
+  });
+
+  if (results.length === 0) {
+    throw new AnalysisError(failed[0]?.message ?? 'All ensemble models failed', 502);
+  }
+  return {
+    model: results.map(({ model }) => model).join(' + '),
+    analysis: fuseAnalyses(results, failed),
+  };
+}
+
+// Tries `candidates` in order until one answers.
+async function runFallbackAnalysis(
+  input: ModelInput,
+  candidates: string[],
+  provider: VisionProvider,
+  options: RunAnalysisOptions,
+): Promise<ModelAnalysis> {
+  let lastError: unknown;
+  for (let index = 0; index < candidates.length; index++) {
+    const model = candidates[index];
+    try {
+      const analysis = await analyzeWithRetry(provider, model, input, options, {
+        message: index > 0 ? `Falling back to ${model}` : `Calling ${model}`,
+        fallback: index > 0,
+      });
+      return { model, analysis };
+    } catch (error) {
+      if (error instanceof AnalysisCancelledError) throw error;
+      lastError = error;
+    }
+  }
+
+  throw new AnalysisError(failureMessage(lastError, 'All model candidates failed'), 502);
+}
+
+// Runs `run` with `prompt` and attaches `provenance` (prompt version, provider, model(s),
+// latency and attempts) to its finalized result.
+async function withProvenance(
+  provider: VisionProvider,
+  prompt: PromptTemplate,
+  options: RunAnalysisOptions,
+  run: (tracked: RunAnalysisOptions) => Promise<ModelAnalysis>,
+): Promise<NutritionAnalysis> {
+  const startedAt = Date.now();
+  // Every model_call event is one request to a model, whichever path makes it.
+  let attempts = 0;
+  const { model, analysis } = await run({
+    ...options,
+    prompt,
+    onProgress: progress => {
+      if (progress.stage === 'model_call') attempts++;
+      options.onProgress?.(progress);
+    },
+  });
+
+  const provenance: AnalysisProvenance = {
+    prompt_id: prompt.id,
+    prompt_version: prompt.version,
+    provider: provider.name,
+    model,
+    latency_ms: Date.now() - startedAt,
+    attempts,
+    analyzed_at: new Date().toISOString(),
+  };
+  return { ...analysis, provenance };
+}
+
+// The registry template for a photo analysis in `mode`.
+export function analysisPrompt(mode?: AnalysisMode): PromptTemplate {
+  return getPromptTemplate(mode === 'label' ? 'label' : 'image');
+}
+
+// Validates and sanitizes a request image (server/image.ts); problems surface as AnalysisErrors
+// carrying the 4xx status.
+export function prepareRequestImage(dataURL: string): PreparedImage {
+  try {
+    return prepareImage(dataURL);
+  } catch (error) {
+    if (error instanceof ImageValidationError) throw new AnalysisError(error.message, error.status);
+    throw error;
+  }
+}
+
+// Runs the pipeline over the model candidates for `source`, retrying transient failures once per model.
+// `onProgress` reports each model attempt; aborting `signal` rejects with AnalysisCancelledError.
+// With `mode: 'ensemble'` all configured models are called in parallel instead; `mode: 'label'`
+// reads a nutrition facts panel into per-serving label items (one serving eaten until the user
+// changes it).
+// The result's `provenance` records the prompt version, provider, model(s), latency and attempts.
+// `image` comes from prepareRequestImage, which callers run once before the cache lookup.
+export async function runAnalysis(
+  image: PreparedImage,
+  source: AnalysisSource,
+  provider: VisionProvider = getVisionProvider(),
+  options: RunAnalysisOptions = {},
+): Promise<NutritionAnalysis> {
+  const input: ModelInput = { dataURL: image.dataURL };
+
+  return withProvenance(provider, options.prompt ?? analysisPrompt(options.mode), options, async tracked => {
+    if (options.mode === 'label') {
+      const { model, analysis } =
+        await runFallbackAnalysis(input, configuredModels(provider, MODEL_CANDIDATES[source]), provider, tracked);
+      return { model, analysis: finalizeLabelAnalysis(analysis, image) };
+    }
+
+    const { model, analysis } = options.mode === 'ensemble'
+      ? await runEnsembleAnalysis(input, configuredModels(provider, ensembleModels(source)), provider, tracked)
+      : await runFallbackAnalysis(input, configuredModels(provider, MODEL_CANDIDATES[source]), provider, tracked);
+    return { model, analysis: finalizeAnalysis(analysis, image, tracked) };
+  });
+}
+
+// Estimates a meal from a typed description (no photo). Same validation, repair, grounding and
+// provenance as photo analyses; the result has empty bboxes and zero image_meta.
+export async function runTextAnalysis(
+  description: string,
+  provider: VisionProvider = getVisionProvider(),
+  options: TextAnalysisOptions = {},
+): Promise<NutritionAnalysis> {
+  const input: ModelInput = { description };
+
+  return withProvenance(provider, options.prompt ?? getPromptTemplate('text'), options, async tracked => {
+    const { model, analysis } = await runFallbackAnalysis(
+      input, configuredModels(provider, TEXT_MODEL_CANDIDATES), provider, tracked);
+    return { model, analysis: finalizeTextAnalysis(analysis) };
+  });
+}
+
+function analysisHandler(source: AnalysisSource) {
+  return async (req: Request, res: Response) => {
+    try {
+      const parsed = AnalysisRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "dataURL must be a data:image/... URL" });
+      }
+
+      const { mode, reference } = parsed.data;
+      // Rejects bad images before the cache lookup; the model only ever sees the sanitized copy.
+      const image = prepareRequestImage(parsed.data.dataURL);
+      const prompt = analysisPrompt(mode);
+      const cacheMode = resolveCacheMode(parsed.data.cache, req.get('Cache-Control'));
+      const { analysis, status } = await withAnalysisCache(
+        analysisCacheKey(image.dataURL, { mode, reference, prompt: promptKey(prompt) }),
+        cacheMode,
+        () => runAnalysis(image, source, getVisionProvider(), { mode, prompt, reference }),
+      );
+      res.set('X-Analysis-Cache', status);
+      res.json(analysis);
+    } catch (error) {
+      console.error(`/api/analyze-${source} error:`, error);
+      const status = error instanceof AnalysisError ? error.status : 500;
+      res.status(status).json({
+        message: error instanceof Error ? error.message : "Analysis failed"
+      });
+    }
+  };
+}
+
+async function textAnalysisHandler(req: Request, res: Response) {
+  try {
+    const parsed = TextAnalysisRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: `description must be 1-${MAX_DESCRIPTION_LENGTH} characters` });
+    }
+
+    const { description } = parsed.data;
+    const prompt = getPromptTemplate('text');
+    const cacheMode = resolveCacheMode(parsed.data.cache, req.get('Cache-Control'));
+    const { analysis, status } = await withAnalysisCache(
+      textAnalysisCacheKey(description, { prompt: promptKey(prompt) }),
+      cacheMode,
+      () => runTextAnalysis(description, getVisionProvider(), { prompt }),
+    );
+    res.set('X-Analysis-Cache', status);
+    res.json(analysis);
+  } catch (error) {
+    console.error('/api/analyze-text error:', error);
+    const status = error instanceof AnalysisError ? error.status : 500;
+    res.status(status).json({
+      message: error instanceof Error ? error.message : "Analysis failed"
+    });
+  }
+}
+
+export function registerAnalysisRoutes(app: Express): void {
+  // Image upload analysis (Gemini first)
+  app.post("/api/analyze-image", analysisHandler('image'));
+
+  // Camera capture analysis (GPT-5-nano first)
+  app.post("/api/analyze-camera", analysisHandler('camera'));
+
+  // Typed meal description, no photo
+  app.post("/api/analyze-text", textAnalysisHandler);
+}
@@ -0,0 +1,182 @@
+// Analysis cache keyed by a hash of the decoded image bytes, so re-uploading the same photo
+// skips the model call. Imports stay relative (bundled into api/index.ts).
+import { createHash } from "crypto";
+import type { AnalysisCacheMode, AnalysisMode, NutritionAnalysis, ScaleReference } from "../shared/schema";
+
+// Version of the pipeline after the model call (grounding, calibration, allergen and dietary
+// standardization, extended nutrients, quality checks). Prompt versions are already part of every
+// key; bump this in any change that alters the stored result so older entries are not served.
+const CACHE_KEY_VERSION = 'v5';
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const MEMORY_MAX_ENTRIES = 500;
+
+export type CacheStatus = 'HIT' | 'MISS' | 'BYPASS';
+
+export interface AnalysisCacheStore {
+  readonly name: string;
+  get(key: string): Promise<NutritionAnalysis | undefined>;
+  set(key: string, analysis: NutritionAnalysis, ttlSeconds: number): Promise<void>;
+}
+
+export class MemoryCacheStore implements AnalysisCacheStore {
+  readonly name = "memory";
+  private readonly entries = new Map<string, { analysis: NutritionAnalysis; expiresAt: number }>();
+
+  constructor(private readonly maxEntries = MEMORY_MAX_ENTRIES) {}
+
+  async get(key: string): Promise<NutritionAnalysis | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Re-insert to keep Map order as least-recently-used first
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return structuredClone(entry.analysis);
+  }
+
+  async set(key: string, analysis: NutritionAnalysis, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { analysis: structuredClone(analysis), expiresAt: Date.now() + ttlSeconds * 1000 });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+// Stores entries in the `analysis_cache` table (run `npm run db:push` first).
+// server/db.ts is imported lazily because it throws when DATABASE_URL is missing.
+export class PostgresCacheStore implements AnalysisCacheStore {
+  readonly name = "postgres";
+
+  async get(key: string): Promise<NutritionAnalysis | undefined> {
+    const { db } = await import("./db");
+    const { analysisCache } = await import("../shared/schema");
+    const { and, eq, gt } = await import("drizzle-orm");
+    const [row] = await db
+      .select()
+      .from(analysisCache)
+      .where(and(eq(analysisCache.key, key), gt(analysisCache.expiresAt, new Date())));
+    return row ? (row.analysisData as NutritionAnalysis) : undefined;
+  }
+
+  async set(key: string, analysis: NutritionAnalysis, ttlSeconds: number): Promise<void> {
+    const { db } = await import("./db");
+    const { analysisCache } = await import("../shared/schema");
+    const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+    await db
+      .insert(analysisCache)
+      .values({ key, analysisData: analysis, expiresAt })
+      .onConflictDoUpdate({
+        target: analysisCache.key,
+        set: { analysisData: analysis, createdAt: new Date(), expiresAt },
+      });
+  }
+}
+
+// ANALYSIS_CACHE_STORE=memory|postgres; defaults to postgres when DATABASE_URL is set.
+function createCacheStore(): AnalysisCacheStore {
+  const store = process.env.ANALYSIS_CACHE_STORE ?? (process.env.DATABASE_URL ? "postgres" : "memory");
+  switch (store) {
+    case "postgres":
+      return new PostgresCacheStore();
+    case "memory":
+      return new MemoryCacheStore();
+    default:
+      throw new Error(`Unknown ANALYSIS_CACHE_STORE "${store}" (expected "memory" or "postgres")`);
+  }
+}
+
+let cacheStore: AnalysisCacheStore | undefined;
+
+export function getCacheStore(): AnalysisCacheStore {
+  cacheStore ??= createCacheStore();
+  return cacheStore;
+}
+
+function cacheTtlSeconds(): number {
+  const ttl = Number(process.env.ANALYSIS_CACHE_TTL_SECONDS);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_TTL_SECONDS;
+}
+
+function safeDecodeURIComponent(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// SHA-256 of the decoded bytes, so the same photo re-encoded with different data URL
+// headers or base64 line breaks still hits. Perceptually near-identical images (re-compressed,
+// resized) are not matched yet; a perceptual hash would slot in here as a second key.
+// Options that change the result (ensemble mode, scale reference, prompt version) are part of the key.
+export function analysisCacheKey(
+  dataURL: string,
+  { mode = 'single', reference, prompt }: { mode?: AnalysisMode; reference?: ScaleReference; prompt?: string } = {},
+): string {
+  const comma = dataURL.indexOf(',');
+  const header = comma === -1 ? '' : dataURL.slice(0, comma);
+  const payload = comma === -1 ? dataURL : dataURL.slice(comma + 1);
+  const bytes = header.endsWith(';base64')
+    ? Buffer.from(payload.replace(/\s/g, ''), 'base64')
+    : Buffer.from(safeDecodeURIComponent(payload));
+  const digest = createHash('sha256').update(bytes).digest('hex');
+  const variant = [
+    mode === 'single' ? '' : mode,
+    reference ? `ref=${JSON.stringify(reference)}` : '',
+    prompt ? `prompt=${prompt}` : '',
+  ].filter(Boolean).join(';');
+  return variant ? `${CACHE_KEY_VERSION}:${variant}:${digest}` : `${CACHE_KEY_VERSION}:${digest}`;
+}
+
+// Text analyses key on the description with case and whitespace normalized.
+export function textAnalysisCacheKey(description: string, { prompt }: { prompt?: string } = {}): string {
+  const normalized = description.trim().replace(/\s+/g, ' ').toLowerCase();
+  const digest = createHash('sha256').update(normalized).digest('hex');
+  return prompt ? `${CACHE_KEY_VERSION}:text;prompt=${prompt}:${digest}` : `${CACHE_KEY_VERSION}:text:${digest}`;
+}
+
+// Resolves the cache mode from the request body flag or a Cache-Control header.
+export function resolveCacheMode(bodyMode: AnalysisCacheMode | undefined, cacheControl: string | undefined): AnalysisCacheMode {
+  if (bodyMode) return bodyMode;
+  const directives = (cacheControl ?? '').toLowerCase().split(',').map(d => d.trim());
+  if (directives.includes('no-store')) return 'no-store';
+  if (directives.includes('no-cache')) return 'no-cache';
+  return 'default';
+}
+
+// Returns the cached analysis for `key` or computes and stores it. Store failures are logged
+// and treated as misses: the cache must never make an analysis fail.
+export async function withAnalysisCache(
+  key: string,
+  mode: AnalysisCacheMode,
+  compute: () => Promise<NutritionAnalysis>,
+  store: AnalysisCacheStore = getCacheStore(),
+): Promise<{ analysis: NutritionAnalysis; status: CacheStatus }> {
+  if (mode === 'default') {
+    try {
+      const cached = await store.get(key);
+      if (cached) return { analysis: cached, status: 'HIT' };
+    } catch (error) {
+      console.error(`Analysis cache (${store.name}) read failed:`, error);
+    }
+  }
+
+  const analysis = await compute();
+
+  if (mode !== 'no-store') {
+    try {
+      await store.set(key, analysis, cacheTtlSeconds());
+    } catch (error) {
+      console.error(`Analysis cache (${store.name}) write failed:`, error);
+    }
+  }
+
+  return { analysis, status: mode === 'default' ? 'MISS' : 'BYPASS' };
+}
@@ -0,0 +1,71 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { BoundingBox, FoodItem, NutritionAnalysis } from "../shared/schema";
+import { sumTotals } from "../shared/nutrition";
+import { calibrateAnalysis } from "./calibration";
+
+function item(label: string, grams: number, bbox_norm: BoundingBox): FoodItem {
+  return {
+    label,
+    confidence: 0.9,
+    serving_est_g: grams,
+    bbox_norm,
+    nutrition: {
+      calories_kcal: grams * 1.3,
+      macros: { protein_g: grams * 0.03, carbs_g: grams * 0.28, fat_g: grams * 0.003, fiber_g: 0, sugar_g: 0 },
+      micros: { sodium_mg: 1, potassium_mg: grams * 0.3, calcium_mg: 3, iron_mg: 0.2, vitamin_a_mcg: 0, vitamin_c_mg: 0, cholesterol_mg: 0 },
+      allergens: [],
+    },
+  };
+}
+
+// 1000 × 1000 photo; a 26 cm plate marked 520 px wide gives 0.5 mm per pixel
+const plate: BoundingBox = { x: 0.2, y: 0.2, w: 0.52, h: 0.52 };
+
+function analysis(composition: FoodItem[], reference_bbox_norm?: BoundingBox): NutritionAnalysis {
+  return {
+    composition,
+    totals: sumTotals(composition),
+    image_meta: { width: 1000, height: 1000, orientation: "square" },
+    notes: "",
+    reference_bbox_norm,
+  };
+}
+
+test("item footprints are converted to grams with the food's areal density", () => {
+  // 200 px = 10 cm square → 78.5 cm² ellipse × 1.5 g/cm² for rice
+  const rice = item("nasi putih", 150, { x: 0.3, y: 0.3, w: 0.2, h: 0.2 });
+  const calibrated = calibrateAnalysis(analysis([rice, item("sambal", 20, { x: 0, y: 0, w: 0, h: 0 })]), {
+    object: "plate-26cm",
+    bbox_norm: plate,
+  });
+
+  const [scaled, unboxed] = calibrated.composition;
+  assert.equal(scaled.serving_est_g, 117.8);
+  assert.deepEqual(scaled.serving_calibration, { model_serving_g: 150, footprint_cm2: 78.5, factor: 0.785 });
+  assert.equal(unboxed.serving_est_g, 20);
+  assert.equal(calibrated.totals.serving_total_g, 137.8);
+  assert.equal(calibrated.calibration?.located_by, "user");
+  assert.equal(calibrated.calibration?.mm_per_px, 0.5);
+  assert.equal(calibrated.calibration?.code, "calibrated");
+  assert.deepEqual(calibrated.calibration?.params, { count: 1, total: 2 });
+});
+
+test("a box far off the model's estimate is limited to four times", () => {
+  const calibrated = calibrateAnalysis(
+    analysis([item("nasi putih", 50, { x: 0, y: 0, w: 0.9, h: 0.9 })], plate),
+    { object: "plate-26cm" },
+  );
+
+  assert.equal(calibrated.composition[0].serving_est_g, 200);
+  assert.equal(calibrated.calibration?.located_by, "model");
+});
+
+test("without a reference box nothing is rescaled", () => {
+  const original = analysis([item("nasi putih", 150, { x: 0.3, y: 0.3, w: 0.2, h: 0.2 })]);
+  const calibrated = calibrateAnalysis(original, { object: "coin-rp1000" });
+
+  assert.equal(calibrated.composition, original.composition);
+  assert.equal(calibrated.calibration?.applied, false);
+  assert.equal(calibrated.calibration?.code, "reference_not_found");
+});
@@ -0,0 +1,111 @@
+// Reference-object scale calibration: converts bbox_norm areas into real-world footprints using
+// an object of known size, then rescales each item's portion estimate. Imports stay relative
+// (bundled into api/index.ts).
+import type { BoundingBox, Calibration, FoodItem, NutritionAnalysis, ScaleReference } from "../shared/schema";
+import { roundTo, scaleNutrition } from "../shared/nutrition";
+import { foodKey } from "../shared/food-labels";
+import { getReferenceObject } from "../shared/reference-objects";
+import { resumAnalysis } from "../shared/quality";
+
+// Food seen from above covers roughly an ellipse inside its box.
+const FOOTPRINT_FILL = Math.PI / 4;
+
+// Grams per cm² of footprint (typical depth × density). Rough values: they only need to beat an
+// unscaled guess. Bowls of soup are deep, crackers are thin.
+const DEFAULT_AREAL_DENSITY = 1.2;
+const AREAL_DENSITY: Record<string, number> = {
+  'nasi-putih': 1.5,
+  'nasi-goreng': 1.5,
+  'nasi-uduk': 1.5,
+  'nasi-kuning': 1.5,
+  'mie-goreng': 1.4,
+  'mie-ayam': 2.5,
+  'bubur-ayam': 3.0,
+  'sayur-sop': 3.0,
+  'sayur-asem': 3.0,
+  'sayur-bayam': 3.0,
+  'soto-ayam': 3.0,
+  'bakso': 3.0,
+  'kerupuk': 0.15,
+  'kerupuk-udang': 0.15,
+  'roti-tawar': 0.4,
+  'telur-goreng': 0.6,
+  'telur-dadar': 0.6,
+  'ayam-goreng': 1.8,
+  'ayam-bakar': 1.8,
+  'ikan-goreng': 1.6,
+  'rendang': 1.8,
+};
+
+// A bad box should not turn 100 g of rice into 2 kg: limit how far calibration moves the estimate.
+const MIN_FACTOR = 0.25;
+const MAX_FACTOR = 4;
+
+function notApplied(
+  reference: ScaleReference,
+  code: Calibration['code'],
+  message: string,
+  locatedBy?: Calibration['located_by'],
+): Calibration {
+  return { reference: reference.object, located_by: locatedBy, applied: false, message, code };
+}
+
+function scaleItem(item: FoodItem, factor: number, footprintCm2: number): FoodItem {
+  return {
+    ...item,
+    serving_est_g: roundTo(item.serving_est_g * factor, 1),
+    nutrition: scaleNutrition(item.nutrition, factor),
+    serving_calibration: {
+      model_serving_g: item.serving_est_g,
+      footprint_cm2: roundTo(footprintCm2, 1),
+      factor: roundTo(factor, 3),
+    },
+  };
+}
+
+// Runs after reconcileAnalysis and before grounding, so reference nutrition uses the calibrated weight.
+export function calibrateAnalysis(analysis: NutritionAnalysis, reference: ScaleReference): NutritionAnalysis {
+  const object = getReferenceObject(reference.object);
+  const box: BoundingBox | undefined = reference.bbox_norm ?? analysis.reference_bbox_norm;
+  const locatedBy = reference.bbox_norm ? 'user' : analysis.reference_bbox_norm ? 'model' : undefined;
+  const { width, height } = analysis.image_meta;
+
+  let calibration: Calibration | undefined;
+  if (!box || box.w <= 0 || box.h <= 0) {
+    calibration = notApplied(reference, 'reference_not_found', `${object.names.en} was not found in the photo`);
+  } else if (width <= 0 || height <= 0) {
+    calibration = notApplied(reference, 'image_size_unknown', 'Image size is unknown', locatedBy);
+  }
+  if (calibration) {
+    return { ...analysis, calibration };
+  }
+
+  const mmPerPx = object.longest_mm / Math.max(box!.w * width, box!.h * height);
+  const changed = new Set<number>();
+  const composition = analysis.composition.map((item, index) => {
+    const { w, h } = item.bbox_norm;
+    if (w <= 0 || h <= 0 || item.serving_est_g <= 0) return item;
+
+    const footprintCm2 = (w * width * mmPerPx) * (h * height * mmPerPx) / 100 * FOOTPRINT_FILL;
+    const grams = footprintCm2 * (AREAL_DENSITY[foodKey(item)] ?? DEFAULT_AREAL_DENSITY);
+    const factor = Math.min(MAX_FACTOR, Math.max(MIN_FACTOR, grams / item.serving_est_g));
+    changed.add(index);
+    return scaleItem(item, factor, footprintCm2);
+  });
+
+  const calibrated: NutritionAnalysis = {
+    ...analysis,
+    calibration: {
+      reference: reference.object,
+      located_by: locatedBy,
+      mm_per_px: roundTo(mmPerPx, 4),
+      applied: changed.size > 0,
+      message: changed.size > 0
+        ? `Portions calibrated against ${object.names.en.toLowerCase()} (${changed.size} of ${composition.length} items)`
+        : 'No items had a bounding box to calibrate',
+      code: changed.size > 0 ? 'calibrated' : 'no_item_boxes',
+      params: changed.size > 0 ? { count: changed.size, total: composition.length } : undefined,
+    },
+  };
+  return changed.size > 0 ? resumAnalysis(calibrated, composition, changed, true) : calibrated;
+}
@@ -1,7 +1,8 @@
 import { Pool, neonConfig } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-serverless';
 import ws from "ws";
-import * as schema from "@shared/schema";
+// Relative import: loaded lazily by server/cache.ts, which is also bundled into api/index.ts
+import * as schema from "../shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
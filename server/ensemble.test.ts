@@ -0,0 +1,93 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { BoundingBox, FoodItem, NutritionAnalysis } from "../shared/schema";
+import { sumTotals } from "../shared/nutrition";
+import { bboxIoU, fuseAnalyses } from "./ensemble";
+
+interface ItemExtras {
+  allergens?: string[];
+  zinc_mg?: number;
+  dietary?: FoodItem["dietary"];
+}
+
+function item(label: string, confidence: number, grams: number, bbox_norm: BoundingBox, extras: ItemExtras = {}): FoodItem {
+  return {
+    label,
+    confidence,
+    serving_est_g: grams,
+    bbox_norm,
+    nutrition: {
+      calories_kcal: grams * 1.3,
+      macros: { protein_g: grams * 0.03, carbs_g: grams * 0.28, fat_g: 0, fiber_g: 0, sugar_g: 0 },
+      micros: {
+        sodium_mg: 0, potassium_mg: 0, calcium_mg: 0, iron_mg: 0, vitamin_a_mcg: 0, vitamin_c_mg: 0, cholesterol_mg: 0,
+        zinc_mg: extras.zinc_mg,
+      },
+      allergens: extras.allergens ?? [],
+    },
+    dietary: extras.dietary,
+  };
+}
+
+function analysis(composition: FoodItem[]): NutritionAnalysis {
+  return { composition, totals: sumTotals(composition), image_meta: { width: 800, height: 600, orientation: "landscape" }, notes: "" };
+}
+
+const ricePlate: BoundingBox = { x: 0.1, y: 0.1, w: 0.4, h: 0.4 };
+const riceShifted: BoundingBox = { x: 0.2, y: 0.2, w: 0.4, h: 0.4 };
+const eggBox: BoundingBox = { x: 0.6, y: 0.1, w: 0.2, h: 0.2 };
+
+test("box overlap is intersection over union", () => {
+  assert.equal(Math.round(bboxIoU(ricePlate, riceShifted) * 100) / 100, 0.39);
+  assert.equal(bboxIoU(ricePlate, eggBox), 0);
+});
+
+test("the same food from two models is fused, weighted by confidence", () => {
+  const fused = fuseAnalyses([
+    { model: "a", analysis: analysis([item("nasi putih", 0.9, 200, ricePlate)]) },
+    { model: "b", analysis: analysis([item("steamed rice", 0.6, 150, riceShifted)]) },
+  ]);
+
+  assert.equal(fused.composition.length, 1);
+  const [rice] = fused.composition;
+  assert.equal(rice.label, "nasi putih");
+  assert.equal(rice.serving_est_g, 180);
+  assert.equal(rice.confidence, 0.75);
+  assert.deepEqual(rice.agreement, { models: ["a", "b"], ratio: 1, low: false });
+  assert.equal(fused.totals.serving_total_g, 180);
+  assert.deepEqual(fused.ensemble, { models: ["a", "b"], failed: [] });
+});
+
+test("an item only one model saw is kept with low agreement", () => {
+  const egg = item("telur goreng", 0.8, 60, eggBox, { allergens: ["egg"] });
+  const fused = fuseAnalyses([
+    { model: "a", analysis: analysis([item("nasi putih", 0.9, 200, ricePlate), egg]) },
+    { model: "b", analysis: analysis([item("nasi putih", 0.7, 180, ricePlate)]) },
+  ]);
+
+  const fusedEgg = fused.composition.find(candidate => candidate.label === "telur goreng");
+  assert.deepEqual(fusedEgg?.agreement, { models: ["a"], ratio: 0.5, low: true });
+  assert.deepEqual(fused.totals.allergens, ["egg"]);
+});
+
+test("cautious dietary flags and known extended nutrients win", () => {
+  const fused = fuseAnalyses([
+    {
+      model: "a",
+      analysis: analysis([item("sate", 0.9, 100, ricePlate, { dietary: { contains_pork: { value: false, source: "model" } } })]),
+    },
+    {
+      model: "b",
+      analysis: analysis([item("sate", 0.5, 100, ricePlate, { dietary: { contains_pork: { value: true, source: "model" } }, zinc_mg: 3 })]),
+    },
+  ]);
+
+  const [sate] = fused.composition;
+  assert.deepEqual(sate.dietary?.contains_pork, { value: true, source: "model" });
+  assert.equal(sate.nutrition.micros.zinc_mg, 3);
+  assert.equal(sate.nutrition.macros.saturated_fat_g, undefined);
+});
+
+test("fusing nothing is an error", () => {
+  assert.throws(() => fuseAnalyses([]), /No model results/);
+});
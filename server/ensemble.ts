@@ -0,0 +1,187 @@
+// Ensemble fusion: matches composition items across several models' answers and fuses their
+// estimates with confidence weighting. Imports stay relative (bundled into api/index.ts).
+import type {
+  BoundingBox,
+  EnsembleInfo,
+  FoodItem,
+  Macronutrients,
+  Micronutrients,
+  NutritionAnalysis,
+  OutputRepair,
+} from "../shared/schema";
+import { foodKey } from "../shared/food-labels";
+import { mergeDietaryFlags } from "../shared/dietary";
+import { EXTENDED_MACRO_KEYS, EXTENDED_MICRO_KEYS, MACRO_KEYS, MICRO_KEYS, roundTo, sumTotals } from "../shared/nutrition";
+
+export interface ModelAnalysis {
+  model: string;
+  analysis: NutritionAnalysis;
+}
+
+// Boxes overlapping this much are the same item whatever the labels say.
+const IOU_MATCH = 0.5;
+// Same canonical food only needs a loose overlap: models frame plates differently.
+const IOU_MATCH_SAME_FOOD = 0.1;
+// Keeps a zero-confidence estimate from vanishing entirely from the weighted average.
+const MIN_WEIGHT = 0.05;
+
+interface ClusterMember {
+  model: string;
+  item: FoodItem;
+}
+
+export function bboxIoU(a: BoundingBox, b: BoundingBox): number {
+  const overlapW = Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x);
+  const overlapH = Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y);
+  if (overlapW <= 0 || overlapH <= 0) return 0;
+  const intersection = overlapW * overlapH;
+  const union = a.w * a.h + b.w * b.h - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+function hasBox(box: BoundingBox): boolean {
+  return box.w > 0 && box.h > 0;
+}
+
+// 0 means "different items"; higher scores are matched first.
+function matchScore(a: FoodItem, b: FoodItem): number {
+  const sameFood = foodKey(a) === foodKey(b);
+  if (sameFood && !hasBox(a.bbox_norm) && !hasBox(b.bbox_norm)) return 1;
+
+  const iou = bboxIoU(a.bbox_norm, b.bbox_norm);
+  if (sameFood && iou >= IOU_MATCH_SAME_FOOD) return 1 + iou;
+  if (iou >= IOU_MATCH) return iou;
+  return 0;
+}
+
+// Greedy assignment per model: each item joins at most one cluster and each cluster takes at
+// most one item from a given model. Unmatched items start new clusters.
+function clusterItems(results: ModelAnalysis[]): ClusterMember[][] {
+  const clusters: ClusterMember[][] = [];
+
+  for (const { model, analysis } of results) {
+    const pairs: { cluster: ClusterMember[]; item: FoodItem; score: number }[] = [];
+    for (const cluster of clusters) {
+      for (const item of analysis.composition) {
+        const score = Math.max(...cluster.map(member => matchScore(member.item, item)));
+        if (score > 0) pairs.push({ cluster, item, score });
+      }
+    }
+    pairs.sort((a, b) => b.score - a.score);
+
+    const usedClusters = new Set<ClusterMember[]>();
+    const usedItems = new Set<FoodItem>();
+    for (const { cluster, item } of pairs) {
+      if (usedClusters.has(cluster) || usedItems.has(item)) continue;
+      cluster.push({ model, item });
+      usedClusters.add(cluster);
+      usedItems.add(item);
+    }
+
+    for (const item of analysis.composition) {
+      if (!usedItems.has(item)) clusters.push([{ model, item }]);
+    }
+  }
+
+  return clusters;
+}
+
+function fuseCluster(members: ClusterMember[], modelCount: number): FoodItem {
+  const weights = members.map(({ item }) => Math.max(item.confidence, MIN_WEIGHT));
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const weighted = (pick: (item: FoodItem) => number) =>
+    roundTo(members.reduce((sum, { item }, i) => sum + weights[i] * pick(item), 0) / totalWeight);
+  // Extended nutrients: weighted over the models that estimated them, unknown if none did
+  const weightedKnown = (pick: (item: FoodItem) => number | undefined) => {
+    let sum = 0;
+    let weight = 0;
+    members.forEach(({ item }, i) => {
+      const value = pick(item);
+      if (value === undefined) return;
+      sum += weights[i] * value;
+      weight += weights[i];
+    });
+    return weight > 0 ? roundTo(sum / weight) : undefined;
+  };
+
+  // Label, food ID and display names come from the most confident model.
+  const best = members.reduce((a, b) => (b.item.confidence > a.item.confidence ? b : a)).item;
+
+  const macros = {} as Macronutrients;
+  for (const key of MACRO_KEYS) {
+    macros[key] = weighted(item => item.nutrition.macros[key]);
+  }
+  for (const key of EXTENDED_MACRO_KEYS) {
+    macros[key] = weightedKnown(item => item.nutrition.macros[key]);
+  }
+  const micros = {} as Micronutrients;
+  for (const key of MICRO_KEYS) {
+    micros[key] = weighted(item => item.nutrition.micros[key]);
+  }
+  for (const key of EXTENDED_MICRO_KEYS) {
+    micros[key] = weightedKnown(item => item.nutrition.micros[key]);
+  }
+
+  return {
+    ...best,
+    confidence: roundTo(members.reduce((sum, { item }) => sum + item.confidence, 0) / members.length),
+    serving_est_g: weighted(item => item.serving_est_g),
+    bbox_norm: {
+      x: weighted(item => item.bbox_norm.x),
+      y: weighted(item => item.bbox_norm.y),
+      w: weighted(item => item.bbox_norm.w),
+      h: weighted(item => item.bbox_norm.h),
+    },
+    nutrition: {
+      calories_kcal: roundTo(weighted(item => item.nutrition.calories_kcal), 1),
+      macros,
+      micros,
+      // Union: an allergen any model saw is kept.
+      allergens: Array.from(new Set(members.flatMap(({ item }) => item.nutrition.allergens))),
+    },
+    dietary: mergeDietaryFlags(members.map(({ item }) => item.dietary)),
+    agreement: {
+      models: members.map(member => member.model),
+      ratio: roundTo(members.length / modelCount),
+      low: modelCount > 1 && members.length === 1,
+    },
+  };
+}
+
+function fuseRepairs(results: ModelAnalysis[]): OutputRepair {
+  const repaired = results.filter(({ analysis }) => analysis.repair?.needed);
+  if (repaired.length === 0) return { needed: false };
+  return {
+    needed: true,
+    succeeded: repaired.every(({ analysis }) => analysis.repair?.succeeded),
+    errors: repaired.flatMap(({ model, analysis }) => (analysis.repair?.errors ?? []).map(error => `${model}: ${error}`)),
+  };
+}
+
+// Fuses validated (not yet reconciled or grounded) analyses. `results` is in model priority
+// order; the first answer supplies image_meta and the item order.
+export function fuseAnalyses(results: ModelAnalysis[], failed: EnsembleInfo['failed'] = []): NutritionAnalysis {
+  if (results.length === 0) {
+    throw new Error('No model results to fuse');
+  }
+
+  const composition = clusterItems(results).map(members => fuseCluster(members, results.length));
+  const totals = sumTotals(composition);
+  totals.allergens = Array.from(new Set([
+    ...totals.allergens,
+    ...results.flatMap(({ analysis }) => analysis.totals.allergens),
+  ]));
+
+  return {
+    image_meta: results[0].analysis.image_meta,
+    composition,
+    totals,
+    notes: results.map(({ analysis }) => analysis.notes).find(Boolean),
+    reference_bbox_norm: results.map(({ analysis }) => analysis.reference_bbox_norm).find(Boolean),
+    repair: fuseRepairs(results),
+    ensemble: {
+      models: results.map(({ model }) => model),
+      failed,
+    },
+  };
+}
@@ -0,0 +1,20 @@
+// Grounds per-item nutrition in the bundled food composition table (shared/food-composition.ts).
+// Imports stay relative (bundled into api/index.ts).
+import type { NutritionAnalysis } from "../shared/schema";
+import { groundFoodItem } from "../shared/food-composition";
+import { resumAnalysis } from "../shared/quality";
+
+// Replaces model nutrition with reference values for every item whose label matches an entry,
+// then re-sums the totals. Runs after reconcileAnalysis so `quality` still describes the model output;
+// item-level issues on grounded items are dropped because those numbers were replaced.
+export function groundAnalysis(analysis: NutritionAnalysis): NutritionAnalysis {
+  const composition = analysis.composition.map(groundFoodItem);
+  const grounded = new Set(
+    composition.flatMap((item, index) => (item.nutrition_source?.type === 'reference' ? [index] : [])),
+  );
+  if (grounded.size === 0) {
+    return { ...analysis, composition };
+  }
+
+  return resumAnalysis(analysis, composition, grounded, false);
+}
@@ -0,0 +1,121 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ImageValidationError, prepareImage } from "./image";
+
+function segment(marker: number, payload: Buffer): Buffer {
+  const header = Buffer.from([0xff, marker, 0, 0]);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([header, payload]);
+}
+
+// Big-endian Exif with a camera make and the given orientation
+function exifPayload(orientation: number): Buffer {
+  const tiff = Buffer.alloc(8 + 2 + 2 * 12 + 4);
+  tiff.write("MM", 0, "ascii");
+  tiff.writeUInt16BE(42, 2);
+  tiff.writeUInt32BE(8, 4);
+  tiff.writeUInt16BE(2, 8);
+  tiff.writeUInt16BE(0x010f, 10); // Make
+  tiff.writeUInt16BE(2, 12); // ASCII
+  tiff.writeUInt32BE(4, 14);
+  tiff.write("Cam\0", 18, "ascii");
+  tiff.writeUInt16BE(0x0112, 22); // Orientation
+  tiff.writeUInt16BE(3, 24);
+  tiff.writeUInt32BE(1, 26);
+  tiff.writeUInt16BE(orientation, 30);
+  return Buffer.concat([Buffer.from("Exif\0\0", "ascii"), tiff]);
+}
+
+function jpeg({ width, height, orientation }: { width: number; height: number; orientation?: number }): Buffer {
+  const frame = Buffer.alloc(15);
+  frame[0] = 8;
+  frame.writeUInt16BE(height, 1);
+  frame.writeUInt16BE(width, 3);
+  frame[5] = 3;
+  return Buffer.concat([
+    Buffer.from([0xff, 0xd8]),
+    segment(0xe0, Buffer.from("JFIF\0\x01\x01\0\0\x01\0\x01\0\0", "latin1")),
+    ...(orientation ? [segment(0xe1, exifPayload(orientation))] : []),
+    segment(0xfe, Buffer.from("taken at home", "ascii")),
+    segment(0xc0, frame),
+    segment(0xda, Buffer.from([1, 1, 0, 0, 0x3f, 0])),
+    Buffer.from([0x12, 0x34, 0xff, 0xd9]),
+  ]);
+}
+
+function dataURL(type: string, bytes: Buffer): string {
+  return `data:${type};base64,${bytes.toString("base64")}`;
+}
+
+// Markers of the header segments, in file order, up to the start of scan
+function markers(bytes: Buffer): number[] {
+  const found: number[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset + 1] !== 0xda) {
+    found.push(bytes[offset + 1]);
+    offset += 2 + bytes.readUInt16BE(offset + 2);
+  }
+  return found;
+}
+
+function decoded(prepared: { dataURL: string }): Buffer {
+  return Buffer.from(prepared.dataURL.slice(prepared.dataURL.indexOf(",") + 1), "base64");
+}
+
+function rejects(url: string, status: number) {
+  assert.throws(() => prepareImage(url), (error: unknown) =>
+    error instanceof ImageValidationError && error.status === status);
+}
+
+test("JPEG metadata is stripped and the real size is read", () => {
+  const prepared = prepareImage(dataURL("image/jpeg", jpeg({ width: 40, height: 30 })));
+
+  assert.deepEqual(prepared.meta, { width: 40, height: 30, orientation: "landscape" });
+  assert.deepEqual(markers(decoded(prepared)), [0xe0, 0xc0]);
+  assert.equal(prepared.mimeType, "image/jpeg");
+});
+
+test("a rotated JPEG keeps only its orientation, right after APP0", () => {
+  const prepared = prepareImage(dataURL("image/jpg", jpeg({ width: 40, height: 30, orientation: 6 })));
+  const bytes = decoded(prepared);
+
+  assert.deepEqual(markers(bytes), [0xe0, 0xe1, 0xc0]);
+  assert.equal(bytes.includes(Buffer.from("Cam")), false);
+  // Orientation 6 turns the stored landscape frame into a portrait photo
+  assert.deepEqual(prepared.meta, { width: 30, height: 40, orientation: "portrait" });
+});
+
+test("PNG text chunks are dropped", () => {
+  const chunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    return Buffer.concat([length, Buffer.from(type, "ascii"), data, Buffer.alloc(4)]);
+  };
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(20, 0);
+  ihdr.writeUInt32BE(20, 4);
+  const png = Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", ihdr),
+    chunk("tEXt", Buffer.from("Comment\0GPS 1,2", "latin1")),
+    chunk("IDAT", Buffer.from([0])),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+
+  const prepared = prepareImage(dataURL("image/png", png));
+
+  assert.deepEqual(prepared.meta, { width: 20, height: 20, orientation: "square" });
+  assert.equal(decoded(prepared).includes(Buffer.from("tEXt")), false);
+  assert.equal(prepared.bytes, png.length - 27);
+});
+
+test("bad images are refused with the matching status", () => {
+  const photo = jpeg({ width: 40, height: 30 });
+  rejects("https://example.com/meal.jpg", 400);
+  rejects("data:image/jpeg;base64,not base64!", 400);
+  rejects(dataURL("image/bmp", photo), 415);
+  rejects(dataURL("image/png", photo), 415);
+  rejects(dataURL("image/jpeg", Buffer.from("plain text, not an image")), 415);
+  rejects(dataURL("image/jpeg", photo.subarray(0, 30)), 400);
+  rejects(`data:image/jpeg;base64,${"A".repeat(10 * 1024 * 1024)}`, 413);
+});
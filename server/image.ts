@@ -0,0 +1,286 @@
+// Server-side image intake: decodes the request's data URL, checks the declared MIME type
+// against the file's magic bytes, enforces size limits, strips metadata (EXIF/GPS, XMP, text
+// chunks) and reads the real pixel dimensions for `image_meta`.
+// Header parsing only, no pixel decoding, so it stays dependency-free. Imports stay relative
+// (bundled into api/index.ts).
+import type { ImageMeta } from "../shared/schema";
+
+export type ImageMimeType = 'image/jpeg' | 'image/png' | 'image/webp' | 'image/gif';
+
+export interface PreparedImage {
+  // Re-encoded data URL of the sanitized bytes; this is what the model receives
+  dataURL: string;
+  mimeType: ImageMimeType;
+  bytes: number;
+  meta: ImageMeta;
+}
+
+// 413 when over a limit, 415 for unsupported or mislabeled formats, 400 when undecodable.
+export class ImageValidationError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'ImageValidationError';
+  }
+}
+
+const MAX_IMAGE_BYTES = Number(process.env.MAX_IMAGE_BYTES) || 7 * 1024 * 1024;
+const MAX_IMAGE_PIXELS = Number(process.env.MAX_IMAGE_PIXELS) || 40_000_000;
+
+const MIME_ALIASES: Record<string, ImageMimeType> = {
+  'image/jpeg': 'image/jpeg',
+  'image/jpg': 'image/jpeg',
+  'image/pjpeg': 'image/jpeg',
+  'image/png': 'image/png',
+  'image/webp': 'image/webp',
+  'image/gif': 'image/gif',
+};
+
+function sniffMimeType(bytes: Buffer): ImageMimeType | null {
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (bytes.length >= 8 && bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  if (bytes.length >= 12 && bytes.toString('ascii', 0, 4) === 'RIFF' && bytes.toString('ascii', 8, 12) === 'WEBP') return 'image/webp';
+  if (bytes.length >= 6 && /^GIF8[79]a$/.test(bytes.toString('ascii', 0, 6))) return 'image/gif';
+  return null;
+}
+
+// ----- JPEG -----
+
+// SOF markers that carry frame dimensions (C4 DHT, C8 JPG and CC DAC share the range but don't).
+function isStartOfFrame(marker: number): boolean {
+  return marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+}
+
+// Reads the Orientation tag (0x0112) from an APP1 Exif payload; 1 (upright) when absent.
+function readExifOrientation(app1: Buffer): number {
+  if (app1.length < 14 || app1.toString('ascii', 0, 6) !== 'Exif\0\0') return 1;
+  const tiff = app1.subarray(6);
+  const little = tiff.toString('ascii', 0, 2) === 'II';
+  const u16 = (offset: number) => little ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset);
+  const u32 = (offset: number) => little ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset);
+
+  const ifd = u32(4);
+  if (ifd + 2 > tiff.length) return 1;
+  const count = u16(ifd);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > tiff.length) break;
+    if (u16(entry) === 0x0112) {
+      const value = u16(entry + 8);
+      return value >= 1 && value <= 8 ? value : 1;
+    }
+  }
+  return 1;
+}
+
+// A minimal APP1 holding only the Orientation tag, so browsers and models still rotate the photo.
+function orientationOnlyExif(orientation: number): Buffer {
+  const tiff = Buffer.alloc(26);
+  tiff.write('MM', 0, 'ascii');
+  tiff.writeUInt16BE(42, 2);
+  tiff.writeUInt32BE(8, 4); // IFD0 offset
+  tiff.writeUInt16BE(1, 8); // one entry
+  tiff.writeUInt16BE(0x0112, 10); // Orientation
+  tiff.writeUInt16BE(3, 12); // SHORT
+  tiff.writeUInt32BE(1, 14);
+  tiff.writeUInt16BE(orientation, 18);
+  tiff.writeUInt32BE(0, 22); // no next IFD
+
+  const header = Buffer.from([0xff, 0xe1, 0, 0]);
+  header.writeUInt16BE(2 + 6 + tiff.length, 2);
+  return Buffer.concat([header, Buffer.from('Exif\0\0', 'ascii'), tiff]);
+}
+
+// Drops APP1 (Exif/XMP), APP13 (IPTC) and comment segments; keeps APP0/JFIF, ICC profiles and
+// Adobe markers, which affect how the pixels decode.
+function processJpeg(bytes: Buffer): { bytes: Buffer; width: number; height: number } {
+  const kept: Buffer[] = [bytes.subarray(0, 2)];
+  let orientation = 1;
+  let width = 0;
+  let height = 0;
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) throw new ImageValidationError('Corrupt JPEG: bad segment marker', 400);
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++; // fill byte
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) break; // start of scan: the rest is entropy-coded data
+
+    const length = bytes.readUInt16BE(offset + 2);
+    const end = offset + 2 + length;
+    if (length < 2 || end > bytes.length) throw new ImageValidationError('Corrupt JPEG: truncated segment', 400);
+
+    if (isStartOfFrame(marker) && length >= 7) {
+      height = bytes.readUInt16BE(offset + 5);
+      width = bytes.readUInt16BE(offset + 7);
+    }
+    if (marker === 0xe1) {
+      // XMP also lives in APP1; only an Exif payload carries the orientation.
+      const value = readExifOrientation(bytes.subarray(offset + 4, end));
+      if (value !== 1) orientation = value;
+    } else if (marker !== 0xed && marker !== 0xfe) {
+      kept.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  if (width === 0 || height === 0) throw new ImageValidationError('Corrupt JPEG: no frame header', 400);
+  // After APP0/JFIF when present: some decoders expect it right after SOI
+  if (orientation !== 1) kept.splice(kept[1]?.[1] === 0xe0 ? 2 : 1, 0, orientationOnlyExif(orientation));
+  kept.push(bytes.subarray(offset));
+
+  // Orientations 5-8 rotate by 90°, so the displayed image is the stored one transposed.
+  return orientation >= 5
+    ? { bytes: Buffer.concat(kept), width: height, height: width }
+    : { bytes: Buffer.concat(kept), width, height };
+}
+
+// ----- PNG -----
+
+// eXIf holds EXIF; text chunks can carry XMP or "Raw profile type exif".
+const PNG_METADATA_CHUNKS = new Set(['eXIf', 'tEXt', 'zTXt', 'iTXt']);
+
+function processPng(bytes: Buffer): { bytes: Buffer; width: number; height: number } {
+  if (bytes.length < 33 || bytes.toString('ascii', 12, 16) !== 'IHDR') {
+    throw new ImageValidationError('Corrupt PNG: missing IHDR', 400);
+  }
+  const width = bytes.readUInt32BE(16);
+  const height = bytes.readUInt32BE(20);
+
+  const kept: Buffer[] = [bytes.subarray(0, 8)];
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const end = offset + 12 + bytes.readUInt32BE(offset);
+    if (end > bytes.length) throw new ImageValidationError('Corrupt PNG: truncated chunk', 400);
+    const type = bytes.toString('ascii', offset + 4, offset + 8);
+    if (!PNG_METADATA_CHUNKS.has(type)) kept.push(bytes.subarray(offset, end));
+    offset = end;
+    if (type === 'IEND') break;
+  }
+  return { bytes: Buffer.concat(kept), width, height };
+}
+
+// ----- WebP -----
+
+const VP8X_XMP_FLAG = 0x04;
+const VP8X_EXIF_FLAG = 0x08;
+
+function processWebp(bytes: Buffer): { bytes: Buffer; width: number; height: number } {
+  let width = 0;
+  let height = 0;
+  const kept: Buffer[] = [];
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const type = bytes.toString('ascii', offset, offset + 4);
+    const size = bytes.readUInt32LE(offset + 4);
+    const end = offset + 8 + size + (size % 2); // chunks are padded to even sizes
+    if (offset + 8 + size > bytes.length) throw new ImageValidationError('Corrupt WebP: truncated chunk', 400);
+    const data = offset + 8;
+
+    if (type === 'VP8X' && size >= 10) {
+      width = 1 + bytes.readUIntLE(data + 4, 3);
+      height = 1 + bytes.readUIntLE(data + 7, 3);
+      const chunk = Buffer.from(bytes.subarray(offset, Math.min(end, bytes.length)));
+      chunk[8] &= ~(VP8X_EXIF_FLAG | VP8X_XMP_FLAG);
+      kept.push(chunk);
+    } else if (type === 'EXIF' || type === 'XMP ') {
+      // dropped
+    } else {
+      if (type === 'VP8 ' && width === 0 && size >= 10) {
+        width = bytes.readUInt16LE(data + 6) & 0x3fff;
+        height = bytes.readUInt16LE(data + 8) & 0x3fff;
+      } else if (type === 'VP8L' && width === 0 && size >= 5) {
+        const bits = bytes.readUInt32LE(data + 1);
+        width = (bits & 0x3fff) + 1;
+        height = ((bits >> 14) & 0x3fff) + 1;
+      }
+      kept.push(bytes.subarray(offset, Math.min(end, bytes.length)));
+    }
+    offset = end;
+  }
+
+  if (width === 0 || height === 0) throw new ImageValidationError('Corrupt WebP: no image header', 400);
+  const body = Buffer.concat(kept);
+  const header = Buffer.alloc(12);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(4 + body.length, 4);
+  header.write('WEBP', 8, 'ascii');
+  return { bytes: Buffer.concat([header, body]), width, height };
+}
+
+// ----- GIF -----
+
+// GIF has no EXIF; comment extensions are left alone.
+function processGif(bytes: Buffer): { bytes: Buffer; width: number; height: number } {
+  if (bytes.length < 10) throw new ImageValidationError('Corrupt GIF: truncated header', 400);
+  return { bytes, width: bytes.readUInt16LE(6), height: bytes.readUInt16LE(8) };
+}
+
+const PROCESSORS: Record<ImageMimeType, (bytes: Buffer) => { bytes: Buffer; width: number; height: number }> = {
+  'image/jpeg': processJpeg,
+  'image/png': processPng,
+  'image/webp': processWebp,
+  'image/gif': processGif,
+};
+
+function orientationOf(width: number, height: number): ImageMeta['orientation'] {
+  if (width === height) return 'square';
+  return width > height ? 'landscape' : 'portrait';
+}
+
+function decodeDataURL(dataURL: string): { declared: string; bytes: Buffer } {
+  const match = /^data:([^;,]+)((?:;[^;,]*)*?);base64,/i.exec(dataURL);
+  if (!match) {
+    throw new ImageValidationError('Image must be a base64-encoded data: URL', 400);
+  }
+  const payload = dataURL.slice(match[0].length).replace(/\s/g, '');
+  // base64 inflates by 4/3; refuse before allocating anything much larger than the limit.
+  if (payload.length * 3 / 4 > MAX_IMAGE_BYTES + 3) {
+    throw new ImageValidationError(`Image is larger than ${Math.round(MAX_IMAGE_BYTES / 1024 / 1024)} MB`, 413);
+  }
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(payload)) {
+    throw new ImageValidationError('Image data is not valid base64', 400);
+  }
+  return { declared: match[1].toLowerCase(), bytes: Buffer.from(payload, 'base64') };
+}
+
+// Validates and sanitizes a request image. Throws ImageValidationError with the HTTP status to return.
+export function prepareImage(dataURL: string): PreparedImage {
+  const { declared, bytes } = decodeDataURL(dataURL);
+  if (bytes.length === 0) {
+    throw new ImageValidationError('Image is empty', 400);
+  }
+
+  const declaredType = MIME_ALIASES[declared];
+  if (!declaredType) {
+    throw new ImageValidationError(`Unsupported image type ${declared} (use JPEG, PNG, WebP or GIF)`, 415);
+  }
+  const actualType = sniffMimeType(bytes);
+  if (!actualType) {
+    throw new ImageValidationError('Image data is not a JPEG, PNG, WebP or GIF file', 415);
+  }
+  if (actualType !== declaredType) {
+    throw new ImageValidationError(`Image was declared as ${declaredType} but contains ${actualType} data`, 415);
+  }
+
+  const { bytes: sanitized, width, height } = PROCESSORS[actualType](bytes);
+  if (width === 0 || height === 0) {
+    throw new ImageValidationError('Image has no pixels', 400);
+  }
+  if (width * height > MAX_IMAGE_PIXELS) {
+    throw new ImageValidationError(
+      `Image is ${width}×${height}; the limit is ${Math.round(MAX_IMAGE_PIXELS / 1_000_000)} megapixels`,
+      413,
+    );
+  }
+
+  return {
+    dataURL: `data:${actualType};base64,${sanitized.toString('base64')}`,
+    mimeType: actualType,
+    bytes: sanitized.length,
+    meta: { width, height, orientation: orientationOf(width, height) },
+  };
+}
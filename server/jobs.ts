@@ -0,0 +1,246 @@
+// Asynchronous analysis jobs: POST returns a job ID immediately, the pipeline runs in the
+// background and its progress is streamed over Server-Sent Events.
+// Jobs live in this process's memory, so they need the long-running Express server; the Vercel
+// handler only mounts the synchronous endpoints.
+import type { Express, Request, Response } from "express";
+import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import {
+  AnalysisJobRequestSchema,
+  type AnalysisCacheMode,
+  type AnalysisJobEvent,
+  type AnalysisMode,
+  type AnalysisSource,
+  type ScaleReference,
+} from "@shared/schema";
+import {
+  AnalysisCancelledError,
+  AnalysisError,
+  analysisPrompt,
+  prepareRequestImage,
+  runAnalysis,
+  type AnalysisProgress,
+} from "./analysis";
+import type { PreparedImage } from "./image";
+import { analysisCacheKey, resolveCacheMode, withAnalysisCache } from "./cache";
+import { getVisionProvider } from "./providers";
+import { promptKey } from "./prompts";
+
+const MAX_CONCURRENT_JOBS = 2;
+// Finished jobs stay readable this long so a late EventSource still gets the result.
+const FINISHED_JOB_TTL_MS = 10 * 60 * 1000;
+const SSE_HEARTBEAT_MS = 15 * 1000;
+
+const TERMINAL_STAGES: AnalysisJobEvent['stage'][] = ['done', 'failed', 'cancelled'];
+
+interface AnalysisJob {
+  id: string;
+  source: AnalysisSource;
+  image: PreparedImage | null; // sanitized once at intake; dropped when the job finishes
+  mode: AnalysisMode;
+  reference?: ScaleReference;
+  cacheMode: AnalysisCacheMode;
+  events: AnalysisJobEvent[];
+  emitter: EventEmitter;
+  controller: AbortController;
+  model?: string;
+  finished: boolean;
+}
+
+const jobs = new Map<string, AnalysisJob>();
+const pending: AnalysisJob[] = [];
+let running = 0;
+
+function emit(job: AnalysisJob, event: Omit<AnalysisJobEvent, 'at'>): void {
+  const stamped: AnalysisJobEvent = { ...event, at: new Date().toISOString() };
+  job.events.push(stamped);
+  job.emitter.emit('event', stamped);
+}
+
+function finish(job: AnalysisJob, event: Omit<AnalysisJobEvent, 'at'>): void {
+  if (job.finished) return;
+  job.finished = true;
+  // Drop the image once the job is over; only the events are kept.
+  job.image = null;
+  emit(job, event);
+  setTimeout(() => jobs.delete(job.id), FINISHED_JOB_TTL_MS).unref();
+}
+
+async function processJob(job: AnalysisJob): Promise<void> {
+  const { signal } = job.controller;
+  const onProgress = (progress: AnalysisProgress) => {
+    if (progress.stage === 'model_call') job.model = progress.model;
+    emit(job, progress);
+  };
+
+  try {
+    const image = job.image!;
+    const prompt = analysisPrompt(job.mode);
+    const { analysis, status } = await withAnalysisCache(
+      analysisCacheKey(image.dataURL, { mode: job.mode, reference: job.reference, prompt: promptKey(prompt) }),
+      job.cacheMode,
+      () => runAnalysis(image, job.source, getVisionProvider(), {
+        mode: job.mode,
+        prompt,
+        reference: job.reference,
+        signal,
+        onProgress,
+      }),
+    );
+    if (signal.aborted) throw new AnalysisCancelledError();
+
+    const cached = status === 'HIT';
+    const model = analysis.provenance?.model ?? job.model;
+    finish(job, {
+      stage: 'done',
+      message: cached ? 'Loaded cached analysis' : `Analysis complete (${model})`,
+      model: cached ? undefined : model,
+      cached,
+      result: analysis,
+    });
+  } catch (error) {
+    if (error instanceof AnalysisCancelledError || signal.aborted) {
+      finish(job, { stage: 'cancelled', message: 'Analysis cancelled' });
+    } else {
+      console.error(`Analysis job ${job.id} failed:`, error);
+      finish(job, { stage: 'failed', message: error instanceof Error ? error.message : 'Analysis failed' });
+    }
+  }
+}
+
+function drainQueue(): void {
+  while (running < MAX_CONCURRENT_JOBS && pending.length > 0) {
+    const job = pending.shift()!;
+    if (job.finished) continue;
+    running++;
+    processJob(job).finally(() => {
+      running--;
+      drainQueue();
+    });
+  }
+}
+
+function createJob(
+  source: AnalysisSource,
+  image: PreparedImage,
+  options: { mode: AnalysisMode; reference?: ScaleReference; cacheMode: AnalysisCacheMode },
+): AnalysisJob {
+  const job: AnalysisJob = {
+    id: randomUUID(),
+    source,
+    image,
+    ...options,
+    events: [],
+    emitter: new EventEmitter(),
+    controller: new AbortController(),
+    finished: false,
+  };
+  jobs.set(job.id, job);
+  emit(job, { stage: 'queued', message: 'Waiting for an analysis slot' });
+  pending.push(job);
+  drainQueue();
+  return job;
+}
+
+function jobSummary(job: AnalysisJob) {
+  const last = job.events[job.events.length - 1];
+  return {
+    id: job.id,
+    source: job.source,
+    stage: last.stage,
+    model: job.model,
+    events: job.events.map(({ result, ...event }) => event),
+    result: last.result,
+  };
+}
+
+function streamJobEvents(req: Request, res: Response, job: AnalysisJob): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+
+  const send = (event: AnalysisJobEvent) => {
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+    if (TERMINAL_STAGES.includes(event.stage)) {
+      cleanup();
+      res.end();
+    }
+  };
+
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), SSE_HEARTBEAT_MS);
+  const cleanup = () => {
+    clearInterval(heartbeat);
+    job.emitter.off('event', send);
+  };
+
+  // Replay what already happened, then follow live events.
+  for (const event of job.events) {
+    send(event);
+  }
+  if (!job.finished) {
+    job.emitter.on('event', send);
+    req.on('close', cleanup);
+  }
+}
+
+export function registerAnalysisJobRoutes(app: Express): void {
+  app.post("/api/analysis-jobs", (req, res) => {
+    const parsed = AnalysisJobRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "A data:image/... dataURL and source are required" });
+    }
+
+    const { source, cache, mode = 'single', reference } = parsed.data;
+    let image: PreparedImage;
+    try {
+      image = prepareRequestImage(parsed.data.dataURL);
+    } catch (error) {
+      const status = error instanceof AnalysisError ? error.status : 400;
+      return res.status(status).json({ message: error instanceof Error ? error.message : "Invalid image" });
+    }
+
+    const job = createJob(source, image, {
+      mode,
+      reference,
+      cacheMode: resolveCacheMode(cache, req.get('Cache-Control')),
+    });
+    res.status(202).json({ id: job.id, events_url: `/api/analysis-jobs/${job.id}/events` });
+  });
+
+  app.get("/api/analysis-jobs/:id", (req, res) => {
+    const job = jobs.get(req.params.id);
+    if (!job) {
+      return res.status(404).json({ message: "Analysis job not found" });
+    }
+    res.json(jobSummary(job));
+  });
+
+  app.get("/api/analysis-jobs/:id/events", (req, res) => {
+    const job = jobs.get(req.params.id);
+    if (!job) {
+      return res.status(404).json({ message: "Analysis job not found" });
+    }
+    streamJobEvents(req, res, job);
+  });
+
+  app.delete("/api/analysis-jobs/:id", (req, res) => {
+    const job = jobs.get(req.params.id);
+    if (!job) {
+      return res.status(404).json({ message: "Analysis job not found" });
+    }
+    if (job.finished) {
+      return res.status(409).json({ message: "Analysis job already finished" });
+    }
+
+    job.controller.abort();
+    // Queued jobs never reach processJob, so finish them here.
+    if (pending.includes(job)) {
+      pending.splice(pending.indexOf(job), 1);
+      finish(job, { stage: 'cancelled', message: 'Analysis cancelled' });
+    }
+    res.status(204).end();
+  });
+}
@@ -0,0 +1,189 @@
+// Fixture analyses returned by the mock vision provider (VISION_PROVIDER=mock).
+// The first fixture includes the extended nutrient panel; the second predates it, so those
+// nutrients show as unknown.
+import type { NutritionAnalysis } from "../shared/schema";
+
+export const MOCK_ANALYSES: NutritionAnalysis[] = [
+  {
+    image_meta: { width: 800, height: 600, orientation: "landscape" },
+    composition: [
+      {
+        label: "nasi goreng",
+        confidence: 0.92,
+        serving_est_g: 200,
+        bbox_norm: { x: 0.1, y: 0.2, w: 0.5, h: 0.6 },
+        nutrition: {
+          calories_kcal: 315,
+          macros: { protein_g: 6, carbs_g: 48, fat_g: 11, fiber_g: 1.4, sugar_g: 1.2, saturated_fat_g: 2, added_sugar_g: 1 },
+          micros: {
+            sodium_mg: 620,
+            potassium_mg: 180,
+            calcium_mg: 30,
+            iron_mg: 1.2,
+            vitamin_a_mcg: 20,
+            vitamin_c_mg: 2,
+            cholesterol_mg: 30,
+            zinc_mg: 1,
+            vitamin_d_mcg: 0.2,
+            vitamin_b12_mcg: 0.1,
+            folate_mcg: 20,
+            iodine_mcg: 15,
+          },
+          allergens: ["egg", "soy"],
+        },
+      },
+      {
+        label: "telur goreng",
+        confidence: 0.88,
+        serving_est_g: 60,
+        bbox_norm: { x: 0.6, y: 0.15, w: 0.25, h: 0.3 },
+        nutrition: {
+          calories_kcal: 115,
+          macros: { protein_g: 8, carbs_g: 0.5, fat_g: 9, fiber_g: 0, sugar_g: 0.4, saturated_fat_g: 2.5, added_sugar_g: 0 },
+          micros: {
+            sodium_mg: 120,
+            potassium_mg: 80,
+            calcium_mg: 30,
+            iron_mg: 1.1,
+            vitamin_a_mcg: 90,
+            vitamin_c_mg: 0,
+            cholesterol_mg: 220,
+            zinc_mg: 0.7,
+            vitamin_d_mcg: 1.1,
+            vitamin_b12_mcg: 0.6,
+            folate_mcg: 28,
+            iodine_mcg: 15,
+          },
+          allergens: ["egg"],
+        },
+      },
+      {
+        label: "kerupuk udang",
+        confidence: 0.74,
+        serving_est_g: 15,
+        bbox_norm: { x: 0.62, y: 0.55, w: 0.22, h: 0.2 },
+        nutrition: {
+          calories_kcal: 82,
+          macros: { protein_g: 0.5, carbs_g: 10, fat_g: 4.5, fiber_g: 0.1, sugar_g: 0.2, saturated_fat_g: 1.5, added_sugar_g: 0.2 },
+          micros: {
+            sodium_mg: 180,
+            potassium_mg: 10,
+            calcium_mg: 5,
+            iron_mg: 0.2,
+            vitamin_a_mcg: 0,
+            vitamin_c_mg: 0,
+            cholesterol_mg: 0,
+            zinc_mg: 0.05,
+            vitamin_d_mcg: 0,
+            vitamin_b12_mcg: 0.05,
+            folate_mcg: 1,
+            iodine_mcg: 5,
+          },
+          allergens: ["shellfish"],
+        },
+      },
+    ],
+    totals: {
+      serving_total_g: 275,
+      calories_kcal: 512,
+      macros: { protein_g: 14.5, carbs_g: 58.5, fat_g: 24.5, fiber_g: 1.5, sugar_g: 1.8, saturated_fat_g: 6, added_sugar_g: 1.2 },
+      micros: {
+        sodium_mg: 920,
+        potassium_mg: 270,
+        calcium_mg: 65,
+        iron_mg: 2.5,
+        vitamin_a_mcg: 110,
+        vitamin_c_mg: 2,
+        cholesterol_mg: 250,
+        zinc_mg: 1.75,
+        vitamin_d_mcg: 1.3,
+        vitamin_b12_mcg: 0.75,
+        folate_mcg: 49,
+        iodine_mcg: 35,
+      },
+      allergens: ["egg", "soy", "shellfish"],
+    },
+    notes: "Mock analysis (VISION_PROVIDER=mock).",
+  },
+  {
+    image_meta: { width: 600, height: 800, orientation: "portrait" },
+    composition: [
+      {
+        label: "nasi putih",
+        confidence: 0.95,
+        serving_est_g: 150,
+        bbox_norm: { x: 0.15, y: 0.1, w: 0.5, h: 0.35 },
+        nutrition: {
+          calories_kcal: 189,
+          macros: { protein_g: 4, carbs_g: 42, fat_g: 0.5, fiber_g: 0.6, sugar_g: 0.1 },
+          micros: {
+            sodium_mg: 2,
+            potassium_mg: 50,
+            calcium_mg: 5,
+            iron_mg: 0.3,
+            vitamin_a_mcg: 0,
+            vitamin_c_mg: 0,
+            cholesterol_mg: 0,
+          },
+          allergens: [],
+        },
+      },
+      {
+        label: "ayam goreng",
+        confidence: 0.86,
+        serving_est_g: 80,
+        bbox_norm: { x: 0.55, y: 0.45, w: 0.35, h: 0.3 },
+        nutrition: {
+          calories_kcal: 200,
+          macros: { protein_g: 20, carbs_g: 3, fat_g: 12, fiber_g: 0, sugar_g: 0 },
+          micros: {
+            sodium_mg: 300,
+            potassium_mg: 190,
+            calcium_mg: 15,
+            iron_mg: 1,
+            vitamin_a_mcg: 30,
+            vitamin_c_mg: 0,
+            cholesterol_mg: 80,
+          },
+          allergens: ["wheat"],
+        },
+      },
+      {
+        label: "sayur bayam",
+        confidence: 0.81,
+        serving_est_g: 100,
+        bbox_norm: { x: 0.1, y: 0.55, w: 0.4, h: 0.35 },
+        nutrition: {
+          calories_kcal: 30,
+          macros: { protein_g: 2.5, carbs_g: 4, fat_g: 0.5, fiber_g: 2.2, sugar_g: 0.8 },
+          micros: {
+            sodium_mg: 250,
+            potassium_mg: 450,
+            calcium_mg: 90,
+            iron_mg: 2.5,
+            vitamin_a_mcg: 460,
+            vitamin_c_mg: 20,
+            cholesterol_mg: 0,
+          },
+          allergens: [],
+        },
+      },
+    ],
+    totals: {
+      serving_total_g: 330,
+      calories_kcal: 419,
+      macros: { protein_g: 26.5, carbs_g: 49, fat_g: 13, fiber_g: 2.8, sugar_g: 0.9 },
+      micros: {
+        sodium_mg: 552,
+        potassium_mg: 690,
+        calcium_mg: 110,
+        iron_mg: 3.8,
+        vitamin_a_mcg: 490,
+        vitamin_c_mg: 20,
+        cholesterol_mg: 80,
+      },
+      allergens: ["wheat"],
+    },
+    notes: "Mock analysis (VISION_PROVIDER=mock).",
+  },
+];
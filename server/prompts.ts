@@ -0,0 +1,213 @@
+// Prompt registry: named, versioned prompt templates for the analysis pipeline.
+// The active template is recorded in every analysis's `provenance`, so bump the version whenever
+// the wording changes instead of editing a published template in place.
+// Imports stay relative (bundled into api/index.ts).
+import type { ScaleReference } from "../shared/schema";
+import { getReferenceObject } from "../shared/reference-objects";
+
+export interface PromptInput {
+  reference?: ScaleReference;
+  description?: string; // text analyses only
+}
+
+// What a template analyzes: a meal photo, a typed description or a nutrition facts panel photo.
+// Photo templates are sent with the image; text templates only with the description.
+export type PromptKind = 'image' | 'text' | 'label';
+
+export interface PromptTemplate {
+  id: string;
+  version: string;
+  input: PromptKind;
+  description: string;
+  system: string;
+  user: (input: PromptInput) => string;
+}
+
+// Active template per kind, overridable through the environment variable.
+const DEFAULT_PROMPTS: Record<PromptKind, { env: string; key: string }> = {
+  image: { env: 'ANALYSIS_PROMPT', key: 'nutrition-analysis@v4' },
+  text: { env: 'TEXT_ANALYSIS_PROMPT', key: 'text-analysis@v3' },
+  label: { env: 'LABEL_ANALYSIS_PROMPT', key: 'label-analysis@v2' },
+};
+
+const SYSTEM_PREAMBLE = 'You are a pediatric nutrition and food composition expert. Respond with STRICT JSON only per the provided schema. No extra text.';
+
+const ANALYZE_INSTRUCTIONS = 'Analyze this image. Identify each distinct food item (e.g., nasi goreng, kerupuk, sayur, telur, sosis). For each item, estimate serving_est_g and provide nutrition fields. Provide composition bounding boxes as normalized bbox (x,y,w,h) in [0..1]. Sum all items into totals. Reply strictly with JSON schema only.';
+
+const DESCRIBE_INSTRUCTIONS = 'Estimate the nutrition of a meal from the parent\'s description below; there is no photo. The description may be in Indonesian or English and use household measures (piring, mangkuk, potong, sendok makan, gelas): convert them to grams for serving_est_g. Identify each distinct food item and provide nutrition fields. Set confidence to how clearly the description identifies the food and its amount. There are no bounding boxes: set every bbox_norm to {"x": 0, "y": 0, "w": 0, "h": 0} and image_meta to {"width": 0, "height": 0, "orientation": "square"}. Sum all items into totals. Reply strictly with JSON schema only.';
+
+const LABEL_INSTRUCTIONS = 'This photo shows the nutrition facts panel of a packaged food ("Informasi Nilai Gizi" or "Nutrition Facts"). Read the printed values; do not estimate. Return one composition item per panel: label is the product name if visible (otherwise the kind of food), confidence is how legible the panel is, serving_est_g is the serving size in grams (takaran saji; for drinks count 1 ml as 1 g), bbox_norm is the panel\'s normalized box, and nutrition holds the values for ONE serving exactly as printed (energi total, lemak total, protein, karbohidrat total, serat pangan, gula, natrium, kalium, kalsium, zat besi, vitamin A, vitamin C, kolesterol; 0 when not printed), with allergens from the allergen statement ("mengandung ..."). Also add "label_panel": {"serving_size_g": number, "servings_per_package": number} to the item, omitting servings_per_package when the panel does not print it. If no nutrition panel is visible, return an empty composition. Sum all items into totals. Reply strictly with JSON schema only.';
+
+const DIETARY_INSTRUCTIONS = 'Also add "dietary": {"contains_pork": boolean, "contains_alcohol": boolean, "vegetarian": boolean, "vegan": boolean, "halal_uncertain": boolean} to each item. Set halal_uncertain when the item may not be halal but you cannot tell (unknown meat, processed meat, gelatin, sauces that may contain wine or mirin); omit a flag you cannot judge at all.';
+
+const EXTENDED_NUTRIENTS_INSTRUCTIONS = 'Also estimate, per item and in totals, macros.saturated_fat_g, macros.added_sugar_g (added/free sugars, not sugars naturally in fruit or milk), micros.zinc_mg, micros.vitamin_d_mcg, micros.vitamin_b12_mcg, micros.folate_mcg (dietary folate equivalents) and micros.iodine_mcg. Omit a field you cannot estimate rather than writing 0.';
+
+const LABEL_EXTENDED_INSTRUCTIONS = 'Also read saturated fat (lemak jenuh) into macros.saturated_fat_g, added sugar (gula tambahan) into macros.added_sugar_g, and zinc (seng), vitamin D, vitamin B12, folate (asam folat) and iodine (iodium) into micros.zinc_mg, micros.vitamin_d_mcg, micros.vitamin_b12_mcg, micros.folate_mcg and micros.iodine_mcg; omit any of these the panel does not print. Convert percentages of daily value (%AKG) to amounts only when the amount itself is not printed.';
+
+const RESPONSE_FORMAT = `Return JSON in this exact format:
+{
+  "image_meta": {
+    "width": number,
+    "height": number,
+    "orientation": "portrait" | "landscape" | "square"
+  },
+  "composition": [
+    {
+      "label": "string",
+      "confidence": number,
+      "serving_est_g": number,
+      "bbox_norm": {
+        "x": number, "y": number, "w": number, "h": number
+      },
+      "nutrition": {
+        "calories_kcal": number,
+        "macros": {
+          "protein_g": number,
+          "carbs_g": number,
+          "fat_g": number,
+          "fiber_g": number,
+          "sugar_g": number
+        },
+        "micros": {
+          "sodium_mg": number,
+          "potassium_mg": number,
+          "calcium_mg": number,
+          "iron_mg": number,
+          "vitamin_a_mcg": number,
+          "vitamin_c_mg": number,
+          "cholesterol_mg": number
+        },
+        "allergens": ["string"]
+      }
+    }
+  ],
+  "totals": {
+    "serving_total_g": number,
+    "calories_kcal": number,
+    "macros": {
+      "protein_g": number,
+      "carbs_g": number,
+      "fat_g": number,
+      "fiber_g": number,
+      "sugar_g": number
+    },
+    "micros": {
+      "sodium_mg": number,
+      "potassium_mg": number,
+      "calcium_mg": number,
+      "iron_mg": number,
+      "vitamin_a_mcg": number,
+      "vitamin_c_mg": number,
+      "cholesterol_mg": number
+    },
+    "allergens": ["string"]
+  },
+  "notes": "string"
+}`;
+
+// Asks the model to use a declared reference object, and to locate it when the user did not mark it.
+function withReference(prompt: string, reference?: ScaleReference): string {
+  if (!reference) return prompt;
+  const object = getReferenceObject(reference.object);
+  const scale = `${prompt} The photo contains a ${object.description} for scale; use it when estimating serving_est_g.`;
+  if (reference.bbox_norm) return scale;
+  return `${scale} Also return its normalized box as "reference_bbox_norm": {"x": number, "y": number, "w": number, "h": number}, or omit the field if it is not visible. Do not list it in composition.`;
+}
+
+const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'nutrition-analysis',
+    version: 'v1',
+    input: 'image',
+    description: 'Original Vercel handler prompt: instructions only, no response format example',
+    system: SYSTEM_PREAMBLE,
+    user: ({ reference }) => withReference(ANALYZE_INSTRUCTIONS, reference),
+  },
+  {
+    id: 'nutrition-analysis',
+    version: 'v2',
+    input: 'image',
+    description: 'Original Express server prompt: instructions repeated in the system prompt with the full JSON format',
+    system: `${SYSTEM_PREAMBLE}\n\n${ANALYZE_INSTRUCTIONS}\n\n${RESPONSE_FORMAT}`,
+    user: ({ reference }) => withReference(ANALYZE_INSTRUCTIONS, reference),
+  },
+  {
+    id: 'nutrition-analysis',
+    version: 'v3',
+    input: 'image',
+    description: 'v2 plus per-item dietary flags (pork, alcohol, vegetarian, vegan, halal-uncertain)',
+    system: `${SYSTEM_PREAMBLE}\n\n${ANALYZE_INSTRUCTIONS} ${DIETARY_INSTRUCTIONS}\n\n${RESPONSE_FORMAT}`,
+    user: ({ reference }) => withReference(`${ANALYZE_INSTRUCTIONS} ${DIETARY_INSTRUCTIONS}`, reference),
+  },
+  {
+    id: 'nutrition-analysis',
+    version: 'v4',
+    input: 'image',
+    description: 'v3 plus the extended nutrient panel (saturated fat, added sugar, zinc, vitamin D, B12, folate, iodine)',
+    system: `${SYSTEM_PREAMBLE}\n\n${ANALYZE_INSTRUCTIONS} ${DIETARY_INSTRUCTIONS} ${EXTENDED_NUTRIENTS_INSTRUCTIONS}\n\n${RESPONSE_FORMAT}`,
+    user: ({ reference }) => withReference(`${ANALYZE_INSTRUCTIONS} ${DIETARY_INSTRUCTIONS} ${EXTENDED_NUTRIENTS_INSTRUCTIONS}`, reference),
+  },
+  {
+    id: 'text-analysis',
+    version: 'v1',
+    input: 'text',
+    description: 'Typed meal description, no photo',
+    system: `${SYSTEM_PREAMBLE}\n\n${DESCRIBE_INSTRUCTIONS}\n\n${RESPONSE_FORMAT}`,
+    user: ({ description = '' }) => `${DESCRIBE_INSTRUCTIONS}\n\nMeal description:\n"""\n${description}\n"""`,
+  },
+  {
+    id: 'text-analysis',
+    version: 'v2',
+    input: 'text',
+    description: 'v1 plus per-item dietary flags (pork, alcohol, vegetarian, vegan, halal-uncertain)',
+    system: `${SYSTEM_PREAMBLE}\n\n${DESCRIBE_INSTRUCTIONS} ${DIETARY_INSTRUCTIONS}\n\n${RESPONSE_FORMAT}`,
+    user: ({ description = '' }) => `${DESCRIBE_INSTRUCTIONS} ${DIETARY_INSTRUCTIONS}\n\nMeal description:\n"""\n${description}\n"""`,
+  },
+  {
+    id: 'text-analysis',
+    version: 'v3',
+    input: 'text',
+    description: 'v2 plus the extended nutrient panel (saturated fat, added sugar, zinc, vitamin D, B12, folate, iodine)',
+    system: `${SYSTEM_PREAMBLE}\n\n${DESCRIBE_INSTRUCTIONS} ${DIETARY_INSTRUCTIONS} ${EXTENDED_NUTRIENTS_INSTRUCTIONS}\n\n${RESPONSE_FORMAT}`,
+    user: ({ description = '' }) => `${DESCRIBE_INSTRUCTIONS} ${DIETARY_INSTRUCTIONS} ${EXTENDED_NUTRIENTS_INSTRUCTIONS}\n\nMeal description:\n"""\n${description}\n"""`,
+  },
+  {
+    id: 'label-analysis',
+    version: 'v1',
+    input: 'label',
+    description: 'Photo of a packaged food\'s nutrition facts panel; values are read, not estimated',
+    system: `${SYSTEM_PREAMBLE}\n\n${LABEL_INSTRUCTIONS}\n\n${RESPONSE_FORMAT}`,
+    user: () => LABEL_INSTRUCTIONS,
+  },
+  {
+    id: 'label-analysis',
+    version: 'v2',
+    input: 'label',
+    description: 'v1 plus the extended nutrient panel where the label prints it',
+    system: `${SYSTEM_PREAMBLE}\n\n${LABEL_INSTRUCTIONS} ${LABEL_EXTENDED_INSTRUCTIONS}\n\n${RESPONSE_FORMAT}`,
+    user: () => `${LABEL_INSTRUCTIONS} ${LABEL_EXTENDED_INSTRUCTIONS}`,
+  },
+];
+
+export function promptKey(template: Pick<PromptTemplate, 'id' | 'version'>): string {
+  return `${template.id}@${template.version}`;
+}
+
+export function listPromptTemplates(): PromptTemplate[] {
+  return PROMPT_TEMPLATES;
+}
+
+// Resolves "id@version" among the templates of one kind, defaulting to the active one.
+// Unknown keys throw so a typo in the environment fails loudly instead of silently analyzing
+// with another prompt.
+export function getPromptTemplate(
+  input: PromptKind = 'image',
+  key: string = process.env[DEFAULT_PROMPTS[input].env] || DEFAULT_PROMPTS[input].key,
+): PromptTemplate {
+  const candidates = PROMPT_TEMPLATES.filter(t => t.input === input);
+  const template = candidates.find(t => promptKey(t) === key);
+  if (!template) {
+    throw new Error(`Unknown ${input} analysis prompt "${key}" (available: ${candidates.map(promptKey).join(', ')})`);
+  }
+  return template;
+}
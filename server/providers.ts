@@ -0,0 +1,182 @@
+// Vision providers: the model backends behind the analyze endpoints.
+// Imports stay relative because this module is also bundled into the Vercel handler (api/index.ts).
+import { MOCK_ANALYSES } from "./mock-fixtures";
+
+const SUMOPOD_BASE_URL = "https://ai.sumopod.com/v1/chat/completions";
+
+export interface VisionRequest {
+  model: string;
+  systemPrompt: string;
+  userPrompt: string;
+  // Omitted for text-only requests
+  dataURL?: string;
+  // Aborts the underlying request when the caller cancels the analysis.
+  signal?: AbortSignal;
+  // JSON schema the reply must follow, for backends that support constrained decoding.
+  responseSchema?: { name: string; schema: object };
+  // Follow-up turn: the model's previous reply and what it must fix.
+  repair?: { previousResponse: string; instruction: string };
+}
+
+export interface VisionProvider {
+  readonly name: string;
+  // Returns a message when the provider cannot serve `model` (e.g. missing API key), otherwise null.
+  configurationError(model: string): string | null;
+  // Returns the raw text content of the model reply.
+  complete(request: VisionRequest): Promise<string>;
+}
+
+// Models that rejected `response_format`; they get plain prompting for the rest of the process.
+const modelsWithoutSchemaSupport = new Set<string>();
+
+export interface SumopodKeys {
+  gemini?: string;
+  gpt?: string;
+}
+
+export class SumopodProvider implements VisionProvider {
+  readonly name = "sumopod";
+
+  constructor(private readonly keys: SumopodKeys) {}
+
+  private keyFor(model: string): { key?: string; envName: string } {
+    if (model.startsWith("gemini/")) {
+      return { key: this.keys.gemini, envName: "SUMOPOD_GEMINI_API_KEY" };
+    }
+    return { key: this.keys.gpt, envName: "SUMOPOD_GPT5_API_KEY" };
+  }
+
+  configurationError(model: string): string | null {
+    const { key, envName } = this.keyFor(model);
+    return key ? null : `${envName} not configured`;
+  }
+
+  async complete(request: VisionRequest): Promise<string> {
+    const { model, systemPrompt, userPrompt, dataURL, signal, responseSchema, repair } = request;
+    const { key, envName } = this.keyFor(model);
+    if (!key) {
+      throw new Error(`${envName} not configured`);
+    }
+
+    const useSchema = responseSchema !== undefined && !modelsWithoutSchemaSupport.has(model);
+    const requestBody: Record<string, unknown> = {
+      model,
+      temperature: 0.2,
+      max_tokens: 4000,
+      messages: [
+        {
+          role: 'system',
+          content: systemPrompt,
+        },
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'text',
+              text: userPrompt,
+            },
+            ...(dataURL
+              ? [{
+                  type: 'image_url',
+                  image_url: {
+                    url: dataURL,
+                  },
+                }]
+              : []),
+          ],
+        },
+        ...(repair
+          ? [
+              { role: 'assistant', content: repair.previousResponse },
+              { role: 'user', content: repair.instruction },
+            ]
+          : []),
+      ],
+    };
+    if (useSchema) {
+      requestBody.response_format = {
+        type: 'json_schema',
+        json_schema: { name: responseSchema.name, schema: responseSchema.schema, strict: false },
+      };
+    }
+
+    console.log('Calling Sumopod API with model:', model);
+
+    const response = await fetch(SUMOPOD_BASE_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${key}`,
+      },
+      body: JSON.stringify(requestBody),
+      signal,
+    });
+
+    console.log('Sumopod API response status:', response.status);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Sumopod API error response body:', errorText);
+      // Some models behind the gateway do not support structured output; retry without it once.
+      if (useSchema && response.status === 400 && /response_format|json_schema/i.test(errorText)) {
+        modelsWithoutSchemaSupport.add(model);
+        return this.complete(request);
+      }
+      throw new Error(`Sumopod API error: ${response.status} ${response.statusText} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content ?? '';
+  }
+}
+
+// Offline provider for development and tests: no network, no API keys.
+// The same image always maps to the same fixture. `delayMs` simulates model latency.
+export class MockVisionProvider implements VisionProvider {
+  readonly name = "mock";
+
+  constructor(private readonly delayMs = 0) {}
+
+  configurationError(_model: string): string | null {
+    return null;
+  }
+
+  async complete({ dataURL, userPrompt, signal }: VisionRequest): Promise<string> {
+    if (this.delayMs > 0) {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, this.delayMs);
+        signal?.addEventListener("abort", () => {
+          clearTimeout(timer);
+          reject(signal.reason);
+        }, { once: true });
+      });
+    }
+    signal?.throwIfAborted();
+
+    // Text requests hash the prompt, which contains the description.
+    const key = dataURL ?? userPrompt;
+    let hash = 0;
+    for (let i = 0; i < key.length; i++) {
+      hash = (hash * 31 + key.charCodeAt(i)) >>> 0;
+    }
+    const fixture = MOCK_ANALYSES[hash % MOCK_ANALYSES.length];
+    return JSON.stringify(fixture);
+  }
+}
+
+// Picks the provider from VISION_PROVIDER ("sumopod" by default, or "mock").
+export function getVisionProvider(): VisionProvider {
+  const name = (process.env.VISION_PROVIDER || "sumopod").toLowerCase();
+
+  switch (name) {
+    case "mock":
+      return new MockVisionProvider(Number(process.env.MOCK_VISION_DELAY_MS) || 0);
+    case "sumopod":
+      return new SumopodProvider({
+        gemini: process.env.SUMOPOD_GEMINI_API_KEY || process.env.SUMOPOD_API_KEY,
+        gpt: process.env.SUMOPOD_GPT5_API_KEY || process.env.SUMOPOD_API_KEY,
+      });
+    default:
+      throw new Error(`Unknown VISION_PROVIDER: ${name}`);
+  }
+}
@@ -0,0 +1,82 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { FoodItem, NutritionAnalysis } from "./schema";
+import { canonicalizeFoodItem } from "./food-labels";
+import { sumTotals } from "./nutrition";
+import { matchAllergies, mergeAllergenDetections, normalizeAllergenTerm, standardizeAnalysisAllergens } from "./allergens";
+
+function item(label: string, allergens: string[]): FoodItem {
+  return canonicalizeFoodItem({
+    label,
+    confidence: 0.9,
+    serving_est_g: 100,
+    bbox_norm: { x: 0, y: 0, w: 0.5, h: 0.5 },
+    nutrition: {
+      calories_kcal: 150,
+      macros: { protein_g: 5, carbs_g: 20, fat_g: 5, fiber_g: 1, sugar_g: 2 },
+      micros: { sodium_mg: 200, potassium_mg: 100, calcium_mg: 20, iron_mg: 1, vitamin_a_mcg: 10, vitamin_c_mg: 0, cholesterol_mg: 0 },
+      allergens,
+    },
+  });
+}
+
+function analysis(composition: FoodItem[], mealAllergens: string[] = []): NutritionAnalysis {
+  const totals = sumTotals(composition);
+  totals.allergens = [...totals.allergens, ...mealAllergens];
+  return { composition, totals, image_meta: { width: 100, height: 100, orientation: "square" }, notes: "" };
+}
+
+test("free-text allergens map onto codes in either language", () => {
+  const mapped = (term: string) => {
+    const { code, confidence, may_contain } = normalizeAllergenTerm(term);
+    return { code, confidence, may_contain };
+  };
+
+  assert.deepEqual(mapped("Peanut Sauce"), { code: "peanut", confidence: "high", may_contain: false });
+  assert.deepEqual(mapped("bumbu kacang"), { code: "peanut", confidence: "high", may_contain: false });
+  assert.deepEqual(mapped("kecap ikan"), { code: "fish", confidence: "high", may_contain: false });
+  assert.deepEqual(mapped("crushed cashews"), { code: "tree_nut", confidence: "medium", may_contain: false });
+  assert.deepEqual(mapped("Dapat mengandung susu"), { code: "milk", confidence: "high", may_contain: true });
+  assert.deepEqual(mapped("traces of nuts"), { code: "tree_nut", confidence: "high", may_contain: true });
+  assert.deepEqual(mapped("msg"), { code: "other", confidence: "low", may_contain: false });
+});
+
+test("one detection per code; a definite mention outweighs a precaution", () => {
+  const merged = mergeAllergenDetections([
+    normalizeAllergenTerm("may contain milk"),
+    normalizeAllergenTerm("keju"),
+    normalizeAllergenTerm("egg"),
+  ]);
+
+  assert.deepEqual(merged.map(detection => detection.code), ["milk", "egg"]);
+  assert.equal(merged[0].may_contain, false);
+  assert.deepEqual(merged[0].terms, ["may contain milk", "keju"]);
+});
+
+test("standardizing is idempotent and keeps meal-level allergens", () => {
+  const once = standardizeAnalysisAllergens(analysis([item("gado-gado", ["peanut sauce", "telur"])], ["udang"]));
+  const twice = standardizeAnalysisAllergens(once);
+
+  assert.deepEqual(once.composition[0].nutrition.allergens, ["peanut", "egg"]);
+  assert.deepEqual(once.totals.allergens, ["peanut", "egg", "shellfish"]);
+  assert.deepEqual(twice, once);
+});
+
+test("a child's allergies are matched most severe first, naming the items", () => {
+  const meal = standardizeAnalysisAllergens(analysis([
+    item("telur goreng", ["egg"]),
+    item("roti tawar", ["wheat", "may contain sesame"]),
+  ]));
+
+  const matches = matchAllergies(meal, [
+    { code: "sesame", severity: "mild" },
+    { code: "egg", severity: "severe" },
+    { code: "fish", severity: "severe" },
+  ], "en");
+
+  assert.deepEqual(matches.map(({ code, severity, may_contain }) => ({ code, severity, may_contain })), [
+    { code: "egg", severity: "severe", may_contain: false },
+    { code: "sesame", severity: "mild", may_contain: true },
+  ]);
+  assert.deepEqual(matches[0].items, ["Fried egg"]);
+});
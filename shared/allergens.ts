@@ -0,0 +1,165 @@
+// Canonical allergen taxonomy: maps the model's free-text allergens (English or Indonesian,
+// "may contain" statements included) onto fixed codes, and matches meals against a child's
+// known allergies.
+import type {
+  AllergenCode,
+  AllergenConfidence,
+  AllergenDetection,
+  AllergySeverity,
+  ChildAllergy,
+  FoodItem,
+  Language,
+  NutritionAnalysis,
+} from "./schema";
+import { foodDisplayName, normalizeLabelText } from "./food-labels";
+
+export interface AllergenEntry {
+  code: AllergenCode;
+  names: { id: string; en: string };
+  synonyms: string[];
+}
+
+export const ALLERGENS: AllergenEntry[] = [
+  { code: 'milk', names: { id: 'Susu', en: 'Milk' }, synonyms: ['milk', 'dairy', 'lactose', 'cheese', 'butter', 'cream', 'whey', 'casein', 'yogurt', 'yoghurt', 'susu', 'keju', 'mentega', 'krim', 'laktosa'] },
+  { code: 'egg', names: { id: 'Telur', en: 'Egg' }, synonyms: ['egg', 'eggs', 'albumin', 'mayonnaise', 'telur', 'telor'] },
+  { code: 'peanut', names: { id: 'Kacang tanah', en: 'Peanut' }, synonyms: ['peanut', 'peanuts', 'groundnut', 'groundnuts', 'peanut sauce', 'peanut butter', 'kacang', 'kacang tanah', 'saus kacang', 'bumbu kacang', 'selai kacang'] },
+  { code: 'tree_nut', names: { id: 'Kacang pohon', en: 'Tree nuts' }, synonyms: ['tree nut', 'tree nuts', 'nut', 'nuts', 'almond', 'almonds', 'cashew', 'cashews', 'walnut', 'walnuts', 'hazelnut', 'hazelnuts', 'pecan', 'pistachio', 'macadamia', 'kacang pohon', 'kacang mete', 'mete', 'kenari', 'kemiri', 'candlenut'] },
+  { code: 'soy', names: { id: 'Kedelai', en: 'Soy' }, synonyms: ['soy', 'soya', 'soybean', 'soybeans', 'soy sauce', 'tofu', 'tempeh', 'kedelai', 'kedele', 'kecap', 'tahu', 'tempe'] },
+  { code: 'wheat', names: { id: 'Gandum / gluten', en: 'Wheat / gluten' }, synonyms: ['wheat', 'gluten', 'flour', 'wheat flour', 'barley', 'rye', 'gandum', 'terigu', 'tepung terigu', 'jelai'] },
+  { code: 'fish', names: { id: 'Ikan', en: 'Fish' }, synonyms: ['fish', 'anchovy', 'anchovies', 'tuna', 'salmon', 'fish sauce', 'ikan', 'teri', 'kecap ikan'] },
+  { code: 'shellfish', names: { id: 'Kerang dan udang', en: 'Shellfish' }, synonyms: ['shellfish', 'crustacean', 'crustaceans', 'mollusc', 'molluscs', 'mollusk', 'shrimp', 'prawn', 'prawns', 'crab', 'lobster', 'squid', 'clam', 'clams', 'oyster', 'mussel', 'shrimp paste', 'udang', 'kepiting', 'rajungan', 'cumi', 'kerang', 'tiram', 'terasi', 'ebi'] },
+  { code: 'sesame', names: { id: 'Wijen', en: 'Sesame' }, synonyms: ['sesame', 'sesame seeds', 'sesame oil', 'tahini', 'wijen', 'minyak wijen'] },
+  { code: 'mustard', names: { id: 'Mustard', en: 'Mustard' }, synonyms: ['mustard', 'mostar', 'moster'] },
+  { code: 'celery', names: { id: 'Seledri', en: 'Celery' }, synonyms: ['celery', 'seledri', 'seledri daun'] },
+  { code: 'sulfite', names: { id: 'Sulfit', en: 'Sulfites' }, synonyms: ['sulfite', 'sulfites', 'sulphite', 'sulphites', 'sulfur dioxide', 'sulfit'] },
+  { code: 'lupin', names: { id: 'Lupin', en: 'Lupin' }, synonyms: ['lupin', 'lupine'] },
+  { code: 'other', names: { id: 'Lainnya', en: 'Other' }, synonyms: [] },
+];
+
+const ALLERGENS_BY_CODE = new Map(ALLERGENS.map(entry => [entry.code, entry]));
+
+const SYNONYM_INDEX: { synonym: string; code: AllergenCode }[] = ALLERGENS
+  .flatMap(entry => [entry.code.replace(/_/g, ' '), ...entry.synonyms].map(synonym => ({
+    synonym: normalizeLabelText(synonym),
+    code: entry.code,
+  })))
+  // Longest first so "peanut sauce" wins over "nut"
+  .sort((a, b) => b.synonym.length - a.synonym.length);
+
+// Precautionary wording ("may contain peanuts", "dapat mengandung susu", "traces of nuts")
+const MAY_CONTAIN = /\b(may contain|might contain|can contain|traces? of|trace|possible|possibly|dapat mengandung|mungkin mengandung|bisa mengandung|jejak)\b/;
+
+const CONFIDENCE_RANK: Record<AllergenConfidence, number> = { low: 0, medium: 1, high: 2 };
+const SEVERITY_RANK: Record<AllergySeverity, number> = { mild: 0, moderate: 1, severe: 2 };
+
+export function getAllergen(code: AllergenCode): AllergenEntry {
+  return ALLERGENS_BY_CODE.get(code) ?? ALLERGENS_BY_CODE.get('other')!;
+}
+
+export function allergenName(code: AllergenCode, language: Language = 'en'): string {
+  return getAllergen(code).names[language];
+}
+
+// Maps one free-text allergen onto a code. Unmapped wording becomes 'other' with low confidence.
+export function normalizeAllergenTerm(term: string): AllergenDetection {
+  const normalized = normalizeLabelText(term);
+  const mayContain = MAY_CONTAIN.test(normalized);
+  const text = normalized.replace(MAY_CONTAIN, ' ').replace(/\s+/g, ' ').trim();
+
+  const exact = SYNONYM_INDEX.find(({ synonym }) => synonym === text);
+  if (exact) return { code: exact.code, confidence: 'high', may_contain: mayContain, terms: [term] };
+
+  const padded = ` ${text} `;
+  const partial = SYNONYM_INDEX.find(({ synonym }) => padded.includes(` ${synonym} `));
+  if (partial) return { code: partial.code, confidence: 'medium', may_contain: mayContain, terms: [term] };
+
+  return { code: 'other', confidence: 'low', may_contain: mayContain, terms: [term] };
+}
+
+// One detection per code: the most confident mapping wins, and the allergen counts as a
+// definite ingredient if any source says so.
+export function mergeAllergenDetections(detections: AllergenDetection[]): AllergenDetection[] {
+  const byCode = new Map<AllergenCode, AllergenDetection>();
+  for (const detection of detections) {
+    const existing = byCode.get(detection.code);
+    if (!existing) {
+      byCode.set(detection.code, { ...detection, terms: [...detection.terms] });
+      continue;
+    }
+    existing.confidence = CONFIDENCE_RANK[detection.confidence] > CONFIDENCE_RANK[existing.confidence]
+      ? detection.confidence
+      : existing.confidence;
+    existing.may_contain = existing.may_contain && detection.may_contain;
+    existing.terms = Array.from(new Set([...existing.terms, ...detection.terms]));
+  }
+  return Array.from(byCode.values());
+}
+
+// Details for a list of allergens. Entries already standardized keep their detection (and so
+// their "may contain" flag); anything else is mapped afresh.
+function standardizeList(allergens: string[], known: AllergenDetection[] = []): AllergenDetection[] {
+  const knownByCode = new Map(known.map(detection => [detection.code as string, detection]));
+  return mergeAllergenDetections(allergens.map(allergen => knownByCode.get(allergen) ?? normalizeAllergenTerm(allergen)));
+}
+
+export function standardizeItemAllergens(item: FoodItem): FoodItem {
+  const details = standardizeList(item.nutrition.allergens, item.allergen_details);
+  return {
+    ...item,
+    nutrition: { ...item.nutrition, allergens: details.map(detection => detection.code) },
+    allergen_details: details,
+  };
+}
+
+// Rewrites every allergen list of the analysis as canonical codes with matching details.
+// Idempotent, so it can run again after the result is edited.
+export function standardizeAnalysisAllergens(analysis: NutritionAnalysis): NutritionAnalysis {
+  const composition = analysis.composition.map(standardizeItemAllergens);
+  const details = mergeAllergenDetections([
+    ...composition.flatMap(item => item.allergen_details ?? []),
+    ...standardizeList(analysis.totals.allergens, analysis.allergen_details),
+  ]);
+  return {
+    ...analysis,
+    composition,
+    totals: { ...analysis.totals, allergens: details.map(detection => detection.code) },
+    allergen_details: details,
+  };
+}
+
+// Details to display for an item or meal, also for results saved before standardization.
+export function allergenDetails(allergens: string[], details?: AllergenDetection[]): AllergenDetection[] {
+  return details ?? standardizeList(allergens);
+}
+
+export interface AllergyMatch {
+  code: AllergenCode;
+  severity: AllergySeverity;
+  may_contain: boolean;
+  confidence: AllergenConfidence;
+  items: string[]; // display names of the items carrying the allergen (empty for meal-level mentions)
+}
+
+// The meal's allergens the child is allergic to, most severe first.
+export function matchAllergies(
+  analysis: NutritionAnalysis,
+  allergies: ChildAllergy[],
+  language: Language = 'id',
+): AllergyMatch[] {
+  const mealDetails = allergenDetails(analysis.totals.allergens, analysis.allergen_details);
+  const matches: AllergyMatch[] = [];
+  for (const allergy of allergies) {
+    const detection = mealDetails.find(candidate => candidate.code === allergy.code);
+    if (!detection) continue;
+    matches.push({
+      code: allergy.code,
+      severity: allergy.severity,
+      may_contain: detection.may_contain,
+      confidence: detection.confidence,
+      items: analysis.composition
+        .filter(item => allergenDetails(item.nutrition.allergens, item.allergen_details).some(d => d.code === allergy.code))
+        .map(item => foodDisplayName(item, language)),
+    });
+  }
+  return matches.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+}
@@ -0,0 +1,66 @@
+// Default daily goals for a child profile from the Indonesian recommended dietary allowances
+// (Angka Kecukupan Gizi, Permenkes 28/2019), by age group and, from 10 years, by sex. Used
+// when a child has no goals of their own.
+import type { ChildProfile } from "./schema";
+
+export interface DailyGoals {
+  dailyCalories: number; // kcal
+  dailyProtein: number; // g
+  dailyCarbs: number; // g
+  dailyFat: number; // g
+  dailyFiber: number; // g
+}
+
+interface AkgGroup {
+  maxMonths: number; // exclusive upper bound of the age group
+  sex?: ChildProfile['sex']; // both when omitted
+  referenceWeightKg: number;
+  goals: DailyGoals;
+}
+
+const AKG_2019: AkgGroup[] = [
+  { maxMonths: 6, referenceWeightKg: 6, goals: { dailyCalories: 550, dailyProtein: 9, dailyCarbs: 59, dailyFat: 31, dailyFiber: 0 } },
+  { maxMonths: 12, referenceWeightKg: 9, goals: { dailyCalories: 800, dailyProtein: 15, dailyCarbs: 105, dailyFat: 35, dailyFiber: 11 } },
+  { maxMonths: 48, referenceWeightKg: 13, goals: { dailyCalories: 1350, dailyProtein: 20, dailyCarbs: 215, dailyFat: 45, dailyFiber: 19 } },
+  { maxMonths: 84, referenceWeightKg: 19, goals: { dailyCalories: 1400, dailyProtein: 25, dailyCarbs: 220, dailyFat: 50, dailyFiber: 20 } },
+  { maxMonths: 120, referenceWeightKg: 27, goals: { dailyCalories: 1650, dailyProtein: 40, dailyCarbs: 250, dailyFat: 55, dailyFiber: 23 } },
+  { maxMonths: 156, sex: 'male', referenceWeightKg: 36, goals: { dailyCalories: 2000, dailyProtein: 50, dailyCarbs: 300, dailyFat: 65, dailyFiber: 28 } },
+  { maxMonths: 192, sex: 'male', referenceWeightKg: 50, goals: { dailyCalories: 2400, dailyProtein: 70, dailyCarbs: 350, dailyFat: 80, dailyFiber: 34 } },
+  { maxMonths: 228, sex: 'male', referenceWeightKg: 60, goals: { dailyCalories: 2650, dailyProtein: 75, dailyCarbs: 400, dailyFat: 85, dailyFiber: 37 } },
+  { maxMonths: 156, sex: 'female', referenceWeightKg: 38, goals: { dailyCalories: 1900, dailyProtein: 55, dailyCarbs: 280, dailyFat: 65, dailyFiber: 27 } },
+  { maxMonths: 192, sex: 'female', referenceWeightKg: 48, goals: { dailyCalories: 2050, dailyProtein: 65, dailyCarbs: 300, dailyFat: 70, dailyFiber: 29 } },
+  { maxMonths: 228, sex: 'female', referenceWeightKg: 52, goals: { dailyCalories: 2100, dailyProtein: 65, dailyCarbs: 300, dailyFat: 70, dailyFiber: 29 } },
+];
+
+// Energy and protein follow body weight, within ±20% of the group value, so an unusually
+// light or heavy child is not pushed far from the table.
+const MAX_WEIGHT_ADJUSTMENT = 0.2;
+
+// Whole months between the birth date (yyyy-MM-dd) and `today`
+export function childAgeMonths(birthDate: string, today: Date = new Date()): number {
+  const [year, month, day] = birthDate.split('-').map(Number);
+  let months = (today.getFullYear() - year) * 12 + (today.getMonth() + 1 - month);
+  if (today.getDate() < day) months -= 1;
+  return Math.max(months, 0);
+}
+
+// Default goals for the child's age, sex and (when known) weight; null from 19 years on, where
+// the table's adult groups apply.
+export function defaultGoalsForChild(
+  child: Pick<ChildProfile, 'birthDate' | 'sex' | 'weightKg'>,
+  today: Date = new Date(),
+): DailyGoals | null {
+  const months = childAgeMonths(child.birthDate, today);
+  const group = AKG_2019.find(candidate =>
+    months < candidate.maxMonths && (candidate.sex === undefined || candidate.sex === child.sex));
+  if (!group) return null;
+
+  if (child.weightKg === undefined) return group.goals;
+  const ratio = child.weightKg / group.referenceWeightKg;
+  const factor = Math.min(Math.max(ratio, 1 - MAX_WEIGHT_ADJUSTMENT), 1 + MAX_WEIGHT_ADJUSTMENT);
+  return {
+    ...group.goals,
+    dailyCalories: Math.round(group.goals.dailyCalories * factor / 10) * 10,
+    dailyProtein: Math.round(group.goals.dailyProtein * factor),
+  };
+}
@@ -0,0 +1,96 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { FoodItem, Nutrition, NutritionAnalysis } from "./schema";
+import { createItem, removeItem, updateItem, withServingsEaten } from "./composition-edits";
+import { sumTotals } from "./nutrition";
+import { reconcileAnalysis } from "./quality";
+
+function referenceItem(label: string, grams: number): FoodItem {
+  const item = createItem(label, grams);
+  assert.ok(item, `${label} is in the composition table`);
+  return item;
+}
+
+function analysisOf(composition: FoodItem[]): NutritionAnalysis {
+  return {
+    composition,
+    totals: sumTotals(composition),
+    image_meta: { width: 100, height: 100, orientation: "square" },
+    notes: "",
+  };
+}
+
+// 900 kcal in 50 g: fails the Atwater energy check and the per-gram energy bound
+const implausibleEgg: FoodItem = (() => {
+  const egg = referenceItem("telur rebus", 50);
+  return { ...egg, nutrition: { ...egg.nutrition, calories_kcal: 900 } };
+})();
+
+const labelPerServing: Nutrition = {
+  calories_kcal: 120,
+  macros: { protein_g: 3, carbs_g: 20, fat_g: 3, fiber_g: 1, sugar_g: 8 },
+  micros: { sodium_mg: 90, potassium_mg: 100, calcium_mg: 60, iron_mg: 1, vitamin_a_mcg: 40, vitamin_c_mg: 0, cholesterol_mg: 5 },
+  allergens: ["milk"],
+};
+
+const labelItem: FoodItem = {
+  label: "Biskuit susu",
+  confidence: 1,
+  serving_est_g: 30,
+  bbox_norm: { x: 0, y: 0, w: 0, h: 0 },
+  nutrition: labelPerServing,
+  source: "label",
+  label_panel: { serving_size_g: 30, servings_eaten: 1, per_serving: labelPerServing },
+};
+
+test("removing an item renumbers the issues of the items after it", () => {
+  const analysis = reconcileAnalysis(analysisOf([referenceItem("nasi putih", 150), implausibleEgg]));
+  assert.ok(analysis.quality?.issues.some(issue => issue.item_index === 1));
+  assert.ok(analysis.quality?.issues.every(issue => issue.item_index !== 0));
+
+  const edited = removeItem(analysis, 0);
+
+  const itemIssues = edited.quality?.issues.filter(issue => issue.item_index !== undefined) ?? [];
+  assert.ok(itemIssues.length > 0);
+  assert.ok(itemIssues.every(issue => issue.item_index === 0));
+  assert.ok(itemIssues.every(issue => issue.message.includes(implausibleEgg.label)));
+});
+
+test("removing the item with an issue drops its issues", () => {
+  const analysis = reconcileAnalysis(analysisOf([referenceItem("nasi putih", 150), implausibleEgg]));
+
+  const edited = removeItem(analysis, 1);
+
+  assert.equal(edited.composition.length, 1);
+  assert.deepEqual(edited.quality?.issues.filter(issue => issue.item_index !== undefined), []);
+});
+
+test("an edited item is checked again", () => {
+  const analysis = reconcileAnalysis(analysisOf([referenceItem("nasi putih", 150), implausibleEgg]));
+
+  // Resizing a table food re-looks-up its nutrition, replacing the implausible numbers
+  const edited = updateItem(analysis, 1, { serving_est_g: 60 });
+
+  assert.deepEqual(edited.quality?.issues.filter(issue => issue.item_index === 1), []);
+});
+
+test("results without a quality block do not get one", () => {
+  const edited = removeItem(analysisOf([referenceItem("nasi putih", 150), implausibleEgg]), 0);
+
+  assert.equal(edited.quality, undefined);
+});
+
+test("servings eaten re-sums totals and clears issues about the old totals", () => {
+  // Model-reported totals that disagree with the item
+  const reported = analysisOf([labelItem]);
+  reported.totals = { ...reported.totals, calories_kcal: 500, serving_total_g: 100 };
+  const analysis = reconcileAnalysis(reported);
+  assert.ok(analysis.quality?.issues.some(issue => issue.type === "totals_mismatch"));
+
+  const edited = withServingsEaten(analysis, 0, 2);
+
+  assert.equal(edited.totals.calories_kcal, 240);
+  assert.equal(edited.totals.serving_total_g, 60);
+  assert.deepEqual(edited.quality?.issues, []);
+  assert.equal(edited.quality?.status, "ok");
+});
@@ -0,0 +1,152 @@
+// User corrections to an analysis result: relabel, resize, delete or add items, and servings of
+// label items. Nutrients are re-looked-up in the composition table when the food is in it,
+// otherwise they scale with weight.
+import type { FoodItem, NutritionAnalysis } from "./schema";
+import { roundTo, scaleNutrition, sumTotals, withExtendedFrom } from "./nutrition";
+import { standardizeAnalysisAllergens } from "./allergens";
+import { editedQuality } from "./quality";
+import { normalizeFoodLabel } from "./food-labels";
+import { withDietaryFlags } from "./dietary";
+import {
+  FOOD_COMPOSITION_DATABASE,
+  getFoodComposition,
+  nutritionFromReference,
+  type FoodCompositionEntry,
+} from "./food-composition";
+
+export interface ItemChange {
+  label?: string;
+  serving_est_g?: number;
+}
+
+const EMPTY_BBOX = { x: 0, y: 0, w: 0, h: 0 };
+
+function referenceNutrition(entry: FoodCompositionEntry, grams: number): Pick<FoodItem, 'nutrition' | 'nutrition_source'> {
+  return {
+    nutrition: { ...nutritionFromReference(entry, grams), allergens: [...entry.allergens] },
+    nutrition_source: { type: 'reference', database: FOOD_COMPOSITION_DATABASE, food_id: entry.id },
+  };
+}
+
+// A food in the composition table gets reference nutrition for the item's weight; the old
+// allergens and dietary flags belonged to the wrong food and are dropped. Unknown foods keep
+// their nutrition.
+export function relabelItem(item: FoodItem, label: string): FoodItem {
+  const trimmed = label.trim();
+  if (!trimmed || trimmed === item.label) return item;
+
+  const normalized = normalizeFoodLabel(trimmed);
+  const entry = normalized ? getFoodComposition(normalized.food_id) : undefined;
+  const relabeled: FoodItem = withDietaryFlags({
+    ...item,
+    label: trimmed,
+    food_id: normalized?.food_id,
+    display_names: normalized?.display_names,
+    dietary: undefined,
+    edited: true,
+  });
+  if (!entry) return relabeled;
+
+  return { ...relabeled, ...referenceNutrition(entry, item.serving_est_g), label_panel: undefined };
+}
+
+// Reference items are recomputed from the table; model, recipe and label nutrition scale
+// proportionally (a label item's servings follow its weight).
+export function resizeItem(item: FoodItem, grams: number): FoodItem {
+  if (!(grams >= 0) || grams === item.serving_est_g) return item;
+
+  const resized: FoodItem = { ...item, serving_est_g: roundTo(grams, 1), edited: true };
+  const entry = item.nutrition_source?.type === 'reference' && item.nutrition_source.food_id
+    ? getFoodComposition(item.nutrition_source.food_id)
+    : undefined;
+  if (entry) {
+    const reference = referenceNutrition(entry, grams);
+    const factor = item.serving_est_g > 0 ? grams / item.serving_est_g : 0;
+    return { ...resized, ...reference, nutrition: withExtendedFrom(reference.nutrition, item.nutrition, factor) };
+  }
+  if (item.serving_est_g <= 0) {
+    // Nothing to scale from: use the table if the food is in it
+    const fallback = item.food_id ? getFoodComposition(item.food_id) : undefined;
+    return fallback ? { ...resized, ...referenceNutrition(fallback, grams) } : resized;
+  }
+
+  const panel = item.label_panel;
+  return {
+    ...resized,
+    nutrition: scaleNutrition(item.nutrition, grams / item.serving_est_g),
+    label_panel: panel && panel.serving_size_g > 0
+      ? { ...panel, servings_eaten: roundTo(grams / panel.serving_size_g) }
+      : panel,
+  };
+}
+
+// A missed item typed in by the user. Only foods in the composition table can be added, since
+// there is no model estimate to fall back on.
+export function createItem(label: string, grams: number): FoodItem | undefined {
+  const normalized = normalizeFoodLabel(label);
+  const entry = normalized ? getFoodComposition(normalized.food_id) : undefined;
+  if (!normalized || !entry || !(grams > 0)) return undefined;
+
+  return withDietaryFlags({
+    label: label.trim(),
+    confidence: 1,
+    serving_est_g: roundTo(grams, 1),
+    bbox_norm: EMPTY_BBOX,
+    ...referenceNutrition(entry, grams),
+    ...normalized,
+    source: 'manual',
+  });
+}
+
+// Replaces the composition, re-sums the totals and re-checks quality (shared/quality.ts) so
+// issues follow their items. Meal-level allergens (in the totals but on no item) are kept, as
+// reconcileAnalysis does; those of removed items go with them. New allergens (e.g. from
+// reference data) are mapped to canonical codes.
+export function withComposition(analysis: NutritionAnalysis, composition: FoodItem[]): NutritionAnalysis {
+  const itemAllergens = new Set(analysis.composition.flatMap(item => item.nutrition.allergens));
+  const mealAllergens = analysis.totals.allergens.filter(allergen => !itemAllergens.has(allergen));
+
+  const totals = sumTotals(composition);
+  totals.allergens = Array.from(new Set([...totals.allergens, ...mealAllergens]));
+  const quality = editedQuality(analysis, composition, totals);
+  return standardizeAnalysisAllergens({ ...analysis, composition, totals, ...(quality && { quality }) });
+}
+
+// Sets how many servings of a scanned label item were eaten and re-sums the totals.
+// Items without a label_panel are returned unchanged.
+export function withServingsEaten(analysis: NutritionAnalysis, index: number, servings: number): NutritionAnalysis {
+  const item = analysis.composition[index];
+  if (!item?.label_panel || !(servings > 0)) return analysis;
+
+  const panel = item.label_panel;
+  const composition = analysis.composition.slice();
+  composition[index] = {
+    ...item,
+    serving_est_g: roundTo(panel.serving_size_g * servings, 1),
+    nutrition: scaleNutrition(panel.per_serving, servings),
+    label_panel: { ...panel, servings_eaten: servings },
+  };
+  return withComposition(analysis, composition);
+}
+
+export function updateItem(analysis: NutritionAnalysis, index: number, change: ItemChange): NutritionAnalysis {
+  const item = analysis.composition[index];
+  if (!item) return analysis;
+
+  let updated = change.label !== undefined ? relabelItem(item, change.label) : item;
+  if (change.serving_est_g !== undefined) updated = resizeItem(updated, change.serving_est_g);
+  if (updated === item) return analysis;
+
+  const composition = analysis.composition.slice();
+  composition[index] = updated;
+  return withComposition(analysis, composition);
+}
+
+export function removeItem(analysis: NutritionAnalysis, index: number): NutritionAnalysis {
+  if (!analysis.composition[index]) return analysis;
+  return withComposition(analysis, analysis.composition.filter((_, i) => i !== index));
+}
+
+export function addItem(analysis: NutritionAnalysis, item: FoodItem): NutritionAnalysis {
+  return withComposition(analysis, [...analysis.composition, item]);
+}
@@ -0,0 +1,49 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { DietaryFlags, FoodItem } from "./schema";
+import { canonicalizeFoodItem } from "./food-labels";
+import { withDietaryFlags } from "./dietary";
+
+function item(label: string, dietary?: DietaryFlags, foodId?: string): FoodItem {
+  return canonicalizeFoodItem({
+    label,
+    confidence: 0.9,
+    serving_est_g: 100,
+    bbox_norm: { x: 0, y: 0, w: 0.5, h: 0.5 },
+    nutrition: {
+      calories_kcal: 200,
+      macros: { protein_g: 10, carbs_g: 20, fat_g: 8, fiber_g: 1, sugar_g: 2 },
+      micros: { sodium_mg: 300, potassium_mg: 200, calcium_mg: 30, iron_mg: 1, vitamin_a_mcg: 20, vitamin_c_mg: 0, cholesterol_mg: 50 },
+      allergens: [],
+    },
+    ...(foodId ? { food_id: foodId } : {}),
+    dietary,
+  });
+}
+
+const notVegetarian: DietaryFlags = {
+  vegetarian: { value: false, source: "model" },
+  vegan: { value: false, source: "model" },
+};
+
+test("an exact match takes the database flags", () => {
+  const flags = withDietaryFlags(item("Nasi Putih", { halal_uncertain: { value: true, source: "model" } })).dietary;
+
+  assert.deepEqual(flags?.vegan, { value: true, source: "database" });
+  assert.deepEqual(flags?.halal_uncertain, { value: false, source: "database" });
+});
+
+test("meat and fish versions of mixed dishes stay non-vegetarian", () => {
+  for (const label of ["martabak daging", "kerupuk ikan", "Martabak", "kerupuk"]) {
+    const flags = withDietaryFlags(item(label, notVegetarian)).dietary;
+    assert.equal(flags?.vegetarian?.value, false, label);
+    assert.equal(flags?.vegan?.value, false, label);
+  }
+});
+
+test("a loose food_id match keeps the cautious answer", () => {
+  const flags = withDietaryFlags(item("sayur bayam dengan udang", notVegetarian, "sayur-bayam")).dietary;
+
+  assert.deepEqual(flags?.vegetarian, { value: false, source: "model" });
+  assert.deepEqual(flags?.contains_pork, { value: false, source: "database" });
+});
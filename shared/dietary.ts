@@ -0,0 +1,161 @@
+// Religious and dietary flags per food item (pork, alcohol, vegetarian, vegan, halal-uncertain)
+// and the conflicts between a result and the user's dietary preferences.
+import type {
+  DietaryFlag,
+  DietaryFlags,
+  DietaryPreferences,
+  FoodItem,
+  Language,
+  NutritionAnalysis,
+} from "./schema";
+import { foodDisplayName, foodKey, getFoodLabel, normalizeFoodLabel, normalizeLabelText } from "./food-labels";
+
+type FlagValues = Partial<Record<DietaryFlag, boolean>>;
+
+export const DIETARY_FLAGS: DietaryFlag[] = ['contains_pork', 'contains_alcohol', 'vegetarian', 'vegan', 'halal_uncertain'];
+
+// Flags the food itself settles. Whether meat was slaughtered halal depends on where it was
+// bought, so meat dishes leave halal_uncertain to the model.
+const PLANT: FlagValues = { contains_pork: false, contains_alcohol: false, vegetarian: true, vegan: true, halal_uncertain: false };
+const VEGETARIAN: FlagValues = { contains_pork: false, contains_alcohol: false, vegetarian: true, vegan: false, halal_uncertain: false };
+// Mixed dishes whose filling or base varies (martabak telur has minced meat, kerupuk is often
+// made with fish or shrimp): only what holds for every version
+const MIXED: FlagValues = { contains_alcohol: false };
+const SEAFOOD: FlagValues = { contains_pork: false, contains_alcohol: false, vegetarian: false, vegan: false, halal_uncertain: false };
+const MEAT: FlagValues = { contains_pork: false, contains_alcohol: false, vegetarian: false, vegan: false };
+// Processed meat may be made with pork or non-halal meat unless the pack says otherwise
+const PROCESSED_MEAT: FlagValues = { vegetarian: false, vegan: false, halal_uncertain: true };
+
+const PROFILES: [FlagValues, string[]][] = [
+  [PLANT, [
+    'nasi-putih', 'nasi-uduk', 'nasi-kuning', 'lontong', 'kentang-goreng', 'jagung', 'ubi', 'singkong',
+    'tempe', 'tempe-goreng', 'tahu', 'tahu-goreng', 'kecap-manis', 'sayur-bayam', 'sayur-asem',
+    'sayur', 'lalapan', 'wortel', 'brokoli', 'tomat', 'pisang', 'pepaya', 'jeruk', 'apel', 'semangka',
+    'mangga', 'kentang', 'kol', 'buncis', 'bawang-merah', 'bawang-putih', 'beras', 'minyak-goreng',
+    'santan', 'gula-pasir', 'garam', 'air',
+  ]],
+  [VEGETARIAN, ['roti-tawar', 'telur-rebus', 'telur-goreng', 'telur-dadar', 'susu-sapi', 'yogurt', 'keju']],
+  [MIXED, ['martabak', 'kerupuk', 'gado-gado']],
+  [SEAFOOD, ['ikan-goreng', 'ikan-teri-goreng', 'kerupuk-udang']],
+  [MEAT, ['bubur-ayam', 'mie-ayam', 'ayam-goreng', 'ayam-bakar', 'sate-ayam', 'rendang', 'bakso', 'soto-ayam', 'daging-ayam', 'daging-sapi']],
+  [PROCESSED_MEAT, ['sosis', 'nugget-ayam', 'siomay']],
+];
+
+const FOOD_DIETARY = new Map<string, FlagValues>(
+  PROFILES.flatMap(([flags, foodIds]) => foodIds.map(foodId => [foodId, flags] as [string, FlagValues])),
+);
+
+// Database flags for a known food; foods outside the table have none.
+export function databaseDietaryFlags(item: Pick<FoodItem, 'label' | 'food_id'>): DietaryFlags {
+  const values = FOOD_DIETARY.get(foodKey(item)) ?? {};
+  const flags: DietaryFlags = {};
+  for (const flag of DIETARY_FLAGS) {
+    const value = values[flag];
+    if (value !== undefined) flags[flag] = { value, source: 'database' };
+  }
+  return flags;
+}
+
+// Reads the model's plain booleans; anything else is dropped.
+export function modelDietaryFlags(raw: unknown): DietaryFlags | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const flags: DietaryFlags = {};
+  for (const flag of DIETARY_FLAGS) {
+    const value = (raw as Record<string, unknown>)[flag];
+    if (typeof value === 'boolean') flags[flag] = { value, source: 'model' };
+  }
+  return Object.keys(flags).length > 0 ? flags : undefined;
+}
+
+// The database wins where it has a value when the label names the food itself ("nasi putih",
+// "sepiring nasi putih"); the item's model flags fill the rest. A food_id the label does not
+// resolve to is a looser match, so there the more cautious of model and database wins.
+export function withDietaryFlags<T extends FoodItem>(item: T): T {
+  const database = databaseDietaryFlags(item);
+  const exact = normalizeFoodLabel(item.label)?.food_id === foodKey(item);
+  const dietary = exact
+    ? { ...item.dietary, ...database }
+    : mergeDietaryFlags([item.dietary, database]) ?? {};
+  return Object.keys(dietary).length > 0 ? { ...item, dietary } : item;
+}
+
+// Ensemble fusion and loose database matches: the cautious answer wins (any source seeing pork,
+// alcohol or doubt about halal keeps the flag; vegetarian/vegan need every source that answered
+// to agree).
+export function mergeDietaryFlags(flagSets: (DietaryFlags | undefined)[]): DietaryFlags | undefined {
+  const merged: DietaryFlags = {};
+  for (const flag of DIETARY_FLAGS) {
+    const answers = flagSets.flatMap(flags => (flags?.[flag] ? [flags[flag]!] : []));
+    if (answers.length === 0) continue;
+    const cautious = flag === 'vegetarian' || flag === 'vegan'
+      ? answers.find(answer => !answer.value)
+      : answers.find(answer => answer.value);
+    merged[flag] = cautious ?? answers[0];
+  }
+  return Object.keys(merged).length > 0 ? merged : undefined;
+}
+
+// Flags of a dish made from `foodIds`, cautious like mergeDietaryFlags. A reassuring value
+// (no pork, vegetarian) also needs every ingredient to be known: one unknown ingredient could
+// be the meat.
+export function recipeDietaryFlags(foodIds: string[]): DietaryFlags | undefined {
+  const flagSets = foodIds.map(foodId => databaseDietaryFlags({ label: foodId, food_id: foodId }));
+  const merged = mergeDietaryFlags(flagSets) ?? {};
+  for (const flag of DIETARY_FLAGS) {
+    const reassuring = flag === 'vegetarian' || flag === 'vegan' ? merged[flag]?.value : merged[flag]?.value === false;
+    if (reassuring && flagSets.some(flags => !flags[flag])) delete merged[flag];
+  }
+  return Object.keys(merged).length > 0 ? merged : undefined;
+}
+
+export type DietaryConflictReason = 'pork' | 'alcohol' | 'halal_uncertain' | 'not_vegetarian' | 'not_vegan' | 'avoided';
+
+export interface DietaryConflict {
+  index: number; // position in composition
+  item: string; // display name in the requested language
+  reason: DietaryConflictReason;
+  source?: 'database' | 'model'; // where the flag came from (absent for avoided ingredients)
+  term?: string; // the avoided ingredient that matched
+}
+
+// Avoided terms match whole words of the item's label, display names or dictionary synonyms
+// ("sapi" matches rendang through "rendang sapi").
+function avoidedTerm(item: FoodItem, avoid: string[]): string | undefined {
+  const names = [item.label, item.display_names?.id, item.display_names?.en, ...(getFoodLabel(foodKey(item))?.synonyms ?? [])]
+    .filter((name): name is string => Boolean(name))
+    .map(name => ` ${normalizeLabelText(name)} `);
+  return avoid.find(term => {
+    const normalized = normalizeLabelText(term);
+    return normalized.length > 0 && names.some(name => name.includes(` ${normalized} `));
+  });
+}
+
+// Items that break the user's preferences. Flags nobody could determine raise no conflict.
+export function dietaryConflicts(
+  analysis: NutritionAnalysis,
+  preferences: DietaryPreferences,
+  language: Language = 'id',
+): DietaryConflict[] {
+  const conflicts: DietaryConflict[] = [];
+  analysis.composition.forEach((item, index) => {
+    const flags = item.dietary ?? {};
+    const add = (reason: DietaryConflictReason, flag?: DietaryFlag, term?: string) =>
+      conflicts.push({ index, item: foodDisplayName(item, language), reason, source: flag ? flags[flag]?.source : undefined, term });
+
+    if (preferences.halal) {
+      if (flags.contains_pork?.value) add('pork', 'contains_pork');
+      if (flags.contains_alcohol?.value) add('alcohol', 'contains_alcohol');
+      if (!flags.contains_pork?.value && !flags.contains_alcohol?.value && flags.halal_uncertain?.value) {
+        add('halal_uncertain', 'halal_uncertain');
+      }
+    }
+    if (preferences.vegan && (flags.vegan?.value === false || flags.vegetarian?.value === false)) {
+      add('not_vegan', flags.vegan?.value === false ? 'vegan' : 'vegetarian');
+    } else if (preferences.vegetarian && flags.vegetarian?.value === false) {
+      add('not_vegetarian', 'vegetarian');
+    }
+    const term = avoidedTerm(item, preferences.avoid);
+    if (term) add('avoided', undefined, term);
+  });
+  return conflicts;
+}
@@ -0,0 +1,351 @@
+// Bundled food composition table used to ground per-item nutrition.
+// Values are per 100 g edible portion, approximated from TKPI 2017 (Tabel Komposisi Pangan Indonesia)
+// with USDA FoodData Central filling nutrients TKPI does not list.
+import type { FoodItem, Nutrition } from "./schema";
+import { MACRO_KEYS, MICRO_KEYS, roundTo, withExtendedFrom } from "./nutrition";
+import { normalizeFoodLabel } from "./food-labels";
+
+export const FOOD_COMPOSITION_DATABASE = 'TKPI 2017';
+
+// Keyed by the canonical food IDs of shared/food-labels.ts
+export interface FoodCompositionEntry {
+  id: string;
+  per100g: Omit<Nutrition, 'allergens'>;
+  allergens: string[];
+}
+
+type Per100g = FoodCompositionEntry['per100g'];
+
+// Compact row: kcal, protein, carbs, fat, fiber, sugar | sodium, potassium, calcium, iron, vit A, vit C, cholesterol
+function per100g(
+  [calories_kcal, protein_g, carbs_g, fat_g, fiber_g, sugar_g]: number[],
+  [sodium_mg, potassium_mg, calcium_mg, iron_mg, vitamin_a_mcg, vitamin_c_mg, cholesterol_mg]: number[],
+): Per100g {
+  return {
+    calories_kcal,
+    macros: { protein_g, carbs_g, fat_g, fiber_g, sugar_g },
+    micros: { sodium_mg, potassium_mg, calcium_mg, iron_mg, vitamin_a_mcg, vitamin_c_mg, cholesterol_mg },
+  };
+}
+
+export const FOOD_COMPOSITION: FoodCompositionEntry[] = [
+  // Staples
+  {
+    id: 'nasi-putih',
+    per100g: per100g([180, 3.0, 39.8, 0.3, 0.2, 0.1], [1, 38, 25, 0.4, 0, 0, 0]),
+    allergens: [],
+  },
+  {
+    id: 'nasi-goreng',
+    per100g: per100g([168, 3.2, 25.0, 6.2, 0.8, 0.8], [400, 90, 16, 0.8, 15, 1, 30]),
+    allergens: ['egg', 'soy'],
+  },
+  {
+    id: 'nasi-uduk',
+    per100g: per100g([165, 3.1, 28.0, 4.5, 0.4, 0.2], [180, 60, 10, 0.5, 0, 0, 0]),
+    allergens: [],
+  },
+  {
+    id: 'bubur-ayam',
+    per100g: per100g([82, 4.0, 12.0, 2.0, 0.2, 0.2], [250, 60, 10, 0.4, 10, 0, 15]),
+    allergens: ['soy'],
+  },
+  {
+    id: 'mie-goreng',
+    per100g: per100g([181, 4.5, 25.0, 7.0, 1.0, 1.5], [500, 80, 20, 1.0, 20, 1, 10]),
+    allergens: ['wheat', 'egg', 'soy'],
+  },
+  {
+    id: 'roti-tawar',
+    per100g: per100g([261, 9.0, 49.0, 3.2, 2.7, 5.0], [490, 115, 150, 3.6, 0, 0, 0]),
+    allergens: ['wheat'],
+  },
+  {
+    id: 'kentang-goreng',
+    per100g: per100g([312, 3.4, 41.0, 15.0, 3.8, 0.3], [210, 579, 18, 0.8, 0, 4.7, 0]),
+    allergens: [],
+  },
+
+  // Protein dishes
+  {
+    id: 'tempe',
+    per100g: per100g([201, 20.8, 13.5, 8.8, 1.4, 0], [9, 234, 155, 4.0, 0, 0, 0]),
+    allergens: ['soy'],
+  },
+  {
+    id: 'tempe-goreng',
+    per100g: per100g([355, 20.0, 7.8, 28.0, 1.4, 0.5], [8, 300, 129, 2.7, 0, 0, 0]),
+    allergens: ['soy'],
+  },
+  {
+    id: 'tahu',
+    per100g: per100g([80, 10.9, 0.8, 4.7, 0.1, 0.3], [2, 50, 223, 3.4, 0, 0, 0]),
+    allergens: ['soy'],
+  },
+  {
+    id: 'tahu-goreng',
+    per100g: per100g([115, 9.7, 2.5, 8.5, 0.6, 0.5], [10, 120, 150, 2.5, 0, 0, 0]),
+    allergens: ['soy'],
+  },
+  {
+    id: 'telur-rebus',
+    per100g: per100g([155, 12.6, 1.1, 10.6, 0, 1.1], [124, 126, 50, 1.2, 149, 0, 373]),
+    allergens: ['egg'],
+  },
+  {
+    id: 'telur-goreng',
+    per100g: per100g([196, 13.6, 0.8, 14.8, 0, 0.4], [207, 152, 62, 1.9, 160, 0, 401]),
+    allergens: ['egg'],
+  },
+  {
+    id: 'telur-dadar',
+    per100g: per100g([154, 10.6, 0.6, 11.7, 0, 0.6], [155, 117, 48, 1.5, 150, 0, 313]),
+    allergens: ['egg'],
+  },
+  {
+    id: 'ayam-goreng',
+    per100g: per100g([260, 27.0, 3.0, 15.5, 0.1, 0], [300, 230, 15, 1.3, 30, 0, 90]),
+    allergens: [],
+  },
+  {
+    id: 'ayam-bakar',
+    per100g: per100g([189, 25.0, 3.0, 8.5, 0, 2.0], [450, 240, 15, 1.2, 25, 0, 85]),
+    allergens: ['soy'],
+  },
+  {
+    id: 'sate-ayam',
+    per100g: per100g([224, 24.0, 6.0, 11.5, 1.0, 4.0], [500, 250, 20, 1.5, 20, 1, 80]),
+    allergens: ['peanut', 'soy'],
+  },
+  {
+    id: 'nugget-ayam',
+    per100g: per100g([297, 15.0, 16.0, 19.5, 1.0, 0.5], [550, 250, 15, 0.9, 10, 0, 45]),
+    allergens: ['wheat'],
+  },
+  {
+    id: 'ikan-goreng',
+    per100g: per100g([217, 20.0, 5.0, 13.0, 0, 0], [250, 300, 40, 1.0, 20, 0, 70]),
+    allergens: ['fish'],
+  },
+  {
+    id: 'ikan-teri-goreng',
+    per100g: per100g([325, 40.0, 5.0, 16.0, 0, 0], [1200, 500, 1000, 3.5, 40, 0, 150]),
+    allergens: ['fish'],
+  },
+  {
+    id: 'rendang',
+    per100g: per100g([195, 22.0, 5.0, 9.5, 1.0, 2.0], [450, 300, 30, 2.6, 10, 1, 70]),
+    allergens: [],
+  },
+  {
+    id: 'bakso',
+    per100g: per100g([190, 11.0, 14.0, 10.0, 0.3, 0.5], [600, 150, 20, 1.5, 0, 0, 40]),
+    allergens: [],
+  },
+  {
+    id: 'sosis',
+    per100g: per100g([248, 11.0, 6.0, 20.0, 0, 1.0], [900, 170, 20, 1.0, 0, 0, 60]),
+    allergens: [],
+  },
+
+  // Snacks
+  {
+    id: 'kerupuk',
+    per100g: per100g([489, 1.0, 65.0, 25.0, 0.5, 1.0], [800, 20, 10, 0.5, 0, 0, 0]),
+    allergens: [],
+  },
+  {
+    id: 'kerupuk-udang',
+    per100g: per100g([530, 5.0, 60.0, 30.0, 0.5, 1.0], [1200, 60, 30, 1.0, 0, 0, 20]),
+    allergens: ['shellfish'],
+  },
+
+  // Vegetables
+  {
+    id: 'sayur-bayam',
+    per100g: per100g([30, 2.4, 4.0, 0.5, 2.0, 0.5], [250, 420, 90, 2.2, 450, 18, 0]),
+    allergens: [],
+  },
+  {
+    id: 'sayur-sop',
+    per100g: per100g([40, 1.8, 6.0, 1.0, 1.5, 2.0], [300, 200, 30, 0.5, 300, 8, 5]),
+    allergens: [],
+  },
+  {
+    id: 'sayur-asem',
+    per100g: per100g([31, 1.0, 6.0, 0.3, 2.0, 2.5], [280, 150, 25, 0.6, 50, 10, 0]),
+    allergens: [],
+  },
+  {
+    id: 'tumis-kangkung',
+    per100g: per100g([71, 2.5, 4.0, 5.0, 2.0, 1.0], [350, 300, 70, 2.0, 300, 20, 0]),
+    allergens: [],
+  },
+  {
+    id: 'gado-gado',
+    per100g: per100g([131, 6.0, 10.0, 7.5, 3.0, 4.0], [350, 300, 80, 1.5, 150, 10, 30]),
+    allergens: ['peanut', 'soy', 'egg'],
+  },
+
+  // Fruit and dairy
+  {
+    id: 'pisang',
+    per100g: per100g([89, 1.1, 22.8, 0.3, 2.6, 12.2], [1, 358, 5, 0.3, 3, 8.7, 0]),
+    allergens: [],
+  },
+  {
+    id: 'pepaya',
+    per100g: per100g([43, 0.5, 10.8, 0.3, 1.7, 7.8], [8, 182, 20, 0.3, 47, 60.9, 0]),
+    allergens: [],
+  },
+  {
+    id: 'jeruk',
+    per100g: per100g([47, 0.9, 11.8, 0.1, 2.4, 9.4], [0, 181, 40, 0.1, 11, 53, 0]),
+    allergens: [],
+  },
+  {
+    id: 'apel',
+    per100g: per100g([52, 0.3, 13.8, 0.2, 2.4, 10.4], [1, 107, 6, 0.1, 3, 4.6, 0]),
+    allergens: [],
+  },
+  {
+    id: 'semangka',
+    per100g: per100g([30, 0.6, 7.6, 0.2, 0.4, 6.2], [1, 112, 7, 0.2, 28, 8.1, 0]),
+    allergens: [],
+  },
+  {
+    id: 'susu-sapi',
+    per100g: per100g([61, 3.2, 4.8, 3.3, 0, 4.8], [43, 132, 113, 0, 46, 0, 10]),
+    allergens: ['milk'],
+  },
+
+  // Recipe ingredients (raw, as bought; shared/recipes.ts)
+  {
+    id: 'wortel',
+    per100g: per100g([41, 0.9, 9.6, 0.2, 2.8, 4.7], [69, 320, 33, 0.3, 835, 5.9, 0]),
+    allergens: [],
+  },
+  {
+    id: 'kentang',
+    per100g: per100g([77, 2.0, 17.5, 0.1, 2.2, 0.8], [6, 425, 12, 0.8, 0, 19.7, 0]),
+    allergens: [],
+  },
+  {
+    id: 'kol',
+    per100g: per100g([25, 1.3, 5.8, 0.1, 2.5, 3.2], [18, 170, 40, 0.5, 5, 36.6, 0]),
+    allergens: [],
+  },
+  {
+    id: 'buncis',
+    per100g: per100g([31, 1.8, 7.0, 0.2, 2.7, 3.3], [6, 211, 37, 1, 35, 12.2, 0]),
+    allergens: [],
+  },
+  {
+    id: 'brokoli',
+    per100g: per100g([34, 2.8, 6.6, 0.4, 2.6, 1.7], [33, 316, 47, 0.7, 31, 89.2, 0]),
+    allergens: [],
+  },
+  {
+    id: 'tomat',
+    per100g: per100g([18, 0.9, 3.9, 0.2, 1.2, 2.6], [5, 237, 10, 0.3, 42, 13.7, 0]),
+    allergens: [],
+  },
+  {
+    id: 'bawang-merah',
+    per100g: per100g([72, 2.5, 16.8, 0.1, 3.2, 7.9], [12, 334, 37, 1.2, 1, 8, 0]),
+    allergens: [],
+  },
+  {
+    id: 'bawang-putih',
+    per100g: per100g([149, 6.4, 33.1, 0.5, 2.1, 1.0], [17, 401, 181, 1.7, 0, 31.2, 0]),
+    allergens: [],
+  },
+  {
+    id: 'daging-ayam',
+    per100g: per100g([150, 19.0, 0, 8.0, 0, 0], [70, 220, 11, 0.9, 40, 0, 90]),
+    allergens: [],
+  },
+  {
+    id: 'daging-sapi',
+    per100g: per100g([201, 18.8, 0, 14.0, 0, 0], [60, 300, 11, 2.3, 0, 0, 70]),
+    allergens: [],
+  },
+  {
+    id: 'beras',
+    per100g: per100g([360, 6.8, 78.9, 0.7, 1.3, 0.1], [5, 115, 28, 0.8, 0, 0, 0]),
+    allergens: [],
+  },
+  {
+    id: 'minyak-goreng',
+    per100g: per100g([884, 0, 0, 100.0, 0, 0], [0, 0, 0, 0, 0, 0, 0]),
+    allergens: [],
+  },
+  {
+    id: 'santan',
+    per100g: per100g([197, 2.0, 2.8, 21.3, 0, 3.3], [13, 220, 18, 3.3, 0, 1, 0]),
+    allergens: [],
+  },
+  {
+    id: 'gula-pasir',
+    per100g: per100g([387, 0, 100.0, 0, 0, 100.0], [1, 2, 1, 0.1, 0, 0, 0]),
+    allergens: [],
+  },
+  {
+    id: 'garam',
+    per100g: per100g([0, 0, 0, 0, 0, 0], [38758, 8, 24, 0.3, 0, 0, 0]),
+    allergens: [],
+  },
+  {
+    id: 'air',
+    per100g: per100g([0, 0, 0, 0, 0, 0], [0, 0, 0, 0, 0, 0, 0]),
+    allergens: [],
+  },
+];
+
+const FOOD_COMPOSITION_BY_ID = new Map(FOOD_COMPOSITION.map(entry => [entry.id, entry]));
+
+export function getFoodComposition(foodId: string): FoodCompositionEntry | undefined {
+  return FOOD_COMPOSITION_BY_ID.get(foodId);
+}
+
+// Resolves a free-text label through the bilingual label dictionary (shared/food-labels.ts).
+export function findFoodByLabel(label: string): FoodCompositionEntry | undefined {
+  const normalized = normalizeFoodLabel(label);
+  return normalized ? getFoodComposition(normalized.food_id) : undefined;
+}
+
+// Scales the per-100 g reference values to the given serving weight.
+export function nutritionFromReference(entry: FoodCompositionEntry, grams: number): Omit<Nutrition, 'allergens'> {
+  const factor = grams / 100;
+  const macros = { ...entry.per100g.macros };
+  for (const key of MACRO_KEYS) {
+    macros[key] = roundTo(entry.per100g.macros[key] * factor);
+  }
+  const micros = { ...entry.per100g.micros };
+  for (const key of MICRO_KEYS) {
+    micros[key] = roundTo(entry.per100g.micros[key] * factor);
+  }
+  return {
+    calories_kcal: roundTo(entry.per100g.calories_kcal * factor, 1),
+    macros,
+    micros,
+  };
+}
+
+// Replaces an item's nutrition with reference data when its label matches an entry. The table
+// has no extended panel (zinc, vitamin D, ...), so the model's estimates of those are kept.
+export function groundFoodItem(item: FoodItem): FoodItem {
+  const entry = item.food_id ? getFoodComposition(item.food_id) : findFoodByLabel(item.label);
+  if (!entry || item.serving_est_g <= 0) {
+    return { ...item, nutrition_source: { type: 'model' } };
+  }
+
+  return {
+    ...item,
+    nutrition: {
+      ...withExtendedFrom(nutritionFromReference(entry, item.serving_est_g), item.nutrition),
+      allergens: Array.from(new Set([...item.nutrition.allergens, ...entry.allergens])),
+    },
+    nutrition_source: { type: 'reference', database: FOOD_COMPOSITION_DATABASE, food_id: entry.id },
+  };
+}
@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { FoodItem } from "./schema";
+import { foodKey, normalizeFoodLabel } from "./food-labels";
+import { groundFoodItem } from "./food-composition";
+
+test("labels match synonyms in either language, any casing", () => {
+  assert.equal(normalizeFoodLabel("Nasi-Goreng!")?.food_id, "nasi-goreng");
+  assert.equal(normalizeFoodLabel("fried rice")?.food_id, "nasi-goreng");
+  assert.equal(normalizeFoodLabel("Steamed Rice")?.food_id, "nasi-putih");
+});
+
+test("amounts and sizes around a synonym still match", () => {
+  assert.equal(normalizeFoodLabel("a plate of Nasi Goreng")?.food_id, "nasi-goreng");
+  assert.equal(normalizeFoodLabel("1 piring nasi putih")?.food_id, "nasi-putih");
+  assert.equal(normalizeFoodLabel("sepotong ayam goreng")?.food_id, "ayam-goreng");
+});
+
+test("a qualifier naming another dish leaves the label unmatched", () => {
+  for (const label of ["ikan bakar", "kerupuk ikan", "martabak daging", "martabak telur", "scrambled egg", "brown rice"]) {
+    assert.equal(normalizeFoodLabel(label), undefined, label);
+  }
+  assert.equal(foodKey({ label: "Ikan Bakar" }), "label:ikan bakar");
+});
+
+test("unmatched labels keep the model's nutrition", () => {
+  const item: FoodItem = {
+    label: "ikan bakar",
+    confidence: 0.8,
+    serving_est_g: 100,
+    bbox_norm: { x: 0, y: 0, w: 0.5, h: 0.5 },
+    nutrition: {
+      calories_kcal: 150,
+      macros: { protein_g: 25, carbs_g: 0, fat_g: 5, fiber_g: 0, sugar_g: 0 },
+      micros: { sodium_mg: 300, potassium_mg: 350, calcium_mg: 30, iron_mg: 1, vitamin_a_mcg: 20, vitamin_c_mg: 0, cholesterol_mg: 60 },
+      allergens: ["fish"],
+    },
+  };
+
+  const grounded = groundFoodItem(item);
+
+  assert.deepEqual(grounded.nutrition_source, { type: "model" });
+  assert.deepEqual(grounded.nutrition, item.nutrition);
+});
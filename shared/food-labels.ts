@@ -0,0 +1,181 @@
+// Bilingual food label dictionary: maps free-text labels (English or Indonesian, any casing)
+// to a canonical food ID with display names in both languages.
+import type { FoodItem, Language } from "./schema";
+
+export interface FoodLabelEntry {
+  id: string;
+  names: { id: string; en: string };
+  synonyms: string[];
+}
+
+export interface NormalizedFoodLabel {
+  food_id: string;
+  display_names: { id: string; en: string };
+}
+
+export const FOOD_LABELS: FoodLabelEntry[] = [
+  // Rice, noodles and other staples
+  { id: 'nasi-putih', names: { id: 'Nasi putih', en: 'Steamed rice' }, synonyms: ['nasi', 'nasi putih', 'white rice', 'steamed rice', 'cooked rice', 'plain rice', 'rice'] },
+  { id: 'nasi-goreng', names: { id: 'Nasi goreng', en: 'Fried rice' }, synonyms: ['nasi goreng', 'fried rice', 'indonesian fried rice'] },
+  { id: 'nasi-uduk', names: { id: 'Nasi uduk', en: 'Coconut rice' }, synonyms: ['nasi uduk', 'nasi lemak', 'coconut rice'] },
+  { id: 'nasi-kuning', names: { id: 'Nasi kuning', en: 'Yellow rice' }, synonyms: ['nasi kuning', 'yellow rice', 'turmeric rice'] },
+  { id: 'lontong', names: { id: 'Lontong', en: 'Rice cake' }, synonyms: ['lontong', 'ketupat', 'rice cake', 'compressed rice'] },
+  { id: 'bubur-ayam', names: { id: 'Bubur ayam', en: 'Chicken porridge' }, synonyms: ['bubur ayam', 'bubur', 'chicken porridge', 'rice porridge', 'congee'] },
+  { id: 'mie-goreng', names: { id: 'Mie goreng', en: 'Fried noodles' }, synonyms: ['mie goreng', 'mi goreng', 'fried noodles', 'fried noodle'] },
+  { id: 'mie-ayam', names: { id: 'Mie ayam', en: 'Chicken noodles' }, synonyms: ['mie ayam', 'mi ayam', 'chicken noodles', 'chicken noodle'] },
+  { id: 'roti-tawar', names: { id: 'Roti tawar', en: 'White bread' }, synonyms: ['roti tawar', 'roti', 'white bread', 'bread', 'sliced bread', 'toast'] },
+  { id: 'kentang-goreng', names: { id: 'Kentang goreng', en: 'French fries' }, synonyms: ['kentang goreng', 'french fries', 'fries', 'potato fries'] },
+  { id: 'jagung', names: { id: 'Jagung rebus', en: 'Boiled corn' }, synonyms: ['jagung', 'jagung rebus', 'corn', 'sweet corn', 'corn on the cob'] },
+  { id: 'ubi', names: { id: 'Ubi rebus', en: 'Boiled sweet potato' }, synonyms: ['ubi', 'ubi rebus', 'ubi jalar', 'sweet potato'] },
+  { id: 'singkong', names: { id: 'Singkong rebus', en: 'Boiled cassava' }, synonyms: ['singkong', 'singkong rebus', 'ketela', 'cassava'] },
+
+  // Protein dishes
+  { id: 'tempe', names: { id: 'Tempe', en: 'Tempeh' }, synonyms: ['tempe', 'tempeh', 'tempe kedelai'] },
+  { id: 'tempe-goreng', names: { id: 'Tempe goreng', en: 'Fried tempeh' }, synonyms: ['tempe goreng', 'fried tempeh', 'fried tempe', 'tempe mendoan', 'mendoan'] },
+  { id: 'tahu', names: { id: 'Tahu', en: 'Tofu' }, synonyms: ['tahu', 'tofu', 'bean curd'] },
+  { id: 'tahu-goreng', names: { id: 'Tahu goreng', en: 'Fried tofu' }, synonyms: ['tahu goreng', 'fried tofu', 'tahu isi'] },
+  { id: 'telur-rebus', names: { id: 'Telur rebus', en: 'Boiled egg' }, synonyms: ['telur', 'telur rebus', 'telur ayam', 'telur ayam rebus', 'egg', 'eggs', 'boiled egg', 'hard boiled egg'] },
+  { id: 'telur-goreng', names: { id: 'Telur goreng', en: 'Fried egg' }, synonyms: ['telur goreng', 'telur mata sapi', 'telor ceplok', 'telur ceplok', 'fried egg', 'sunny side up egg'] },
+  { id: 'telur-dadar', names: { id: 'Telur dadar', en: 'Omelette' }, synonyms: ['telur dadar', 'telor dadar', 'omelet', 'omelette'] },
+  { id: 'ayam-goreng', names: { id: 'Ayam goreng', en: 'Fried chicken' }, synonyms: ['ayam goreng', 'fried chicken', 'chicken drumstick'] },
+  { id: 'ayam-bakar', names: { id: 'Ayam bakar', en: 'Grilled chicken' }, synonyms: ['ayam bakar', 'grilled chicken', 'roast chicken', 'roasted chicken'] },
+  { id: 'sate-ayam', names: { id: 'Sate ayam', en: 'Chicken satay' }, synonyms: ['sate ayam', 'sate', 'satay', 'chicken satay', 'chicken skewers'] },
+  { id: 'nugget-ayam', names: { id: 'Nugget ayam', en: 'Chicken nuggets' }, synonyms: ['nugget ayam', 'nugget', 'chicken nuggets', 'chicken nugget', 'nuggets'] },
+  { id: 'ikan-goreng', names: { id: 'Ikan goreng', en: 'Fried fish' }, synonyms: ['ikan goreng', 'ikan', 'fried fish', 'fish', 'lele goreng', 'ikan lele'] },
+  { id: 'ikan-teri-goreng', names: { id: 'Ikan teri goreng', en: 'Fried anchovies' }, synonyms: ['ikan teri goreng', 'teri goreng', 'ikan teri', 'teri', 'fried anchovies', 'anchovies'] },
+  { id: 'rendang', names: { id: 'Rendang', en: 'Beef rendang' }, synonyms: ['rendang', 'rendang sapi', 'rendang daging', 'beef rendang'] },
+  { id: 'bakso', names: { id: 'Bakso', en: 'Meatballs' }, synonyms: ['bakso', 'bakso sapi', 'meatball', 'meatballs', 'beef meatballs', 'meatball soup'] },
+  { id: 'sosis', names: { id: 'Sosis', en: 'Sausage' }, synonyms: ['sosis', 'sausage', 'sausages', 'hot dog'] },
+  { id: 'soto-ayam', names: { id: 'Soto ayam', en: 'Chicken soup' }, synonyms: ['soto ayam', 'soto', 'chicken soup', 'chicken soto'] },
+  { id: 'perkedel', names: { id: 'Perkedel', en: 'Potato fritter' }, synonyms: ['perkedel', 'perkedel kentang', 'potato fritter', 'potato patty'] },
+
+  // Snacks and condiments
+  { id: 'kerupuk', names: { id: 'Kerupuk', en: 'Crackers' }, synonyms: ['kerupuk', 'krupuk', 'crackers', 'tapioca crackers'] },
+  { id: 'kerupuk-udang', names: { id: 'Kerupuk udang', en: 'Prawn crackers' }, synonyms: ['kerupuk udang', 'krupuk udang', 'prawn crackers', 'shrimp crackers'] },
+  { id: 'sambal', names: { id: 'Sambal', en: 'Chili sauce' }, synonyms: ['sambal', 'sambel', 'chili sauce', 'chilli sauce', 'chili paste'] },
+  { id: 'kecap-manis', names: { id: 'Kecap manis', en: 'Sweet soy sauce' }, synonyms: ['kecap', 'kecap manis', 'sweet soy sauce', 'soy sauce'] },
+  { id: 'siomay', names: { id: 'Siomay', en: 'Steamed fish dumplings' }, synonyms: ['siomay', 'siomai', 'dumplings', 'fish dumplings'] },
+  { id: 'martabak', names: { id: 'Martabak', en: 'Stuffed pancake' }, synonyms: ['martabak', 'martabak manis', 'terang bulan', 'stuffed pancake'] },
+
+  // Vegetables
+  { id: 'sayur-bayam', names: { id: 'Sayur bayam', en: 'Spinach soup' }, synonyms: ['sayur bayam', 'bayam', 'sayur bening bayam', 'sayur bening', 'spinach soup', 'spinach'] },
+  { id: 'sayur-sop', names: { id: 'Sayur sop', en: 'Vegetable soup' }, synonyms: ['sayur sop', 'sop sayur', 'sop', 'sup', 'vegetable soup'] },
+  { id: 'sayur-asem', names: { id: 'Sayur asem', en: 'Tamarind vegetable soup' }, synonyms: ['sayur asem', 'sayur asam', 'tamarind vegetable soup', 'sour vegetable soup'] },
+  { id: 'tumis-kangkung', names: { id: 'Tumis kangkung', en: 'Stir-fried water spinach' }, synonyms: ['tumis kangkung', 'kangkung', 'cah kangkung', 'stir fried water spinach', 'water spinach', 'morning glory'] },
+  { id: 'gado-gado', names: { id: 'Gado-gado', en: 'Vegetable salad with peanut sauce' }, synonyms: ['gado gado', 'pecel', 'vegetable salad with peanut sauce', 'peanut sauce salad'] },
+  { id: 'sayur', names: { id: 'Sayur', en: 'Vegetables' }, synonyms: ['sayur', 'sayuran', 'vegetables', 'vegetable', 'mixed vegetables', 'capcay', 'cap cay'] },
+  { id: 'lalapan', names: { id: 'Lalapan', en: 'Raw vegetables' }, synonyms: ['lalapan', 'lalap', 'timun', 'mentimun', 'cucumber', 'raw vegetables'] },
+  { id: 'wortel', names: { id: 'Wortel', en: 'Carrot' }, synonyms: ['wortel', 'carrot', 'carrots'] },
+  { id: 'brokoli', names: { id: 'Brokoli', en: 'Broccoli' }, synonyms: ['brokoli', 'broccoli'] },
+  { id: 'tomat', names: { id: 'Tomat', en: 'Tomato' }, synonyms: ['tomat', 'tomato', 'tomatoes'] },
+
+  // Fruit and dairy
+  { id: 'pisang', names: { id: 'Pisang', en: 'Banana' }, synonyms: ['pisang', 'banana', 'bananas'] },
+  { id: 'pepaya', names: { id: 'Pepaya', en: 'Papaya' }, synonyms: ['pepaya', 'papaya'] },
+  { id: 'jeruk', names: { id: 'Jeruk', en: 'Orange' }, synonyms: ['jeruk', 'jeruk manis', 'orange', 'oranges', 'tangerine'] },
+  { id: 'apel', names: { id: 'Apel', en: 'Apple' }, synonyms: ['apel', 'apple', 'apples'] },
+  { id: 'semangka', names: { id: 'Semangka', en: 'Watermelon' }, synonyms: ['semangka', 'watermelon'] },
+  { id: 'mangga', names: { id: 'Mangga', en: 'Mango' }, synonyms: ['mangga', 'mango'] },
+  { id: 'susu-sapi', names: { id: 'Susu sapi', en: 'Milk' }, synonyms: ['susu', 'susu sapi', 'susu uht', 'milk', 'cow milk', 'uht milk', 'whole milk'] },
+  { id: 'yogurt', names: { id: 'Yogurt', en: 'Yogurt' }, synonyms: ['yogurt', 'yoghurt', 'yogurt drink'] },
+  { id: 'keju', names: { id: 'Keju', en: 'Cheese' }, synonyms: ['keju', 'cheese', 'cheddar'] },
+
+  // Recipe ingredients
+  { id: 'kentang', names: { id: 'Kentang', en: 'Potato' }, synonyms: ['kentang', 'kentang rebus', 'potato', 'potatoes', 'boiled potato'] },
+  { id: 'kol', names: { id: 'Kol', en: 'Cabbage' }, synonyms: ['kol', 'kubis', 'cabbage'] },
+  { id: 'buncis', names: { id: 'Buncis', en: 'Green beans' }, synonyms: ['buncis', 'green beans', 'string beans'] },
+  { id: 'bawang-merah', names: { id: 'Bawang merah', en: 'Shallot' }, synonyms: ['bawang merah', 'shallot', 'shallots'] },
+  { id: 'bawang-putih', names: { id: 'Bawang putih', en: 'Garlic' }, synonyms: ['bawang putih', 'garlic'] },
+  { id: 'daging-ayam', names: { id: 'Daging ayam', en: 'Chicken meat' }, synonyms: ['daging ayam', 'ayam mentah', 'chicken meat', 'raw chicken', 'chicken breast', 'chicken thigh'] },
+  { id: 'daging-sapi', names: { id: 'Daging sapi', en: 'Beef' }, synonyms: ['daging sapi', 'daging', 'beef', 'raw beef'] },
+  { id: 'beras', names: { id: 'Beras', en: 'Uncooked rice' }, synonyms: ['beras', 'uncooked rice', 'raw rice'] },
+  { id: 'minyak-goreng', names: { id: 'Minyak goreng', en: 'Cooking oil' }, synonyms: ['minyak goreng', 'minyak', 'minyak sayur', 'cooking oil', 'vegetable oil', 'palm oil'] },
+  { id: 'santan', names: { id: 'Santan', en: 'Coconut milk' }, synonyms: ['santan', 'coconut milk', 'coconut cream'] },
+  { id: 'gula-pasir', names: { id: 'Gula pasir', en: 'Sugar' }, synonyms: ['gula pasir', 'gula', 'sugar', 'white sugar'] },
+  { id: 'garam', names: { id: 'Garam', en: 'Salt' }, synonyms: ['garam', 'salt'] },
+  { id: 'air', names: { id: 'Air', en: 'Water' }, synonyms: ['air', 'air putih', 'air mineral', 'water', 'drinking water'] },
+];
+
+const FOOD_LABELS_BY_ID = new Map(FOOD_LABELS.map(entry => [entry.id, entry]));
+
+// Lowercase, strip diacritics and punctuation, collapse whitespace: "Nasi-Goreng!" -> "nasi goreng"
+export function normalizeLabelText(label: string): string {
+  return label
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const SYNONYM_INDEX: { synonym: string; entry: FoodLabelEntry }[] = FOOD_LABELS
+  .flatMap(entry => [entry.id.replace(/-/g, ' '), ...entry.synonyms].map(synonym => ({
+    synonym: normalizeLabelText(synonym),
+    entry,
+  })))
+  // Longest synonym first so "nasi goreng" wins over "nasi"
+  .sort((a, b) => b.synonym.length - a.synonym.length);
+
+export function getFoodLabel(foodId: string): FoodLabelEntry | undefined {
+  return FOOD_LABELS_BY_ID.get(foodId);
+}
+
+// Words that can surround a food name without changing the food: amounts, servings and sizes.
+// Any other word left over ("bakar", "daging", "brown") names a different dish than the synonym.
+const FILLER_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'some', 'one', 'two', 'half', 'plate', 'bowl', 'cup', 'glass', 'serving',
+  'portion', 'piece', 'pieces', 'slice', 'slices', 'small', 'medium', 'large',
+  'satu', 'dua', 'setengah', 'piring', 'sepiring', 'mangkuk', 'semangkuk', 'gelas', 'segelas', 'porsi',
+  'seporsi', 'potong', 'sepotong', 'buah', 'sebuah', 'kecil', 'sedang', 'besar',
+]);
+
+function onlyFillerLeft(text: string): boolean {
+  return text.split(' ').every(word => word === '' || FILLER_WORDS.has(word) || /^\d+$/.test(word));
+}
+
+// Exact synonym match first, otherwise a synonym found as whole words in the label with only
+// amounts or sizes around it ("a plate of Nasi Goreng" -> nasi-goreng). "Ikan bakar" or
+// "martabak daging" stay unmatched, so the model's values are kept rather than another dish's.
+export function normalizeFoodLabel(label: string): NormalizedFoodLabel | undefined {
+  const normalized = normalizeLabelText(label);
+  if (!normalized) return undefined;
+
+  const padded = ` ${normalized} `;
+  const match = SYNONYM_INDEX.find(({ synonym }) => synonym === normalized)
+    ?? SYNONYM_INDEX.find(({ synonym }) =>
+      padded.includes(` ${synonym} `) && onlyFillerLeft(padded.replace(` ${synonym} `, ' ').trim()));
+  if (!match) return undefined;
+
+  return { food_id: match.entry.id, display_names: { ...match.entry.names } };
+}
+
+// Attaches food_id and display_names to an item; unknown labels pass through unchanged.
+export function canonicalizeFoodItem<T extends FoodItem>(item: T): T {
+  const normalized = normalizeFoodLabel(item.label);
+  return normalized ? { ...item, ...normalized } : item;
+}
+
+// Grouping key that treats "fried rice" and "Nasi Goreng" as the same food.
+// Falls back to the normalized label text for foods outside the dictionary.
+export function foodKey(item: Pick<FoodItem, 'label' | 'food_id'>): string {
+  return item.food_id ?? normalizeFoodLabel(item.label)?.food_id ?? `label:${normalizeLabelText(item.label)}`;
+}
+
+// Display name for an item in the requested language, falling back to the raw label.
+export function foodDisplayName(item: Pick<FoodItem, 'label' | 'display_names'>, language: Language = 'id'): string {
+  return item.display_names?.[language] ?? item.label;
+}
+
+// Search predicate: the query resolves to the item's canonical food, or appears in its label
+// or either display name. "fried rice" matches an item labelled "Nasi Goreng".
+export function matchesFoodQuery(item: Pick<FoodItem, 'label' | 'food_id' | 'display_names'>, query: string): boolean {
+  const normalizedQuery = normalizeLabelText(query);
+  if (!normalizedQuery) return true;
+
+  const queryFood = normalizeFoodLabel(query);
+  if (queryFood && queryFood.food_id === foodKey(item)) return true;
+
+  return [item.label, item.display_names?.id, item.display_names?.en]
+    .some(name => name !== undefined && normalizeLabelText(name).includes(normalizedQuery));
+}
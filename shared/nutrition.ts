@@ -0,0 +1,119 @@
+// Nutrition arithmetic shared by the server pipeline and the client.
+import type { FoodItem, Macronutrients, Micronutrients, Nutrition, NutritionAnalysis, NutritionTotals } from "./schema";
+
+// Extended panel nutrients are optional: an unknown value stays undefined instead of becoming 0,
+// and a sum is unknown as soon as one of its parts is.
+export const EXTENDED_MACRO_KEYS = ['saturated_fat_g', 'added_sugar_g'] as const;
+
+export const EXTENDED_MICRO_KEYS = ['zinc_mg', 'vitamin_d_mcg', 'vitamin_b12_mcg', 'folate_mcg', 'iodine_mcg'] as const;
+
+export type ExtendedMacroKey = (typeof EXTENDED_MACRO_KEYS)[number];
+export type ExtendedMicroKey = (typeof EXTENDED_MICRO_KEYS)[number];
+
+export const MACRO_KEYS: Exclude<keyof Macronutrients, ExtendedMacroKey>[] = ['protein_g', 'carbs_g', 'fat_g', 'fiber_g', 'sugar_g'];
+
+export const MICRO_KEYS: Exclude<keyof Micronutrients, ExtendedMicroKey>[] = [
+  'sodium_mg',
+  'potassium_mg',
+  'calcium_mg',
+  'iron_mg',
+  'vitamin_a_mcg',
+  'vitamin_c_mg',
+  'cholesterol_mg',
+];
+
+// Atwater general factors (kcal per gram)
+export const ATWATER = { protein: 4, carbs: 4, fat: 9 };
+
+export function roundTo(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// Sum of optional amounts; undefined when any of them is unknown.
+export function sumKnown(values: (number | undefined)[]): number | undefined {
+  let total = 0;
+  for (const value of values) {
+    if (value === undefined) return undefined;
+    total += value;
+  }
+  return roundTo(total);
+}
+
+export function atwaterCalories(macros: Pick<Macronutrients, 'protein_g' | 'carbs_g' | 'fat_g'>): number {
+  return ATWATER.protein * macros.protein_g + ATWATER.carbs * macros.carbs_g + ATWATER.fat * macros.fat_g;
+}
+
+// Sums the composition items into totals. Allergens are the union across items.
+export function sumTotals(items: FoodItem[]): NutritionTotals {
+  const sum = (pick: (item: FoodItem) => number) =>
+    roundTo(items.reduce((total, item) => total + pick(item), 0));
+
+  const macros = {} as Macronutrients;
+  for (const key of MACRO_KEYS) {
+    macros[key] = sum(item => item.nutrition.macros[key]);
+  }
+
+  for (const key of EXTENDED_MACRO_KEYS) {
+    macros[key] = sumKnown(items.map(item => item.nutrition.macros[key]));
+  }
+
+  const micros = {} as Micronutrients;
+  for (const key of MICRO_KEYS) {
+    micros[key] = sum(item => item.nutrition.micros[key]);
+  }
+  for (const key of EXTENDED_MICRO_KEYS) {
+    micros[key] = sumKnown(items.map(item => item.nutrition.micros[key]));
+  }
+
+  return {
+    serving_total_g: sum(item => item.serving_est_g),
+    calories_kcal: sum(item => item.nutrition.calories_kcal),
+    macros,
+    micros,
+    allergens: Array.from(new Set(items.flatMap(item => item.nutrition.allergens))),
+  };
+}
+
+// Multiplies every amount by `factor` (allergens unchanged).
+export function scaleNutrition(nutrition: Nutrition, factor: number): Nutrition {
+  const macros = { ...nutrition.macros };
+  for (const key of MACRO_KEYS) {
+    macros[key] = roundTo(macros[key] * factor);
+  }
+  for (const key of EXTENDED_MACRO_KEYS) {
+    const value = macros[key];
+    if (value !== undefined) macros[key] = roundTo(value * factor);
+  }
+  const micros = { ...nutrition.micros };
+  for (const key of MICRO_KEYS) {
+    micros[key] = roundTo(micros[key] * factor);
+  }
+  for (const key of EXTENDED_MICRO_KEYS) {
+    const value = micros[key];
+    if (value !== undefined) micros[key] = roundTo(value * factor);
+  }
+  return {
+    ...nutrition,
+    calories_kcal: roundTo(nutrition.calories_kcal * factor, 1),
+    macros,
+    micros,
+  };
+}
+
+// Fills the extended nutrients `base` lacks from `source`, scaled by `factor`. Used where
+// reference data replaces a model estimate: the table has no extended panel, so those
+// nutrients keep the model's (or the previous) estimate.
+export function withExtendedFrom<T extends Omit<Nutrition, 'allergens'>>(base: T, source: Omit<Nutrition, 'allergens'>, factor = 1): T {
+  const macros = { ...base.macros };
+  for (const key of EXTENDED_MACRO_KEYS) {
+    const value = source.macros[key];
+    if (macros[key] === undefined && value !== undefined) macros[key] = roundTo(value * factor);
+  }
+  const micros = { ...base.micros };
+  for (const key of EXTENDED_MICRO_KEYS) {
+    const value = source.micros[key];
+    if (micros[key] === undefined && value !== undefined) micros[key] = roundTo(value * factor);
+  }
+  return { ...base, macros, micros };
+}
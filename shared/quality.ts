@@ -0,0 +1,210 @@
+// Deterministic checks on model output: totals reconciliation, Atwater energy check and
+// per-gram density bounds. Run by the server pipeline and again after user edits
+// (shared/composition-edits.ts).
+import type { AnalysisQuality, FoodItem, Nutrition, NutritionAnalysis, NutritionTotals, QualityIssue } from "./schema";
+import { EXTENDED_MACRO_KEYS, EXTENDED_MICRO_KEYS, MACRO_KEYS, MICRO_KEYS, atwaterCalories, roundTo, sumTotals } from "./nutrition";
+
+// Reported vs recomputed totals may differ by rounding; flag anything beyond 5% (and 1 unit).
+const TOTALS_RELATIVE_TOLERANCE = 0.05;
+const TOTALS_ABSOLUTE_TOLERANCE = 1;
+
+// Energy vs 4·protein + 4·carbs + 9·fat. Fiber, alcohol and polyols make exact agreement unlikely.
+const ENERGY_RELATIVE_TOLERANCE = 0.2;
+const ENERGY_ABSOLUTE_TOLERANCE = 20;
+
+// Upper bounds per gram of food. Deliberately loose: they catch impossible numbers, not unusual foods.
+const DENSITY_BOUNDS: { field: string; max: number; unit: string; value: (n: Nutrition) => number }[] = [
+  { field: 'calories_kcal', max: 9, unit: 'kcal/g', value: n => n.calories_kcal },
+  {
+    field: 'macros',
+    max: 1.05,
+    unit: 'g/g',
+    value: n => n.macros.protein_g + n.macros.carbs_g + n.macros.fat_g + n.macros.fiber_g,
+  },
+  { field: 'micros.sodium_mg', max: 100, unit: 'mg/g', value: n => n.micros.sodium_mg },
+  { field: 'micros.potassium_mg', max: 50, unit: 'mg/g', value: n => n.micros.potassium_mg },
+  { field: 'micros.calcium_mg', max: 25, unit: 'mg/g', value: n => n.micros.calcium_mg },
+  { field: 'micros.iron_mg', max: 1, unit: 'mg/g', value: n => n.micros.iron_mg },
+  { field: 'micros.vitamin_a_mcg', max: 150, unit: 'mcg/g', value: n => n.micros.vitamin_a_mcg },
+  { field: 'micros.vitamin_c_mg', max: 20, unit: 'mg/g', value: n => n.micros.vitamin_c_mg },
+  { field: 'micros.cholesterol_mg', max: 30, unit: 'mg/g', value: n => n.micros.cholesterol_mg },
+];
+
+function differs(actual: number, expected: number, relative: number, absolute: number): boolean {
+  const diff = Math.abs(actual - expected);
+  return diff > absolute && diff > relative * Math.max(Math.abs(actual), Math.abs(expected));
+}
+
+// Extended nutrients are only compared when both the reported and the recomputed total are known.
+function checkTotals(reported: NutritionTotals, computed: NutritionTotals): QualityIssue[] {
+  const extended = [
+    ...EXTENDED_MACRO_KEYS.map(key => ({ field: `macros.${key}`, reported: reported.macros[key], computed: computed.macros[key] })),
+    ...EXTENDED_MICRO_KEYS.map(key => ({ field: `micros.${key}`, reported: reported.micros[key], computed: computed.micros[key] })),
+  ].flatMap(f => (f.reported !== undefined && f.computed !== undefined
+    ? [{ field: f.field, reported: f.reported, computed: f.computed }]
+    : []));
+  const fields: { field: string; reported: number; computed: number }[] = [
+    { field: 'serving_total_g', reported: reported.serving_total_g, computed: computed.serving_total_g },
+    { field: 'calories_kcal', reported: reported.calories_kcal, computed: computed.calories_kcal },
+    ...MACRO_KEYS.map(key => ({ field: `macros.${key}`, reported: reported.macros[key], computed: computed.macros[key] })),
+    ...MICRO_KEYS.map(key => ({ field: `micros.${key}`, reported: reported.micros[key], computed: computed.micros[key] })),
+    ...extended,
+  ];
+
+  return fields
+    .filter(f => differs(f.reported, f.computed, TOTALS_RELATIVE_TOLERANCE, TOTALS_ABSOLUTE_TOLERANCE))
+    .map(f => ({
+      type: 'totals_mismatch' as const,
+      field: f.field,
+      expected: f.computed,
+      actual: f.reported,
+      message: `Reported total ${f.field} (${f.reported}) does not match the sum of items (${f.computed})`,
+      code: 'totals_mismatch' as const,
+      params: { field: f.field, reported: f.reported, computed: f.computed },
+    }));
+}
+
+function checkEnergy(calories: number, nutrition: Pick<Nutrition, 'macros'>, itemIndex?: number, label?: string): QualityIssue[] {
+  const expected = roundTo(atwaterCalories(nutrition.macros), 1);
+  if (!differs(calories, expected, ENERGY_RELATIVE_TOLERANCE, ENERGY_ABSOLUTE_TOLERANCE)) {
+    return [];
+  }
+  const subject = label ? `"${label}"` : 'Total';
+  return [{
+    type: 'energy_mismatch',
+    item_index: itemIndex,
+    field: 'calories_kcal',
+    expected,
+    actual: calories,
+    message: `${subject} energy ${calories} kcal differs from 4·protein + 4·carbs + 9·fat = ${expected} kcal`,
+    code: label ? 'item_energy_mismatch' : 'total_energy_mismatch',
+    params: { ...(label ? { item: label } : {}), calories, expected },
+  }];
+}
+
+function checkDensity(item: FoodItem, itemIndex: number): QualityIssue[] {
+  const grams = item.serving_est_g;
+  const issues: QualityIssue[] = [];
+
+  if (grams <= 0) {
+    if (item.nutrition.calories_kcal > 0) {
+      issues.push({
+        type: 'density_out_of_range',
+        item_index: itemIndex,
+        field: 'serving_est_g',
+        actual: grams,
+        message: `"${item.label}" has nutrients but no estimated weight`,
+        code: 'missing_weight',
+        params: { item: item.label },
+      });
+    }
+    return issues;
+  }
+
+  for (const bound of DENSITY_BOUNDS) {
+    const perGram = bound.value(item.nutrition) / grams;
+    if (perGram > bound.max) {
+      issues.push({
+        type: 'density_out_of_range',
+        item_index: itemIndex,
+        field: bound.field,
+        expected: bound.max,
+        actual: roundTo(perGram),
+        message: `"${item.label}" ${bound.field} density ${roundTo(perGram)} ${bound.unit} exceeds ${bound.max} ${bound.unit}`,
+        code: 'density_too_high',
+        params: { item: item.label, field: bound.field, density: roundTo(perGram), max: bound.max, unit: bound.unit },
+      });
+    }
+  }
+  return issues;
+}
+
+// Energy check on meal totals (no item index).
+export function checkTotalsEnergy(totals: NutritionTotals): QualityIssue[] {
+  return checkEnergy(totals.calories_kcal, totals);
+}
+
+function checkItem(item: FoodItem, index: number): QualityIssue[] {
+  return [
+    ...checkEnergy(item.nutrition.calories_kcal, item.nutrition, index, item.label),
+    ...checkDensity(item, index),
+  ];
+}
+
+function qualityOf(issues: QualityIssue[]): AnalysisQuality {
+  return {
+    status: issues.length > 0 ? 'warning' : 'ok',
+    totals_recomputed: true,
+    issues,
+  };
+}
+
+function withIssues(analysis: NutritionAnalysis, issues: QualityIssue[]): NutritionAnalysis {
+  return { ...analysis, quality: qualityOf(issues) };
+}
+
+// Re-sums totals after later pipeline steps replaced some items (`changed` indexes).
+// The model-level totals_mismatch issues and issues of untouched items are kept; issues of
+// changed items are dropped, or re-checked against the new numbers when `recheck` is set.
+export function resumAnalysis(
+  analysis: NutritionAnalysis,
+  composition: FoodItem[],
+  changed: Set<number>,
+  recheck: boolean,
+): NutritionAnalysis {
+  const totals = sumTotals(composition);
+  totals.allergens = Array.from(new Set([...totals.allergens, ...analysis.totals.allergens]));
+
+  const issues: QualityIssue[] = [
+    ...(analysis.quality?.issues ?? []).filter(issue =>
+      issue.item_index === undefined
+        ? issue.type === 'totals_mismatch'
+        : !changed.has(issue.item_index),
+    ),
+    ...(recheck ? composition.flatMap((item, index) => (changed.has(index) ? checkItem(item, index) : [])) : []),
+    ...checkTotalsEnergy(totals),
+  ];
+
+  return withIssues({ ...analysis, composition, totals }, issues);
+}
+
+// Replaces the model's totals with the sum of its items and attaches a `quality` block
+// listing every discrepancy found.
+export function reconcileAnalysis(analysis: NutritionAnalysis): NutritionAnalysis {
+  const computed = sumTotals(analysis.composition);
+  // Keep allergens the model only reported at meal level: dropping them would be unsafe.
+  computed.allergens = Array.from(new Set([...computed.allergens, ...analysis.totals.allergens]));
+
+  const issues: QualityIssue[] = [
+    ...checkTotals(analysis.totals, computed),
+    ...analysis.composition.flatMap(checkItem),
+    ...checkTotalsEnergy(computed),
+  ];
+
+  return withIssues({ ...analysis, totals: computed }, issues);
+}
+
+// Quality of an edited composition. `totals` are the sum of `composition`, so the model's
+// totals_mismatch issues no longer apply and the totals energy is checked again. Items kept
+// from `previous` (same object) keep their issues under their new index; replaced or added
+// items are checked like model output. Results without a quality block get none.
+export function editedQuality(
+  previous: NutritionAnalysis,
+  composition: FoodItem[],
+  totals: NutritionTotals,
+): AnalysisQuality | undefined {
+  if (!previous.quality) return undefined;
+  const previousIssues = previous.quality.issues;
+
+  return qualityOf([
+    ...composition.flatMap((item, index) => {
+      const previousIndex = previous.composition.indexOf(item);
+      return previousIndex === -1
+        ? checkItem(item, index)
+        : previousIssues
+          .filter(issue => issue.item_index === previousIndex)
+          .map(issue => ({ ...issue, item_index: index }));
+    }),
+    ...checkTotalsEnergy(totals),
+  ]);
+}
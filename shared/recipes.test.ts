@@ -0,0 +1,57 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { FoodItem, Recipe } from "./schema";
+import { applyRecipe } from "./recipes";
+
+function recipe(ingredients: Recipe["ingredients"]): Recipe {
+  return { id: "r1", name: "Sayur sop", ingredients, portions: 4, cooking_method: "boiled", created_at: "2026-01-01T00:00:00.000Z" };
+}
+
+// The model thought the soup was meatless and estimated its zinc
+const soup: FoodItem = {
+  label: "sayur sop",
+  confidence: 0.8,
+  serving_est_g: 200,
+  bbox_norm: { x: 0, y: 0, w: 0.5, h: 0.5 },
+  nutrition: {
+    calories_kcal: 60,
+    macros: { protein_g: 2, carbs_g: 10, fat_g: 1, fiber_g: 2, sugar_g: 3 },
+    micros: { sodium_mg: 400, potassium_mg: 250, calcium_mg: 30, iron_mg: 0.6, vitamin_a_mcg: 300, vitamin_c_mg: 8, cholesterol_mg: 0, zinc_mg: 0.4 },
+    allergens: [],
+  },
+  dietary: { vegetarian: { value: true, source: "model" }, vegan: { value: true, source: "model" } },
+};
+
+test("dietary flags follow the recipe's ingredients", () => {
+  const withBeef = applyRecipe(soup, recipe([
+    { food_id: "wortel", grams: 200 },
+    { food_id: "kentang", grams: 200 },
+    { food_id: "daging-sapi", grams: 100 },
+    { food_id: "air", grams: 500 },
+  ]));
+
+  assert.deepEqual(withBeef.dietary?.vegetarian, { value: false, source: "database" });
+  assert.deepEqual(withBeef.dietary?.contains_pork, { value: false, source: "database" });
+  // Beef leaves halal status open, so the vegetables cannot settle it
+  assert.equal(withBeef.dietary?.halal_uncertain, undefined);
+});
+
+test("an ingredient missing from the table leaves reassuring flags unset", () => {
+  const flags = applyRecipe(soup, recipe([
+    { food_id: "wortel", grams: 200 },
+    { food_id: "ceker-ayam", grams: 100 },
+  ])).dietary;
+
+  assert.equal(flags?.vegetarian, undefined);
+  assert.equal(flags?.contains_pork, undefined);
+  assert.equal(flags?.contains_alcohol, undefined);
+});
+
+test("extended nutrients the ingredients lack keep the item's estimate", () => {
+  const applied = applyRecipe(soup, recipe([{ food_id: "wortel", grams: 400 }]));
+
+  assert.equal(applied.serving_est_g, 200);
+  assert.equal(applied.nutrition.micros.zinc_mg, 0.4);
+  assert.equal(applied.nutrition.micros.vitamin_d_mcg, undefined);
+  assert.deepEqual(applied.nutrition_source, { type: "recipe", recipe_id: "r1", recipe_name: "Sayur sop" });
+});
@@ -0,0 +1,136 @@
+// Home recipe nutrition: batch-cooked dishes (a pot of sayur sop) computed from their raw
+// ingredients in the bundled food composition table, then attached to photographed items.
+import type { CookingMethod, FoodItem, Micronutrients, Nutrition, NutritionAnalysis, Recipe } from "./schema";
+import {
+  EXTENDED_MACRO_KEYS,
+  EXTENDED_MICRO_KEYS,
+  MACRO_KEYS,
+  MICRO_KEYS,
+  roundTo,
+  scaleNutrition,
+  sumKnown,
+  withExtendedFrom,
+} from "./nutrition";
+import { withComposition } from "./composition-edits";
+import { recipeDietaryFlags } from "./dietary";
+import { getFoodComposition, nutritionFromReference, type FoodCompositionEntry } from "./food-composition";
+
+export interface CookingMethodInfo {
+  names: { id: string; en: string };
+  // Cooked weight / raw weight (water lost to evaporation or frying)
+  yield: number;
+  // Fraction of heat-sensitive vitamins left after cooking; minerals and macros are kept
+  retention: Partial<Record<keyof Micronutrients, number>>;
+}
+
+// Approximate yield and retention factors after the USDA Table of Nutrient Retention Factors.
+// Frying oil is not added automatically: enter the oil the dish absorbs as an ingredient.
+export const COOKING_METHODS: Record<CookingMethod, CookingMethodInfo> = {
+  raw: { names: { id: 'Mentah', en: 'Raw' }, yield: 1, retention: {} },
+  boiled: { names: { id: 'Direbus / sop', en: 'Boiled / soup' }, yield: 0.9, retention: { vitamin_c_mg: 0.5, vitamin_a_mcg: 0.9 } },
+  steamed: { names: { id: 'Dikukus', en: 'Steamed' }, yield: 0.95, retention: { vitamin_c_mg: 0.8, vitamin_a_mcg: 0.95 } },
+  stir_fried: { names: { id: 'Ditumis', en: 'Stir-fried' }, yield: 0.85, retention: { vitamin_c_mg: 0.7, vitamin_a_mcg: 0.9 } },
+  deep_fried: { names: { id: 'Digoreng', en: 'Deep-fried' }, yield: 0.75, retention: { vitamin_c_mg: 0.6, vitamin_a_mcg: 0.85 } },
+  grilled: { names: { id: 'Dibakar / dipanggang', en: 'Grilled / baked' }, yield: 0.75, retention: { vitamin_c_mg: 0.7, vitamin_a_mcg: 0.85 } },
+};
+
+export interface RecipeNutrition {
+  cooked_g: number; // whole batch after cooking
+  portion_g: number;
+  per_portion: Nutrition;
+  unknown_ingredients: string[]; // food IDs missing from the composition table (counted as 0)
+}
+
+export function computeRecipeNutrition(
+  recipe: Pick<Recipe, 'ingredients' | 'portions' | 'cooking_method'>,
+): RecipeNutrition {
+  const method = COOKING_METHODS[recipe.cooking_method];
+  const total: Nutrition = {
+    calories_kcal: 0,
+    macros: { protein_g: 0, carbs_g: 0, fat_g: 0, fiber_g: 0, sugar_g: 0 },
+    micros: {
+      sodium_mg: 0,
+      potassium_mg: 0,
+      calcium_mg: 0,
+      iron_mg: 0,
+      vitamin_a_mcg: 0,
+      vitamin_c_mg: 0,
+      cholesterol_mg: 0,
+    },
+    allergens: [],
+  };
+  const unknown: string[] = [];
+  let rawGrams = 0;
+
+  for (const { food_id, grams } of recipe.ingredients) {
+    rawGrams += grams;
+    const entry = getFoodComposition(food_id);
+    if (!entry) {
+      unknown.push(food_id);
+      continue;
+    }
+    const nutrition = nutritionFromReference(entry, grams);
+    total.calories_kcal += nutrition.calories_kcal;
+    for (const key of MACRO_KEYS) {
+      total.macros[key] += nutrition.macros[key];
+    }
+    for (const key of MICRO_KEYS) {
+      total.micros[key] += nutrition.micros[key] * (method.retention[key] ?? 1);
+    }
+    total.allergens = Array.from(new Set([...total.allergens, ...entry.allergens]));
+  }
+
+  // Extended nutrients are known only when every ingredient has them; unknown ingredients
+  // leave them unknown rather than counting as 0
+  const sumIngredients = (value: (per100g: FoodCompositionEntry['per100g']) => number | undefined, retention = 1) =>
+    sumKnown(recipe.ingredients.map(({ food_id, grams }) => {
+      const entry = getFoodComposition(food_id);
+      const per100g = entry ? value(entry.per100g) : undefined;
+      return per100g === undefined ? undefined : per100g * grams / 100 * retention;
+    }));
+  for (const key of EXTENDED_MACRO_KEYS) {
+    total.macros[key] = sumIngredients(per100g => per100g.macros[key]);
+  }
+  for (const key of EXTENDED_MICRO_KEYS) {
+    total.micros[key] = sumIngredients(per100g => per100g.micros[key], method.retention[key]);
+  }
+
+  const portions = Math.max(1, recipe.portions);
+  const cookedGrams = rawGrams * method.yield;
+  return {
+    cooked_g: roundTo(cookedGrams, 1),
+    portion_g: roundTo(cookedGrams / portions, 1),
+    per_portion: scaleNutrition(total, 1 / portions),
+    unknown_ingredients: unknown,
+  };
+}
+
+// The recipe supplies the nutrient density and the photo the amount: the item keeps its
+// estimated weight (one portion when it has none) and takes its nutrition from the recipe.
+// Extended nutrients the ingredients don't give keep the item's estimate; dietary flags
+// come from the ingredients.
+export function applyRecipe(item: FoodItem, recipe: Recipe): FoodItem {
+  const { portion_g, per_portion } = computeRecipeNutrition(recipe);
+  const grams = item.serving_est_g > 0 ? item.serving_est_g : portion_g;
+  const factor = portion_g > 0 ? grams / portion_g : 0;
+  const nutrition = scaleNutrition(per_portion, factor);
+
+  return {
+    ...item,
+    serving_est_g: grams,
+    // Without a weight the item's own estimate says nothing about the portion
+    nutrition: item.serving_est_g > 0 ? withExtendedFrom(nutrition, item.nutrition) : nutrition,
+    nutrition_source: { type: 'recipe', recipe_id: recipe.id, recipe_name: recipe.name },
+    dietary: recipeDietaryFlags(recipe.ingredients.map(ingredient => ingredient.food_id)),
+  };
+}
+
+// Attaches a saved recipe to the item at `index` and re-sums the totals.
+export function withRecipe(analysis: NutritionAnalysis, index: number, recipe: Recipe): NutritionAnalysis {
+  const item = analysis.composition[index];
+  if (!item) return analysis;
+
+  const composition = analysis.composition.slice();
+  composition[index] = applyRecipe(item, recipe);
+  return withComposition(analysis, composition);
+}
@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { NutritionAnalysis } from "./schema";
+import { createItem } from "./composition-edits";
+import { sumTotals } from "./nutrition";
+import { childAgeMonths, defaultGoalsForChild } from "./child-goals";
+import { analyzeMealHistory, generateRecommendations, type MealRecord } from "./recommendations";
+
+const TODAY = new Date(2026, 9, 19);
+
+function meal(label: string, grams: number, consumedAt: string): MealRecord {
+  const item = createItem(label, grams);
+  assert.ok(item, `${label} is in the composition table`);
+  const analysis: NutritionAnalysis = {
+    composition: [item],
+    totals: sumTotals([item]),
+    image_meta: { width: 0, height: 0, orientation: "square" },
+    notes: "",
+  };
+  return { mealType: "lunch", analysisData: analysis, consumedAt };
+}
+
+test("age is counted in whole months", () => {
+  assert.equal(childAgeMonths("2024-10-19", TODAY), 24);
+  assert.equal(childAgeMonths("2024-10-20", TODAY), 23);
+  assert.equal(childAgeMonths("2027-01-01", TODAY), 0);
+});
+
+test("default goals follow age group and, from 10 years, sex", () => {
+  assert.equal(defaultGoalsForChild({ birthDate: "2024-04-01", sex: "female" }, TODAY)?.dailyCalories, 1350);
+  assert.equal(defaultGoalsForChild({ birthDate: "2015-06-01", sex: "female" }, TODAY)?.dailyCalories, 1900);
+  assert.equal(defaultGoalsForChild({ birthDate: "2015-06-01", sex: "male" }, TODAY)?.dailyCalories, 2000);
+  assert.equal(defaultGoalsForChild({ birthDate: "2000-01-01", sex: "male" }, TODAY), null);
+});
+
+test("weight adjusts energy and protein within 20%", () => {
+  const light = defaultGoalsForChild({ birthDate: "2024-04-01", sex: "male", weightKg: 11.96 }, TODAY);
+  assert.equal(light?.dailyCalories, 1240); // 1350 × 0.92, to 10 kcal
+  assert.equal(light?.dailyProtein, 18);
+  assert.equal(light?.dailyCarbs, 215);
+
+  const heavy = defaultGoalsForChild({ birthDate: "2024-04-01", sex: "male", weightKg: 30 }, TODAY);
+  assert.equal(heavy?.dailyCalories, 1620); // capped at 1350 × 1.2
+});
+
+test("recommendations target the child's defaults when no goals are saved", () => {
+  const trend = analyzeMealHistory([meal("nasi putih", 100, "2026-10-18T05:00:00.000Z")]);
+  const child = { birthDate: "2023-01-01", sex: "female" as const };
+
+  const forChild = generateRecommendations(trend, null, "en", child);
+  assert.equal(forChild.find(r => r.id === "low-calories")?.targetValue, defaultGoalsForChild(child)?.dailyCalories);
+
+  const withGoals = generateRecommendations(trend, { dailyCalories: 1000 }, "en", child);
+  assert.equal(withGoals.find(r => r.id === "low-calories")?.targetValue, 1000);
+
+  const adult = generateRecommendations(trend, null, "en");
+  assert.equal(adult.find(r => r.id === "low-calories")?.targetValue, 1800);
+});
@@ -0,0 +1,580 @@
+// Meal history trends and recommendations. Runs on the client for the selected child's meals
+// and goals (meal-history.tsx); server meals fit the same shapes.
+import type { ChildProfile, Language, NutritionAnalysis, NutritionTotals } from "./schema";
+import { foodDisplayName, foodKey } from "./food-labels";
+import { defaultGoalsForChild } from "./child-goals";
+
+// Recommended Daily Values (RDV) for adults
+const RDV = {
+  calories: { min: 1800, max: 2500 },
+  protein: { min: 50, max: 200 }, // g
+  carbs: { min: 130, max: 400 }, // g
+  fat: { min: 44, max: 100 }, // g
+  fiber: { min: 25, max: 38 }, // g
+  sodium: { min: 0, max: 2300 }, // mg
+  calcium: { min: 1000, max: 1300 }, // mg
+  iron: { min: 8, max: 18 }, // mg
+  vitamin_c: { min: 65, max: 90 }, // mg
+  vitamin_a: { min: 700, max: 900 }, // mcg
+};
+
+// The fields of a saved meal (localStore or the meals table) the trend needs
+export interface MealRecord {
+  mealType: string;
+  analysisData: unknown; // NutritionAnalysis
+  consumedAt: Date | string;
+}
+
+// Daily goals as saved (localStore or the nutrition_goals table); unset fields fall back
+export interface GoalValues {
+  dailyCalories?: number | null;
+  dailyProtein?: number | null;
+  dailyCarbs?: number | null;
+  dailyFat?: number | null;
+  dailyFiber?: number | null;
+}
+
+export interface NutritionTrend {
+  avgCalories: number;
+  avgProtein: number;
+  avgCarbs: number;
+  avgFat: number;
+  avgFiber: number;
+  avgSodium: number;
+  avgCalcium: number;
+  avgIron: number;
+  avgVitaminC: number;
+  avgVitaminA: number;
+  // Extended panel: null when no day has a value for every meal (meals saved before the panel
+  // existed have none)
+  avgSaturatedFat: number | null;
+  avgAddedSugar: number | null;
+  avgZinc: number | null;
+  avgVitaminD: number | null;
+  avgVitaminB12: number | null;
+  avgFolate: number | null;
+  avgIodine: number | null;
+  mealFrequency: {
+    breakfast: number;
+    lunch: number;
+    dinner: number;
+    snack: number;
+  };
+  totalMeals: number;
+  daysAnalyzed: number;
+  // Most frequently eaten foods, grouped by canonical food ID so "fried rice" and "Nasi Goreng" count together
+  topFoods: FoodFrequency[];
+}
+
+export interface FoodFrequency {
+  foodKey: string;
+  name: string;
+  count: number;
+  totalCalories: number;
+}
+
+const TOP_FOODS_LIMIT = 10;
+
+// Daily average of an extended panel nutrient over the days on which every meal reports it,
+// so a day with one older meal does not pass for a low-intake day.
+function extendedDailyAverage(meals: MealRecord[], pick: (totals: NutritionTotals) => number | undefined): number | null {
+  const days = new Map<string, number | undefined>();
+  for (const meal of meals) {
+    const day = new Date(meal.consumedAt).toDateString();
+    const value = pick((meal.analysisData as NutritionAnalysis).totals);
+    const soFar = days.has(day) ? days.get(day) : 0;
+    days.set(day, soFar === undefined || value === undefined ? undefined : soFar + value);
+  }
+  const known = Array.from(days.values()).filter((total): total is number => total !== undefined);
+  return known.length > 0 ? known.reduce((sum, total) => sum + total, 0) / known.length : null;
+}
+
+export interface Recommendation {
+  id: string;
+  type: 'deficiency' | 'excess' | 'balance' | 'habit';
+  priority: 'high' | 'medium' | 'low';
+  title: string;
+  description: string;
+  suggestions: string[];
+  nutrient?: string;
+  currentValue?: number;
+  targetValue?: number;
+}
+
+export function analyzeMealHistory(meals: MealRecord[], language: Language = 'en'): NutritionTrend {
+  if (meals.length === 0) {
+    return {
+      avgCalories: 0,
+      avgProtein: 0,
+      avgCarbs: 0,
+      avgFat: 0,
+      avgFiber: 0,
+      avgSodium: 0,
+      avgCalcium: 0,
+      avgIron: 0,
+      avgVitaminC: 0,
+      avgVitaminA: 0,
+      avgSaturatedFat: null,
+      avgAddedSugar: null,
+      avgZinc: null,
+      avgVitaminD: null,
+      avgVitaminB12: null,
+      avgFolate: null,
+      avgIodine: null,
+      mealFrequency: { breakfast: 0, lunch: 0, dinner: 0, snack: 0 },
+      totalMeals: 0,
+      daysAnalyzed: 0,
+      topFoods: [],
+    };
+  }
+
+  // Calculate unique days
+  const uniqueDays = new Set(
+    meals.map(meal => new Date(meal.consumedAt).toDateString())
+  ).size;
+
+  // Aggregate nutrition totals
+  const totals = meals.reduce((acc, meal) => {
+    const analysis = meal.analysisData as NutritionAnalysis;
+    return {
+      calories: acc.calories + analysis.totals.calories_kcal,
+      protein: acc.protein + analysis.totals.macros.protein_g,
+      carbs: acc.carbs + analysis.totals.macros.carbs_g,
+      fat: acc.fat + analysis.totals.macros.fat_g,
+      fiber: acc.fiber + analysis.totals.macros.fiber_g,
+      sodium: acc.sodium + analysis.totals.micros.sodium_mg,
+      calcium: acc.calcium + analysis.totals.micros.calcium_mg,
+      iron: acc.iron + analysis.totals.micros.iron_mg,
+      vitamin_c: acc.vitamin_c + analysis.totals.micros.vitamin_c_mg,
+      vitamin_a: acc.vitamin_a + analysis.totals.micros.vitamin_a_mcg,
+    };
+  }, {
+    calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0,
+    sodium: 0, calcium: 0, iron: 0, vitamin_c: 0, vitamin_a: 0
+  });
+
+  // Count meal types
+  const mealFrequency = meals.reduce((acc, meal) => {
+    const type = meal.mealType as keyof typeof acc;
+    acc[type] = (acc[type] || 0) + 1;
+    return acc;
+  }, { breakfast: 0, lunch: 0, dinner: 0, snack: 0 });
+
+  // Aggregate individual foods by canonical key
+  const foods = new Map<string, FoodFrequency>();
+  for (const meal of meals) {
+    const analysis = meal.analysisData as NutritionAnalysis;
+    for (const item of analysis.composition) {
+      const key = foodKey(item);
+      const food = foods.get(key) ?? { foodKey: key, name: foodDisplayName(item, language), count: 0, totalCalories: 0 };
+      food.count += 1;
+      food.totalCalories += item.nutrition.calories_kcal;
+      foods.set(key, food);
+    }
+  }
+  const topFoods = Array.from(foods.values())
+    .sort((a, b) => b.count - a.count || b.totalCalories - a.totalCalories)
+    .slice(0, TOP_FOODS_LIMIT);
+
+  const daysAnalyzed = Math.max(uniqueDays, 1);
+
+  return {
+    avgCalories: totals.calories / daysAnalyzed,
+    avgProtein: totals.protein / daysAnalyzed,
+    avgCarbs: totals.carbs / daysAnalyzed,
+    avgFat: totals.fat / daysAnalyzed,
+    avgFiber: totals.fiber / daysAnalyzed,
+    avgSodium: totals.sodium / daysAnalyzed,
+    avgCalcium: totals.calcium / daysAnalyzed,
+    avgIron: totals.iron / daysAnalyzed,
+    avgVitaminC: totals.vitamin_c / daysAnalyzed,
+    avgVitaminA: totals.vitamin_a / daysAnalyzed,
+    avgSaturatedFat: extendedDailyAverage(meals, t => t.macros.saturated_fat_g),
+    avgAddedSugar: extendedDailyAverage(meals, t => t.macros.added_sugar_g),
+    avgZinc: extendedDailyAverage(meals, t => t.micros.zinc_mg),
+    avgVitaminD: extendedDailyAverage(meals, t => t.micros.vitamin_d_mcg),
+    avgVitaminB12: extendedDailyAverage(meals, t => t.micros.vitamin_b12_mcg),
+    avgFolate: extendedDailyAverage(meals, t => t.micros.folate_mcg),
+    avgIodine: extendedDailyAverage(meals, t => t.micros.iodine_mcg),
+    mealFrequency,
+    totalMeals: meals.length,
+    daysAnalyzed,
+    topFoods,
+  };
+}
+
+type RecommendationId =
+  | 'low-calories' | 'high-calories' | 'low-protein' | 'low-fiber' | 'high-sodium'
+  | 'low-calcium' | 'low-iron' | 'low-vitamin-c' | 'skipping-breakfast' | 'high-carb-ratio';
+
+// Values quoted in a description, already formatted for the language
+interface TextValues {
+  current: string;
+  target: string;
+}
+
+interface RecommendationText {
+  title: string;
+  description: (values: TextValues) => string;
+  suggestions: string[];
+}
+
+const RECOMMENDATION_TEXTS: Record<Language, Record<RecommendationId, RecommendationText>> = {
+  en: {
+    'low-calories': {
+      title: 'Increase Daily Calories',
+      description: v => `Your average daily intake (${v.current} kcal) is below your target (${v.target} kcal).`,
+      suggestions: [
+        'Add healthy snacks between meals',
+        'Include nuts, seeds, or avocado for calorie-dense nutrition',
+        'Consider larger portion sizes',
+        'Add olive oil or nut butters to meals'
+      ],
+    },
+    'high-calories': {
+      title: 'Monitor Calorie Intake',
+      description: v => `Your average daily intake (${v.current} kcal) exceeds your target (${v.target} kcal).`,
+      suggestions: [
+        'Focus on portion control',
+        'Choose lower-calorie alternatives',
+        'Increase vegetable portions',
+        'Limit high-calorie beverages'
+      ],
+    },
+    'low-protein': {
+      title: 'Increase Protein Intake',
+      description: v => `Your average protein intake (${v.current}g) is below your target (${v.target}g).`,
+      suggestions: [
+        'Add lean meats, fish, or poultry to meals',
+        'Include beans, lentils, or tofu for plant-based protein',
+        'Add Greek yogurt or cottage cheese as snacks',
+        'Consider protein-rich eggs for breakfast'
+      ],
+    },
+    'low-fiber': {
+      title: 'Increase Fiber Intake',
+      description: v => `Your average fiber intake (${v.current}g) is below recommended levels (${v.target}g).`,
+      suggestions: [
+        'Add more fruits and vegetables to meals',
+        'Choose whole grain breads and cereals',
+        'Include beans and legumes regularly',
+        'Snack on high-fiber fruits like pears and apples'
+      ],
+    },
+    'high-sodium': {
+      title: 'Reduce Sodium Intake',
+      description: v => `Your average sodium intake (${v.current}mg) exceeds recommended limits (${v.target}mg).`,
+      suggestions: [
+        'Choose fresh foods over processed ones',
+        'Cook more meals at home',
+        'Use herbs and spices instead of salt',
+        'Read nutrition labels carefully'
+      ],
+    },
+    'low-calcium': {
+      title: 'Increase Calcium Intake',
+      description: v => `Your average calcium intake (${v.current}mg) is below recommended levels (${v.target}mg).`,
+      suggestions: [
+        'Include dairy products like milk, yogurt, and cheese',
+        'Add leafy greens like kale and spinach',
+        'Try calcium-fortified plant milks',
+        'Include sardines or canned salmon with bones'
+      ],
+    },
+    'low-iron': {
+      title: 'Increase Iron Intake',
+      description: v => `Your average iron intake (${v.current}mg) is below recommended levels (${v.target}mg).`,
+      suggestions: [
+        'Include lean red meat, poultry, and fish',
+        'Add iron-rich vegetables like spinach and broccoli',
+        'Combine iron-rich foods with vitamin C sources',
+        'Consider iron-fortified cereals'
+      ],
+    },
+    'low-vitamin-c': {
+      title: 'Increase Vitamin C Intake',
+      description: v => `Your average vitamin C intake (${v.current}mg) is below recommended levels (${v.target}mg).`,
+      suggestions: [
+        'Add citrus fruits like oranges and grapefruits',
+        'Include berries in your diet',
+        'Add bell peppers and broccoli to meals',
+        'Try kiwi fruit or strawberries as snacks'
+      ],
+    },
+    'skipping-breakfast': {
+      title: 'Eat Breakfast More Regularly',
+      description: () => 'You\'re skipping breakfast frequently. Regular breakfast can help maintain energy levels throughout the day.',
+      suggestions: [
+        'Prepare overnight oats or yogurt parfaits',
+        'Keep simple options like bananas and nuts handy',
+        'Try protein-rich options like eggs or Greek yogurt',
+        'Set a morning eating routine'
+      ],
+    },
+    'high-carb-ratio': {
+      title: 'Balance Macronutrients',
+      description: v => `Your diet is very high in carbohydrates (${v.current}%). Consider balancing with more protein and healthy fats.`,
+      suggestions: [
+        'Replace some refined carbs with protein sources',
+        'Add healthy fats like nuts, seeds, or olive oil',
+        'Choose complex carbohydrates over simple ones',
+        'Include protein with each meal'
+      ],
+    },
+  },
+  id: {
+    'low-calories': {
+      title: 'Tingkatkan Asupan Kalori Harian',
+      description: v => `Rata-rata asupan harian Anda (${v.current} kkal) di bawah target (${v.target} kkal).`,
+      suggestions: [
+        'Tambahkan camilan sehat di antara waktu makan',
+        'Sertakan kacang-kacangan, biji-bijian, atau alpukat yang padat kalori',
+        'Pertimbangkan porsi yang lebih besar',
+        'Tambahkan minyak zaitun atau selai kacang ke makanan'
+      ],
+    },
+    'high-calories': {
+      title: 'Perhatikan Asupan Kalori',
+      description: v => `Rata-rata asupan harian Anda (${v.current} kkal) melebihi target (${v.target} kkal).`,
+      suggestions: [
+        'Perhatikan ukuran porsi',
+        'Pilih alternatif yang lebih rendah kalori',
+        'Perbanyak porsi sayuran',
+        'Batasi minuman tinggi kalori'
+      ],
+    },
+    'low-protein': {
+      title: 'Tingkatkan Asupan Protein',
+      description: v => `Rata-rata asupan protein Anda (${v.current} g) di bawah target (${v.target} g).`,
+      suggestions: [
+        'Tambahkan daging tanpa lemak, ikan, atau ayam ke makanan',
+        'Sertakan kacang-kacangan, tahu, atau tempe sebagai protein nabati',
+        'Jadikan yogurt atau keju sebagai camilan',
+        'Pertimbangkan telur yang kaya protein untuk sarapan'
+      ],
+    },
+    'low-fiber': {
+      title: 'Tingkatkan Asupan Serat',
+      description: v => `Rata-rata asupan serat Anda (${v.current} g) di bawah anjuran (${v.target} g).`,
+      suggestions: [
+        'Perbanyak buah dan sayur di setiap makan',
+        'Pilih roti dan sereal gandum utuh',
+        'Sertakan kacang-kacangan secara rutin',
+        'Pilih buah tinggi serat seperti pir dan apel sebagai camilan'
+      ],
+    },
+    'high-sodium': {
+      title: 'Kurangi Asupan Natrium',
+      description: v => `Rata-rata asupan natrium Anda (${v.current} mg) melebihi batas anjuran (${v.target} mg).`,
+      suggestions: [
+        'Pilih makanan segar daripada makanan olahan',
+        'Lebih sering memasak di rumah',
+        'Gunakan rempah dan bumbu sebagai pengganti garam',
+        'Baca label gizi dengan teliti'
+      ],
+    },
+    'low-calcium': {
+      title: 'Tingkatkan Asupan Kalsium',
+      description: v => `Rata-rata asupan kalsium Anda (${v.current} mg) di bawah anjuran (${v.target} mg).`,
+      suggestions: [
+        'Sertakan produk susu seperti susu, yogurt, dan keju',
+        'Tambahkan sayuran hijau seperti bayam dan daun kelor',
+        'Coba susu nabati yang diperkaya kalsium',
+        'Sertakan ikan teri atau ikan kaleng beserta tulangnya'
+      ],
+    },
+    'low-iron': {
+      title: 'Tingkatkan Asupan Zat Besi',
+      description: v => `Rata-rata asupan zat besi Anda (${v.current} mg) di bawah anjuran (${v.target} mg).`,
+      suggestions: [
+        'Sertakan daging merah tanpa lemak, ayam, dan ikan',
+        'Tambahkan sayuran kaya zat besi seperti bayam dan brokoli',
+        'Padukan makanan kaya zat besi dengan sumber vitamin C',
+        'Pertimbangkan sereal yang diperkaya zat besi'
+      ],
+    },
+    'low-vitamin-c': {
+      title: 'Tingkatkan Asupan Vitamin C',
+      description: v => `Rata-rata asupan vitamin C Anda (${v.current} mg) di bawah anjuran (${v.target} mg).`,
+      suggestions: [
+        'Tambahkan buah jeruk',
+        'Sertakan buah beri atau jambu biji',
+        'Tambahkan paprika dan brokoli ke makanan',
+        'Coba pepaya atau stroberi sebagai camilan'
+      ],
+    },
+    'skipping-breakfast': {
+      title: 'Sarapan Lebih Teratur',
+      description: () => 'Anda sering melewatkan sarapan. Sarapan teratur membantu menjaga energi sepanjang hari.',
+      suggestions: [
+        'Siapkan oat rendam semalam atau yogurt dengan buah',
+        'Sediakan pilihan praktis seperti pisang dan kacang',
+        'Coba pilihan kaya protein seperti telur atau yogurt',
+        'Biasakan jadwal makan pagi'
+      ],
+    },
+    'high-carb-ratio': {
+      title: 'Seimbangkan Makronutrien',
+      description: v => `Pola makan Anda sangat tinggi karbohidrat (${v.current}%). Imbangi dengan lebih banyak protein dan lemak sehat.`,
+      suggestions: [
+        'Ganti sebagian karbohidrat olahan dengan sumber protein',
+        'Tambahkan lemak sehat seperti kacang, biji-bijian, atau minyak zaitun',
+        'Pilih karbohidrat kompleks daripada karbohidrat sederhana',
+        'Sertakan protein di setiap makan'
+      ],
+    },
+  },
+};
+
+const NUMBER_LOCALES: Record<Language, string> = { id: 'id-ID', en: 'en-US' };
+
+// Title, description and suggestions of a recommendation in the requested language
+function recommendationText(id: RecommendationId, language: Language, current?: number, target?: number) {
+  const text = RECOMMENDATION_TEXTS[language][id];
+  const format = (value?: number) =>
+    value === undefined ? '' : Math.round(value).toLocaleString(NUMBER_LOCALES[language]);
+  return {
+    id,
+    title: text.title,
+    description: text.description({ current: format(current), target: format(target) }),
+    suggestions: text.suggestions,
+  };
+}
+
+export function generateRecommendations(
+  trend: NutritionTrend,
+  goals?: GoalValues | null,
+  language: Language = 'en',
+  child?: Pick<ChildProfile, 'birthDate' | 'sex' | 'weightKg'>
+): Recommendation[] {
+  const recommendations: Recommendation[] = [];
+
+  // Use the saved goals if available, then the child's age-based defaults, otherwise the RDV
+  const childGoals = child ? defaultGoalsForChild(child) : null;
+  const targets = {
+    calories: goals?.dailyCalories || childGoals?.dailyCalories || RDV.calories.min,
+    protein: goals?.dailyProtein || childGoals?.dailyProtein || RDV.protein.min,
+    carbs: goals?.dailyCarbs || childGoals?.dailyCarbs || RDV.carbs.min,
+    fat: goals?.dailyFat || childGoals?.dailyFat || RDV.fat.min,
+    fiber: goals?.dailyFiber || childGoals?.dailyFiber || RDV.fiber.min,
+  };
+
+  // Calorie recommendations
+  if (trend.avgCalories < targets.calories * 0.8) {
+    recommendations.push({
+      ...recommendationText('low-calories', language, trend.avgCalories, targets.calories),
+      type: 'deficiency',
+      priority: 'high',
+      nutrient: 'calories',
+      currentValue: Math.round(trend.avgCalories),
+      targetValue: targets.calories
+    });
+  } else if (trend.avgCalories > targets.calories * 1.2) {
+    recommendations.push({
+      ...recommendationText('high-calories', language, trend.avgCalories, targets.calories),
+      type: 'excess',
+      priority: 'medium',
+      nutrient: 'calories',
+      currentValue: Math.round(trend.avgCalories),
+      targetValue: targets.calories
+    });
+  }
+
+  // Protein recommendations
+  if (trend.avgProtein < targets.protein * 0.8) {
+    recommendations.push({
+      ...recommendationText('low-protein', language, trend.avgProtein, targets.protein),
+      type: 'deficiency',
+      priority: 'high',
+      nutrient: 'protein',
+      currentValue: Math.round(trend.avgProtein),
+      targetValue: targets.protein
+    });
+  }
+
+  // Fiber recommendations
+  if (trend.avgFiber < targets.fiber * 0.7) {
+    recommendations.push({
+      ...recommendationText('low-fiber', language, trend.avgFiber, targets.fiber),
+      type: 'deficiency',
+      priority: 'medium',
+      nutrient: 'fiber',
+      currentValue: Math.round(trend.avgFiber),
+      targetValue: targets.fiber
+    });
+  }
+
+  // Sodium recommendations
+  if (trend.avgSodium > RDV.sodium.max) {
+    recommendations.push({
+      ...recommendationText('high-sodium', language, trend.avgSodium, RDV.sodium.max),
+      type: 'excess',
+      priority: 'medium',
+      nutrient: 'sodium',
+      currentValue: Math.round(trend.avgSodium),
+      targetValue: RDV.sodium.max
+    });
+  }
+
+  // Calcium recommendations
+  if (trend.avgCalcium < RDV.calcium.min) {
+    recommendations.push({
+      ...recommendationText('low-calcium', language, trend.avgCalcium, RDV.calcium.min),
+      type: 'deficiency',
+      priority: 'medium',
+      nutrient: 'calcium',
+      currentValue: Math.round(trend.avgCalcium),
+      targetValue: RDV.calcium.min
+    });
+  }
+
+  // Iron recommendations
+  if (trend.avgIron < RDV.iron.min) {
+    recommendations.push({
+      ...recommendationText('low-iron', language, trend.avgIron, RDV.iron.min),
+      type: 'deficiency',
+      priority: 'medium',
+      nutrient: 'iron',
+      currentValue: Math.round(trend.avgIron),
+      targetValue: RDV.iron.min
+    });
+  }
+
+  // Vitamin C recommendations
+  if (trend.avgVitaminC < RDV.vitamin_c.min) {
+    recommendations.push({
+      ...recommendationText('low-vitamin-c', language, trend.avgVitaminC, RDV.vitamin_c.min),
+      type: 'deficiency',
+      priority: 'low',
+      nutrient: 'vitamin_c',
+      currentValue: Math.round(trend.avgVitaminC),
+      targetValue: RDV.vitamin_c.min
+    });
+  }
+
+  // Meal pattern recommendations
+  if (trend.mealFrequency.breakfast < trend.daysAnalyzed * 0.5) {
+    recommendations.push({
+      ...recommendationText('skipping-breakfast', language),
+      type: 'habit',
+      priority: 'medium'
+    });
+  }
+
+  // Balance recommendations
+  const proteinPercent = (trend.avgProtein * 4) / trend.avgCalories * 100;
+  const carbPercent = (trend.avgCarbs * 4) / trend.avgCalories * 100;
+  const fatPercent = (trend.avgFat * 9) / trend.avgCalories * 100;
+
+  if (carbPercent > 65) {
+    recommendations.push({
+      ...recommendationText('high-carb-ratio', language, carbPercent),
+      type: 'balance',
+      priority: 'low'
+    });
+  }
+
+  // Sort by priority
+  const priorityOrder = { high: 3, medium: 2, low: 1 };
+  return recommendations.sort((a, b) => priorityOrder[b.priority] - priorityOrder[a.priority]);
+}
\ No newline at end of file
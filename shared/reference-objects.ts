@@ -0,0 +1,50 @@
+// Reference objects of known size used to calibrate portion estimates.
+// Only the longest dimension is used: it survives perspective better than the short side.
+import type { ReferenceObjectId } from "./schema";
+
+export interface ReferenceObject {
+  id: ReferenceObjectId;
+  names: { id: string; en: string };
+  longest_mm: number;
+  // Phrase used in the model prompt
+  description: string;
+}
+
+export const REFERENCE_OBJECTS: ReferenceObject[] = [
+  {
+    id: 'plate-26cm',
+    names: { id: 'Piring makan (26 cm)', en: 'Dinner plate (26 cm)' },
+    longest_mm: 260,
+    description: 'round dinner plate, 26 cm in diameter',
+  },
+  {
+    id: 'plate-20cm',
+    names: { id: 'Piring kecil (20 cm)', en: 'Small plate (20 cm)' },
+    longest_mm: 200,
+    description: 'round side plate, 20 cm in diameter',
+  },
+  {
+    id: 'tablespoon',
+    names: { id: 'Sendok makan', en: 'Tablespoon' },
+    longest_mm: 180,
+    description: 'metal tablespoon, 18 cm long',
+  },
+  {
+    id: 'coin-rp1000',
+    names: { id: 'Koin Rp1.000', en: 'Rp1,000 coin' },
+    longest_mm: 24,
+    description: 'Rp1,000 coin, 24 mm in diameter',
+  },
+  {
+    id: 'card-id1',
+    names: { id: 'Kartu (KTP/ATM)', en: 'ID or bank card' },
+    longest_mm: 85.6,
+    description: 'ID or bank card, 85.6 × 54 mm',
+  },
+];
+
+const REFERENCE_OBJECTS_BY_ID = new Map(REFERENCE_OBJECTS.map(object => [object.id, object]));
+
+export function getReferenceObject(id: ReferenceObjectId): ReferenceObject {
+  return REFERENCE_OBJECTS_BY_ID.get(id)!;
+}
@@ -17,6 +17,9 @@ export const MacronutrientsSchema = z.object({
   fat_g: z.number().min(0),
   fiber_g: z.number().min(0),
   sugar_g: z.number().min(0),
+  // Extended panel: optional so results saved before it still load; absent means unknown, not zero
+  saturated_fat_g: z.number().min(0).optional(),
+  added_sugar_g: z.number().min(0).optional(), // added/free sugars
 });
 
 export const MicronutrientsSchema = z.object({
@@ -27,6 +30,12 @@ export const MicronutrientsSchema = z.object({
   vitamin_a_mcg: z.number().min(0),
   vitamin_c_mg: z.number().min(0),
   cholesterol_mg: z.number().min(0),
+  // Extended panel (stunting and anemia): optional, absent means unknown
+  zinc_mg: z.number().min(0).optional(),
+  vitamin_d_mcg: z.number().min(0).optional(),
+  vitamin_b12_mcg: z.number().min(0).optional(),
+  folate_mcg: z.number().min(0).optional(), // dietary folate equivalents
+  iodine_mcg: z.number().min(0).optional(),
 });
 
 export const NutritionSchema = z.object({
@@ -36,12 +45,106 @@ export const NutritionSchema = z.object({
   allergens: z.array(z.string()),
 });
 
+// Canonical allergen codes; the pipeline maps the model's free-text allergens onto them
+// (shared/allergens.ts), so `allergens` lists hold these codes.
+export const AllergenCodeSchema = z.enum([
+  'milk',
+  'egg',
+  'peanut',
+  'tree_nut',
+  'soy',
+  'wheat', // wheat and other gluten cereals
+  'fish',
+  'shellfish', // crustaceans and molluscs
+  'sesame',
+  'mustard',
+  'celery',
+  'sulfite',
+  'lupin',
+  'other',
+]);
+
+// high: the wording names the allergen; medium: found inside a longer phrase; low: unmapped
+export const AllergenConfidenceSchema = z.enum(['high', 'medium', 'low']);
+
+export const AllergenDetectionSchema = z.object({
+  code: AllergenCodeSchema,
+  confidence: AllergenConfidenceSchema,
+  may_contain: z.boolean(), // "may contain" / traces rather than an ingredient
+  terms: z.array(z.string()), // the wording it was mapped from
+});
+
+// Where an item's nutrition numbers came from: the model's estimate, a food composition table,
+// a printed nutrition facts panel or a saved home recipe
+export const NutritionSourceSchema = z.object({
+  type: z.enum(['model', 'reference', 'label', 'recipe']),
+  database: z.string().optional(),
+  food_id: z.string().optional(),
+  recipe_id: z.string().optional(),
+  recipe_name: z.string().optional(),
+});
+
+// Set when a reference object rescaled the model's portion estimate (server/calibration.ts)
+export const ServingCalibrationSchema = z.object({
+  model_serving_g: z.number().min(0), // the model's original estimate
+  footprint_cm2: z.number().min(0),
+  factor: z.number().min(0),
+});
+
+// Which ensemble models detected an item; `low` marks items only one model found.
+export const ItemAgreementSchema = z.object({
+  models: z.array(z.string()),
+  ratio: z.number().min(0).max(1),
+  low: z.boolean(),
+});
+
+// How an item was identified: seen in a meal photo, described in text, read off a nutrition panel
+// or added by hand in the result editor
+export const ItemSourceSchema = z.enum(['vision', 'text', 'label', 'manual']);
+
+// Religious and dietary flags, each from the food database (shared/dietary.ts) or the model.
+// A missing flag means neither source could tell.
+export const DietaryFlagSchema = z.enum(['contains_pork', 'contains_alcohol', 'vegetarian', 'vegan', 'halal_uncertain']);
+
+export const DietaryFlagValueSchema = z.object({
+  value: z.boolean(),
+  source: z.enum(['database', 'model']),
+});
+
+export const DietaryFlagsSchema = z.object({
+  contains_pork: DietaryFlagValueSchema.optional(),
+  contains_alcohol: DietaryFlagValueSchema.optional(),
+  vegetarian: DietaryFlagValueSchema.optional(),
+  vegan: DietaryFlagValueSchema.optional(),
+  halal_uncertain: DietaryFlagValueSchema.optional(),
+});
+
+// A scanned nutrition facts panel ("Informasi Nilai Gizi"). The item's nutrition is
+// per_serving × servings_eaten; the user adjusts servings_eaten after the scan.
+export const LabelPanelSchema = z.object({
+  serving_size_g: z.number().min(0), // takaran saji
+  servings_per_package: z.number().positive().optional(), // jumlah sajian per kemasan, when printed
+  servings_eaten: z.number().positive(),
+  per_serving: NutritionSchema,
+});
+
 export const FoodItemSchema = z.object({
   label: z.string(),
   confidence: z.number().min(0).max(1),
   serving_est_g: z.number().min(0),
   bbox_norm: BoundingBoxSchema,
   nutrition: NutritionSchema,
+  nutrition_source: NutritionSourceSchema.optional(),
+  // Canonical food ID and bilingual names from shared/food-labels.ts (absent for unknown labels)
+  food_id: z.string().optional(),
+  display_names: z.object({ id: z.string(), en: z.string() }).optional(),
+  agreement: ItemAgreementSchema.optional(), // ensemble mode only
+  serving_calibration: ServingCalibrationSchema.optional(),
+  source: ItemSourceSchema.optional(),
+  label_panel: LabelPanelSchema.optional(), // label scans only
+  edited: z.boolean().optional(), // relabeled or resized by the user (shared/composition-edits.ts)
+  allergen_details: z.array(AllergenDetectionSchema).optional(), // one per code in nutrition.allergens
+  dietary: DietaryFlagsSchema.optional(),
 });
 
 export const ImageMetaSchema = z.object({
@@ -50,21 +153,233 @@ export const ImageMetaSchema = z.object({
   orientation: z.enum(['portrait', 'landscape', 'square']),
 });
 
+export const NutritionTotalsSchema = z.object({
+  serving_total_g: z.number().min(0),
+  calories_kcal: z.number().min(0),
+  macros: MacronutrientsSchema,
+  micros: MicronutrientsSchema,
+  allergens: z.array(z.string()),
+});
+
+// Values for a server message the client translates by its code (the English `message`
+// stays for logs, API callers and results saved before codes existed)
+export const MessageParamsSchema = z.record(z.union([z.string(), z.number()]));
+
+// Consistency checks on the model output and after user edits (see shared/quality.ts)
+export const QualityIssueSchema = z.object({
+  type: z.enum(['totals_mismatch', 'energy_mismatch', 'density_out_of_range']),
+  message: z.string(),
+  code: z.enum(['totals_mismatch', 'total_energy_mismatch', 'item_energy_mismatch', 'missing_weight', 'density_too_high']).optional(),
+  params: MessageParamsSchema.optional(),
+  item_index: z.number().int().min(0).optional(),
+  field: z.string().optional(),
+  expected: z.number().optional(),
+  actual: z.number().optional(),
+});
+
+export const AnalysisQualitySchema = z.object({
+  status: z.enum(['ok', 'warning']),
+  totals_recomputed: z.boolean(),
+  issues: z.array(QualityIssueSchema),
+});
+
+// Known-size objects the user can place next to the food (sizes in shared/reference-objects.ts)
+export const ReferenceObjectIdSchema = z.enum(["plate-26cm", "plate-20cm", "tablespoon", "coin-rp1000", "card-id1"]);
+
+// Declared before capture; `bbox_norm` is present when the user marked the object on the photo,
+// otherwise the model is asked to locate it.
+export const ScaleReferenceSchema = z.object({
+  object: ReferenceObjectIdSchema,
+  bbox_norm: BoundingBoxSchema.optional(),
+});
+
+export const CalibrationSchema = z.object({
+  reference: ReferenceObjectIdSchema,
+  located_by: z.enum(["user", "model"]).optional(),
+  mm_per_px: z.number().optional(),
+  applied: z.boolean(),
+  message: z.string(),
+  code: z.enum(['reference_not_found', 'image_size_unknown', 'calibrated', 'no_item_boxes']).optional(),
+  params: MessageParamsSchema.optional(),
+});
+
+export const EnsembleInfoSchema = z.object({
+  models: z.array(z.string()), // models whose answers were fused
+  failed: z.array(z.object({ model: z.string(), message: z.string() })),
+});
+
+// Whether the model's first reply failed validation and needed a repair round-trip
+export const OutputRepairSchema = z.object({
+  needed: z.boolean(),
+  succeeded: z.boolean().optional(), // only set when needed
+  errors: z.array(z.string()).optional(), // validation errors sent back to the model
+});
+
+// How an estimate was produced, so saved meals can be compared across prompt changes
+export const AnalysisProvenanceSchema = z.object({
+  prompt_id: z.string(),
+  prompt_version: z.string(),
+  provider: z.string(),
+  model: z.string(), // ensemble: fused models joined with " + "
+  latency_ms: z.number().nonnegative(), // whole pipeline, including retries and fallbacks
+  attempts: z.number().int().nonnegative(), // model calls made, including retries and fallbacks
+  analyzed_at: z.string(), // ISO timestamp
+});
+
 export const NutritionAnalysisSchema = z.object({
   image_meta: ImageMetaSchema,
   composition: z.array(FoodItemSchema),
-  totals: z.object({
-    serving_total_g: z.number().min(0),
-    calories_kcal: z.number().min(0),
-    macros: MacronutrientsSchema,
-    micros: MicronutrientsSchema,
-    allergens: z.array(z.string()),
-  }),
+  totals: NutritionTotalsSchema,
   notes: z.string().optional(),
+  quality: AnalysisQualitySchema.optional(),
+  ensemble: EnsembleInfoSchema.optional(),
+  reference_bbox_norm: BoundingBoxSchema.optional(), // reference object as located by the model
+  calibration: CalibrationSchema.optional(),
+  repair: OutputRepairSchema.optional(),
+  provenance: AnalysisProvenanceSchema.optional(),
+  allergen_details: z.array(AllergenDetectionSchema).optional(), // one per code in totals.allergens
+});
+
+// The part of NutritionAnalysis the model itself writes. Its JSON schema constrains provider
+// output and its validation errors drive the repair round-trip (server/analysis.ts).
+export const ModelFoodItemSchema = FoodItemSchema.pick({
+  label: true,
+  confidence: true,
+  serving_est_g: true,
+  bbox_norm: true,
+  nutrition: true,
+}).extend({
+  // Only asked for when scanning a nutrition panel; the server fills in the rest of label_panel
+  label_panel: LabelPanelSchema.pick({ serving_size_g: true, servings_per_package: true }).optional(),
+  // Plain booleans; the server records them as model-sourced flags
+  dietary: z.object({
+    contains_pork: z.boolean(),
+    contains_alcohol: z.boolean(),
+    vegetarian: z.boolean(),
+    vegan: z.boolean(),
+    halal_uncertain: z.boolean(),
+  }).partial().optional(),
+});
+
+export const ModelNutritionAnalysisSchema = NutritionAnalysisSchema.pick({
+  image_meta: true,
+  totals: true,
+  notes: true,
+  reference_bbox_norm: true,
+}).extend({
+  composition: z.array(ModelFoodItemSchema),
 });
 
+// `cache` mirrors the Cache-Control request directives: "no-cache" skips the lookup, "no-store" also skips storing
+export const AnalysisCacheModeSchema = z.enum(["default", "no-cache", "no-store"]);
+
+// "ensemble" calls every configured model in parallel and fuses their items instead of falling back;
+// "label" reads a packaged food's nutrition facts panel instead of estimating a meal
+export const AnalysisModeSchema = z.enum(["single", "ensemble", "label"]);
+
 export const AnalysisRequestSchema = z.object({
-  dataURL: z.string(),
+  dataURL: z.string().startsWith('data:image/'), // decoded and validated by server/image.ts
+  cache: AnalysisCacheModeSchema.optional(),
+  mode: AnalysisModeSchema.optional(),
+  reference: ScaleReferenceSchema.optional(),
+});
+
+export const MAX_DESCRIPTION_LENGTH = 1000;
+
+// Meal logged from a typed description instead of a photo (POST /api/analyze-text)
+export const TextAnalysisRequestSchema = z.object({
+  description: z.string().trim().min(1).max(MAX_DESCRIPTION_LENGTH),
+  cache: AnalysisCacheModeSchema.optional(),
+});
+
+export const AnalysisSourceSchema = z.enum(["image", "camera"]);
+
+export const AnalysisJobRequestSchema = AnalysisRequestSchema.extend({
+  source: AnalysisSourceSchema,
+});
+
+// Progress stages streamed by /api/analysis-jobs/:id/events. "model_call" repeats per attempt and fallback model.
+// "uploading" is reported by the client while the job request is in flight.
+export const AnalysisStageSchema = z.enum([
+  "uploading",
+  "queued",
+  "model_call",
+  "validating",
+  "done",
+  "failed",
+  "cancelled",
+]);
+
+export const AnalysisJobEventSchema = z.object({
+  stage: AnalysisStageSchema,
+  message: z.string(),
+  at: z.string(), // ISO timestamp
+  model: z.string().optional(),
+  attempt: z.number().optional(),
+  fallback: z.boolean().optional(), // true once the first-choice model has been abandoned
+  cached: z.boolean().optional(),
+  result: NutritionAnalysisSchema.optional(), // only on "done"
+});
+
+// Home recipes (shared/recipes.ts), kept in the browser and attached to photographed dishes
+export const CookingMethodSchema = z.enum(["raw", "boiled", "steamed", "stir_fried", "deep_fried", "grilled"]);
+
+// Ingredient weights are as bought (raw), keyed by shared/food-composition.ts IDs
+export const RecipeIngredientSchema = z.object({
+  food_id: z.string().min(1),
+  grams: z.number().positive(),
+});
+
+export const RecipeSchema = z.object({
+  id: z.string(),
+  name: z.string().trim().min(1).max(100),
+  ingredients: z.array(RecipeIngredientSchema).min(1),
+  portions: z.number().int().positive(),
+  cooking_method: CookingMethodSchema,
+  created_at: z.string(), // ISO timestamp
+});
+
+// A child's known food allergies, matched against analyses (shared/allergens.ts)
+export const AllergySeveritySchema = z.enum(["mild", "moderate", "severe"]);
+
+export const ChildAllergySchema = z.object({
+  code: AllergenCodeSchema,
+  severity: AllergySeveritySchema,
+});
+
+export const SexSchema = z.enum(["female", "male"]);
+
+// A child tracked on this device; meals, goals and allergies each belong to one profile
+export const ChildProfileSchema = z.object({
+  id: z.string(),
+  name: z.string().trim().min(1).max(60),
+  birthDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // yyyy-MM-dd
+  sex: SexSchema,
+  weightKg: z.number().positive().max(200).optional(),
+  heightCm: z.number().positive().max(250).optional(),
+  allergies: z.array(ChildAllergySchema),
+  createdAt: z.string(), // ISO timestamp
+});
+
+// The user's dietary rules; conflicting items raise an alert on the result (shared/dietary.ts)
+export const DietaryPreferencesSchema = z.object({
+  halal: z.boolean(),
+  vegetarian: z.boolean(),
+  vegan: z.boolean(),
+  avoid: z.array(z.string().trim().min(1)), // ingredients or foods to avoid, free text
+});
+
+// UI and recommendation language
+export const LanguageSchema = z.enum(["id", "en"]);
+
+export const EnergyUnitSchema = z.enum(["kcal", "kJ"]);
+export const MassUnitSchema = z.enum(["g", "oz"]);
+
+// Display units; stored values always stay in kcal and grams (shared/units.ts converts)
+export const UnitPreferencesSchema = z.object({
+  energy: EnergyUnitSchema,
+  mass: MassUnitSchema, // food weights; nutrient amounts keep their own units (g, mg, mcg)
+  decimals: z.number().int().min(0).max(2),
 });
 
 // Database Tables
@@ -102,6 +417,14 @@ export const meals = pgTable("meals", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Cached analyses keyed by the SHA-256 of the decoded image bytes (see server/cache.ts)
+export const analysisCache = pgTable("analysis_cache", {
+  key: varchar("key", { length: 128 }).primaryKey(),
+  analysisData: jsonb("analysis_data").notNull(), // Store NutritionAnalysis JSON
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   meals: many(meals),
@@ -144,10 +467,49 @@ export type BoundingBox = z.infer<typeof BoundingBoxSchema>;
 export type Macronutrients = z.infer<typeof MacronutrientsSchema>;
 export type Micronutrients = z.infer<typeof MicronutrientsSchema>;
 export type Nutrition = z.infer<typeof NutritionSchema>;
+export type AllergenCode = z.infer<typeof AllergenCodeSchema>;
+export type AllergenConfidence = z.infer<typeof AllergenConfidenceSchema>;
+export type AllergenDetection = z.infer<typeof AllergenDetectionSchema>;
+export type NutritionSource = z.infer<typeof NutritionSourceSchema>;
+export type ServingCalibration = z.infer<typeof ServingCalibrationSchema>;
+export type ItemAgreement = z.infer<typeof ItemAgreementSchema>;
+export type ItemSource = z.infer<typeof ItemSourceSchema>;
+export type DietaryFlag = z.infer<typeof DietaryFlagSchema>;
+export type DietaryFlagValue = z.infer<typeof DietaryFlagValueSchema>;
+export type DietaryFlags = z.infer<typeof DietaryFlagsSchema>;
+export type LabelPanel = z.infer<typeof LabelPanelSchema>;
 export type FoodItem = z.infer<typeof FoodItemSchema>;
 export type ImageMeta = z.infer<typeof ImageMetaSchema>;
+export type NutritionTotals = z.infer<typeof NutritionTotalsSchema>;
+export type QualityIssue = z.infer<typeof QualityIssueSchema>;
+export type AnalysisQuality = z.infer<typeof AnalysisQualitySchema>;
+export type ReferenceObjectId = z.infer<typeof ReferenceObjectIdSchema>;
+export type ScaleReference = z.infer<typeof ScaleReferenceSchema>;
+export type Calibration = z.infer<typeof CalibrationSchema>;
+export type EnsembleInfo = z.infer<typeof EnsembleInfoSchema>;
+export type OutputRepair = z.infer<typeof OutputRepairSchema>;
+export type AnalysisProvenance = z.infer<typeof AnalysisProvenanceSchema>;
 export type NutritionAnalysis = z.infer<typeof NutritionAnalysisSchema>;
+export type AnalysisCacheMode = z.infer<typeof AnalysisCacheModeSchema>;
+export type AnalysisMode = z.infer<typeof AnalysisModeSchema>;
 export type AnalysisRequest = z.infer<typeof AnalysisRequestSchema>;
+export type TextAnalysisRequest = z.infer<typeof TextAnalysisRequestSchema>;
+export type AnalysisSource = z.infer<typeof AnalysisSourceSchema>;
+export type AnalysisJobRequest = z.infer<typeof AnalysisJobRequestSchema>;
+export type AnalysisStage = z.infer<typeof AnalysisStageSchema>;
+export type AnalysisJobEvent = z.infer<typeof AnalysisJobEventSchema>;
+export type CookingMethod = z.infer<typeof CookingMethodSchema>;
+export type RecipeIngredient = z.infer<typeof RecipeIngredientSchema>;
+export type Recipe = z.infer<typeof RecipeSchema>;
+export type AllergySeverity = z.infer<typeof AllergySeveritySchema>;
+export type ChildAllergy = z.infer<typeof ChildAllergySchema>;
+export type Sex = z.infer<typeof SexSchema>;
+export type ChildProfile = z.infer<typeof ChildProfileSchema>;
+export type DietaryPreferences = z.infer<typeof DietaryPreferencesSchema>;
+export type Language = z.infer<typeof LanguageSchema>;
+export type EnergyUnit = z.infer<typeof EnergyUnitSchema>;
+export type MassUnit = z.infer<typeof MassUnitSchema>;
+export type UnitPreferences = z.infer<typeof UnitPreferencesSchema>;
 
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -0,0 +1,24 @@
+// Display unit conversions. Results are stored and exchanged in kcal and grams; these helpers
+// convert only at the edges (display, goal inputs, CSV export).
+import type { EnergyUnit, MassUnit, UnitPreferences } from "./schema";
+
+export const KJ_PER_KCAL = 4.184;
+export const GRAMS_PER_OUNCE = 28.349523125;
+
+export const DEFAULT_UNIT_PREFERENCES: UnitPreferences = { energy: 'kcal', mass: 'g', decimals: 1 };
+
+export function toEnergyUnit(kcal: number, unit: EnergyUnit): number {
+  return unit === 'kJ' ? kcal * KJ_PER_KCAL : kcal;
+}
+
+export function fromEnergyUnit(value: number, unit: EnergyUnit): number {
+  return unit === 'kJ' ? value / KJ_PER_KCAL : value;
+}
+
+export function toMassUnit(grams: number, unit: MassUnit): number {
+  return unit === 'oz' ? grams / GRAMS_PER_OUNCE : grams;
+}
+
+export function fromMassUnit(value: number, unit: MassUnit): number {
+  return unit === 'oz' ? value * GRAMS_PER_OUNCE : value;
+}